@@ -0,0 +1,216 @@
+/**
+ * @jest-environment jsdom
+ */
+
+/**
+ * @bagaking/dma-frame - Auto Height Tests
+ * 自动高度模式：测量、边界、防抖与断开
+ */
+
+import { CoreHeightController } from '../src/HeightController.js';
+import { measureElementHeight } from '../src/AutoHeight.js';
+import { PlatformBridge } from '../src/types.js';
+
+class MockPlatformBridge implements PlatformBridge {
+  public heights: number[] = [];
+
+  async updateHeight(targetHeight: number): Promise<number> {
+    this.heights.push(targetHeight);
+    return targetHeight;
+  }
+}
+
+// jsdom 没有 ResizeObserver，使用可手动触发的替身
+class FakeResizeObserver {
+  static instances: FakeResizeObserver[] = [];
+  public disconnected = false;
+
+  constructor(private readonly callback: () => void) {
+    FakeResizeObserver.instances.push(this);
+  }
+
+  observe(): void {}
+
+  disconnect(): void {
+    this.disconnected = true;
+  }
+
+  trigger(): void {
+    this.callback();
+  }
+}
+
+function createElement(height: number): HTMLDivElement {
+  const element = document.createElement('div');
+  document.body.appendChild(element);
+  setHeight(element, height);
+  return element;
+}
+
+function setHeight(element: HTMLElement, height: number): void {
+  element.getBoundingClientRect = () => ({ height } as DOMRect);
+}
+
+async function flushTimers(ms: number): Promise<void> {
+  jest.advanceTimersByTime(ms);
+  // 让 adjustHeight 的异步队列跑完
+  for (let i = 0; i < 10; i++) {
+    await Promise.resolve();
+  }
+}
+
+describe('Auto Height', () => {
+  let bridge: MockPlatformBridge;
+  let controller: CoreHeightController;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    FakeResizeObserver.instances = [];
+    (window as any).ResizeObserver = FakeResizeObserver;
+    bridge = new MockPlatformBridge();
+    controller = new CoreHeightController(bridge);
+  });
+
+  afterEach(() => {
+    controller.dispose();
+    document.body.innerHTML = '';
+    delete (window as any).ResizeObserver;
+    jest.useRealTimers();
+  });
+
+  describe('measureElementHeight', () => {
+    test('should include vertical margins for margin-box', () => {
+      const element = createElement(100);
+      element.style.marginTop = '10px';
+      element.style.marginBottom = '6px';
+
+      expect(measureElementHeight(element)).toBe(116);
+      expect(measureElementHeight(element, 'border-box')).toBe(100);
+    });
+
+    test('should exclude padding and border for content-box', () => {
+      const element = createElement(100);
+      element.style.padding = '8px';
+      element.style.border = '2px solid black';
+
+      expect(measureElementHeight(element, 'content-box')).toBe(80);
+    });
+
+    test('should round fractional heights up', () => {
+      const element = createElement(100.2);
+      expect(measureElementHeight(element, 'border-box')).toBe(101);
+    });
+  });
+
+  describe('observe', () => {
+    test('should adjust to the initial measured height immediately', async () => {
+      const element = createElement(320);
+
+      controller.observe(element);
+      await flushTimers(0);
+
+      expect(bridge.heights).toEqual([320]);
+      expect(controller.getCurrentHeight()).toBe(320);
+    });
+
+    test('should debounce bursts of resize notifications', async () => {
+      const element = createElement(300);
+      controller.observe(element, { debounceMs: 100 });
+      await flushTimers(0);
+
+      const observer = FakeResizeObserver.instances[0]!;
+      setHeight(element, 350);
+      observer.trigger();
+      setHeight(element, 400);
+      observer.trigger();
+      setHeight(element, 450);
+      observer.trigger();
+
+      await flushTimers(50);
+      expect(bridge.heights).toEqual([300]);
+
+      await flushTimers(100);
+      expect(bridge.heights).toEqual([300, 450]);
+    });
+
+    test('should clamp measured heights to min/max bounds', async () => {
+      const element = createElement(50);
+      controller.observe(element, { minHeight: 200, maxHeight: 600, debounceMs: 10 });
+      await flushTimers(0);
+
+      setHeight(element, 900);
+      FakeResizeObserver.instances[0]!.trigger();
+      await flushTimers(10);
+
+      expect(bridge.heights).toEqual([200, 600]);
+    });
+
+    test('should skip adjustments when the measured height is unchanged', async () => {
+      const element = createElement(300);
+      controller.observe(element, { debounceMs: 10 });
+      await flushTimers(0);
+
+      FakeResizeObserver.instances[0]!.trigger();
+      await flushTimers(10);
+
+      expect(bridge.heights).toEqual([300]);
+    });
+
+    test('should react to DOM mutations inside the element', async () => {
+      const element = createElement(300);
+      controller.observe(element, { debounceMs: 10 });
+      await flushTimers(0);
+
+      setHeight(element, 380);
+      element.appendChild(document.createElement('p'));
+      await flushTimers(0); // MutationObserver 回调是微任务
+      await flushTimers(10);
+
+      expect(bridge.heights).toEqual([300, 380]);
+    });
+
+    test('should pass measured height to UI callbacks', async () => {
+      const element = createElement(240);
+      const seen: number[] = [];
+
+      controller.observe(element, {
+        onUIChange: height => { seen.push(height); }
+      });
+      await flushTimers(0);
+
+      expect(seen).toEqual([240]);
+    });
+
+    test('should reject inconsistent bounds', () => {
+      const element = createElement(300);
+      expect(() => controller.observe(element, { minHeight: 500, maxHeight: 400 }))
+        .toThrow('minHeight 500 exceeds maxHeight 400');
+    });
+
+    test('should stop observing after disconnect', async () => {
+      const element = createElement(300);
+      const handle = controller.observe(element, { debounceMs: 10 });
+      await flushTimers(0);
+
+      handle.disconnect();
+      setHeight(element, 500);
+      FakeResizeObserver.instances[0]!.trigger();
+      await flushTimers(10);
+
+      expect(handle.isObserving).toBe(false);
+      expect(FakeResizeObserver.instances[0]!.disconnected).toBe(true);
+      expect(bridge.heights).toEqual([300]);
+    });
+
+    test('should disconnect observers when the controller is disposed', async () => {
+      const element = createElement(300);
+      const handle = controller.observe(element);
+      await flushTimers(0);
+
+      controller.dispose();
+
+      expect(handle.isObserving).toBe(false);
+      expect(() => controller.observe(element)).toThrow('Controller has been disposed');
+    });
+  });
+});
@@ -0,0 +1,208 @@
+/**
+ * @bagaking/dma-frame - Bridge Middleware Tests
+ * 中间件组合顺序，以及限频、去重、限幅、取整与日志各自的行为
+ */
+
+import {
+  clampHeights,
+  composeBridge,
+  dedupeHeights,
+  logBridgeCalls,
+  roundToDevicePixels,
+  throttleUpdates
+} from '../src/BridgeMiddleware.js';
+import type { BridgeMiddleware } from '../src/BridgeMiddleware.js';
+import { CoreFrameController } from '../src/FrameController.js';
+import { CoreHeightController } from '../src/HeightController.js';
+import { MemoryLogger } from '../src/Logger.js';
+import { withRetry } from '../src/RetryBridge.js';
+import { createSimulatedBridge } from '../src/SimulatedBridge.js';
+import { HeightControllerError } from '../src/types.js';
+import type { FrameBridge, FrameMode } from '../src/types.js';
+
+describe('composeBridge', () => {
+  test('should run middlewares outermost first', async () => {
+    const order: string[] = [];
+    const tag = (name: string): BridgeMiddleware => next => ({
+      updateHeight: async height => {
+        order.push(`${name}:${height}`);
+        return next.updateHeight(height + 1);
+      }
+    });
+    const base = createSimulatedBridge();
+
+    const bridge = composeBridge(base, tag('a'), tag('b'));
+
+    await expect(bridge.updateHeight(100)).resolves.toBe(102);
+    expect(order).toEqual(['a:100', 'b:101']);
+  });
+
+  test('should return the base bridge without middlewares and forward capabilities', async () => {
+    const base = createSimulatedBridge({ capabilities: { preferredUpdateIntervalMs: 32 } });
+
+    expect(composeBridge(base)).toBe(base);
+    expect(composeBridge(base, dedupeHeights()).getCapabilities?.())
+      .toMatchObject({ preferredUpdateIntervalMs: 32 });
+  });
+
+  test('should accept withRetry as a middleware and drive a controller', async () => {
+    const base = createSimulatedBridge({ failOn: [1] });
+    const controller = new CoreHeightController(composeBridge(
+      base,
+      dedupeHeights(),
+      next => withRetry(next, { baseDelayMs: 0, jitter: 0 })
+    ));
+
+    await expect(controller.adjustHeight({ targetHeight: 400 })).resolves.toMatchObject({ status: 'completed' });
+    expect(base.calls.map(call => call.status)).toEqual(['rejected', 'resolved']);
+    controller.dispose();
+  });
+});
+
+describe('composeBridge with a FrameBridge', () => {
+  test('should pass width and mode through every middleware', async () => {
+    const log: string[] = [];
+    const base: FrameBridge = {
+      updateHeight: async height => { log.push(`height:${height}`); return height; },
+      updateWidth: async width => { log.push(`width:${width}`); return width; },
+      updateMode: async (mode: FrameMode) => { log.push(`mode:${mode}`); return mode; },
+      getCapabilities: () => ({ dynamicHeight: true, resizableWidth: true, modes: ['inline', 'wide'] })
+    };
+    const onlyHeight: BridgeMiddleware = next => ({ updateHeight: height => next.updateHeight(height) });
+
+    const bridge = composeBridge(base, logBridgeCalls(new MemoryLogger()), dedupeHeights(), clampHeights(), onlyHeight);
+    const frame = new CoreFrameController(bridge, { initialWidth: 600, initialMode: 'inline' });
+
+    const result = await frame.adjustFrame({ width: 900, mode: 'wide', height: 500 });
+
+    expect(result.applied).toEqual(['width', 'mode', 'height']);
+    expect(log).toEqual(['width:900', 'mode:wide', 'height:500']);
+    frame.dispose();
+  });
+});
+
+describe('throttleUpdates', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('should space calls by the interval', async () => {
+    const base = createSimulatedBridge();
+    const bridge = composeBridge(base, throttleUpdates({ intervalMs: 100 }));
+
+    void bridge.updateHeight(100);
+    void bridge.updateHeight(200);
+    void bridge.updateHeight(300);
+    await jest.advanceTimersByTimeAsync(0);
+    expect(base.appliedHeights).toEqual([100]);
+
+    await jest.advanceTimersByTimeAsync(100);
+    expect(base.appliedHeights).toEqual([100, 200]);
+
+    await jest.advanceTimersByTimeAsync(100);
+    expect(base.appliedHeights).toEqual([100, 200, 300]);
+  });
+
+  test('should default to the preferred update interval and survive failures', async () => {
+    const base = createSimulatedBridge({ failOn: [1], capabilities: { preferredUpdateIntervalMs: 50 } });
+    const bridge = composeBridge(base, throttleUpdates());
+
+    const first = bridge.updateHeight(100);
+    const failed = expect(first).rejects.toThrow('Simulated failure');
+    const second = bridge.updateHeight(200);
+    await failed;
+
+    await jest.advanceTimersByTimeAsync(49);
+    expect(base.calls).toHaveLength(1);
+    await jest.advanceTimersByTimeAsync(1);
+    await expect(second).resolves.toBe(200);
+  });
+
+  test('should reject negative intervals', () => {
+    expect(() => throttleUpdates({ intervalMs: -1 })).toThrow(HeightControllerError);
+  });
+});
+
+describe('dedupeHeights', () => {
+  test('should skip heights equal to the last applied one', async () => {
+    const base = createSimulatedBridge({ maxHeight: 500 });
+    const bridge = composeBridge(base, dedupeHeights());
+
+    await bridge.updateHeight(300);
+    await bridge.updateHeight(300);
+    await expect(bridge.updateHeight(800)).resolves.toBe(500);
+    await expect(bridge.updateHeight(500)).resolves.toBe(500);
+
+    expect(base.calls.map(call => call.targetHeight)).toEqual([300, 800]);
+  });
+
+  test('should call again after a failure', async () => {
+    const base = createSimulatedBridge({ failOn: [2] });
+    const bridge = composeBridge(base, dedupeHeights());
+
+    await bridge.updateHeight(300);
+    await expect(bridge.updateHeight(400)).rejects.toThrow();
+    await bridge.updateHeight(300);
+
+    expect(base.calls).toHaveLength(3);
+  });
+});
+
+describe('clampHeights', () => {
+  test('should clamp to the reported limits', async () => {
+    const base = createSimulatedBridge({ capabilities: { minHeight: 100, maxHeight: 600 } });
+    const bridge = composeBridge(base, clampHeights());
+
+    await bridge.updateHeight(20);
+    await bridge.updateHeight(900);
+
+    expect(base.calls.map(call => call.targetHeight)).toEqual([100, 600]);
+  });
+
+  test('should prefer explicit bounds and report them', async () => {
+    const base = createSimulatedBridge({ capabilities: { maxHeight: 600 } });
+    const bridge = composeBridge(base, clampHeights({ maxHeight: 400 }));
+
+    await expect(bridge.updateHeight(500)).resolves.toBe(400);
+    await expect(bridge.getCapabilities?.()).resolves.toMatchObject({ maxHeight: 400 });
+
+    const bare = composeBridge({ updateHeight: async height => height }, clampHeights({ minHeight: 50 }));
+    await expect(bare.getCapabilities?.()).resolves.toEqual({ dynamicHeight: true, resizableWidth: false, minHeight: 50 });
+    expect(composeBridge({ updateHeight: async height => height }, clampHeights()).getCapabilities).toBeUndefined();
+  });
+
+  test('should reject inverted bounds', () => {
+    expect(() => clampHeights({ minHeight: 500, maxHeight: 100 })).toThrow('Invalid clamp bounds');
+  });
+});
+
+describe('roundToDevicePixels', () => {
+  test('should round to the device pixel grid', async () => {
+    const base = createSimulatedBridge();
+
+    await composeBridge(base, roundToDevicePixels({ devicePixelRatio: 2 })).updateHeight(100.3);
+    await composeBridge(base, roundToDevicePixels()).updateHeight(100.6);
+
+    expect(base.calls.map(call => call.targetHeight)).toEqual([100.5, 101]);
+    expect(() => roundToDevicePixels({ devicePixelRatio: 0 })).toThrow(HeightControllerError);
+  });
+});
+
+describe('logBridgeCalls', () => {
+  test('should log calls, results and errors with structured fields', async () => {
+    const logger = new MemoryLogger();
+    const base = createSimulatedBridge({ failOn: [2] });
+    const bridge = composeBridge(base, logBridgeCalls(logger, { bridge: 'feishu' }));
+
+    await bridge.updateHeight(300);
+    await expect(bridge.updateHeight(400)).rejects.toThrow();
+
+    expect(logger.entries.map(entry => entry.level)).toEqual(['debug', 'debug', 'debug', 'error']);
+    expect(logger.find('applied 300px')?.fields).toMatchObject({ bridge: 'feishu', call: 1, appliedHeight: 300 });
+    expect(logger.byLevel('error')[0]?.fields).toMatchObject({ call: 2, toHeight: 400, error: expect.any(Error) });
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * @bagaking/dma-frame - Typed Event Emitter Tests
+ */
+
+import { TypedEventEmitter } from '../src/EventEmitter.js';
+
+interface TestEvents {
+  resize: { height: number };
+  reset: undefined;
+}
+
+describe('TypedEventEmitter', () => {
+  test('should deliver payloads to registered handlers', () => {
+    const emitter = new TypedEventEmitter<TestEvents>();
+    const heights: number[] = [];
+
+    emitter.on('resize', ({ height }) => { heights.push(height); });
+    emitter.emit('resize', { height: 300 });
+    emitter.emit('resize', { height: 400 });
+
+    expect(heights).toEqual([300, 400]);
+  });
+
+  test('should remove handlers via the returned function', () => {
+    const emitter = new TypedEventEmitter<TestEvents>();
+    const handler = jest.fn();
+
+    const off = emitter.on('resize', handler);
+    off();
+    emitter.emit('resize', { height: 300 });
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(emitter.listenerCount('resize')).toBe(0);
+  });
+
+  test('should run once handlers a single time', () => {
+    const emitter = new TypedEventEmitter<TestEvents>();
+    const handler = jest.fn();
+
+    emitter.once('reset', handler);
+    emitter.emit('reset', undefined);
+    emitter.emit('reset', undefined);
+
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  test('should isolate handler errors', () => {
+    const onHandlerError = jest.fn();
+    const emitter = new TypedEventEmitter<TestEvents>(onHandlerError);
+    const second = jest.fn();
+
+    emitter.on('resize', () => { throw new Error('listener broke'); });
+    emitter.on('resize', second);
+    emitter.emit('resize', { height: 300 });
+
+    expect(second).toHaveBeenCalled();
+    expect(onHandlerError).toHaveBeenCalledWith(expect.any(Error), 'resize');
+  });
+
+  test('should clear every handler', () => {
+    const emitter = new TypedEventEmitter<TestEvents>();
+    const handler = jest.fn();
+
+    emitter.on('resize', handler);
+    emitter.clear();
+    emitter.emit('resize', { height: 300 });
+
+    expect(handler).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,359 @@
+/**
+ * @bagaking/dma-frame - Frame Controller Tests
+ * 宽度、高度与布局模式的按轴时序
+ */
+
+import { CoreFrameController } from '../src/FrameController.js';
+import {
+  AdjustmentCancelledError,
+  HeightControllerError,
+  PlatformBridgeError,
+  type BridgeCapabilities,
+  type FrameBridge,
+  type FrameMode
+} from '../src/types.js';
+
+// 记录调用顺序的帧桥接器
+class MockFrameBridge implements FrameBridge {
+  public log: string[] = [];
+  public failWidth = false;
+  public capabilities: BridgeCapabilities = {
+    dynamicHeight: true,
+    resizableWidth: true,
+    modes: ['inline', 'wide', 'full-width']
+  };
+
+  async updateHeight(targetHeight: number): Promise<number> {
+    this.log.push(`height:${targetHeight}`);
+    return targetHeight;
+  }
+
+  async updateWidth(targetWidth: number): Promise<number> {
+    this.log.push(`width:${targetWidth}`);
+    if (this.failWidth) {
+      throw new Error('width locked');
+    }
+    return targetWidth;
+  }
+
+  async updateMode(mode: FrameMode): Promise<FrameMode> {
+    this.log.push(`mode:${mode}`);
+    return mode;
+  }
+
+  getCapabilities(): BridgeCapabilities {
+    return this.capabilities;
+  }
+}
+
+describe('CoreFrameController', () => {
+  let bridge: MockFrameBridge;
+  let controller: CoreFrameController;
+
+  beforeEach(() => {
+    bridge = new MockFrameBridge();
+    controller = new CoreFrameController(bridge, { initialWidth: 600, initialMode: 'inline' });
+  });
+
+  afterEach(() => {
+    controller.dispose();
+  });
+
+  const ui = (log: string[]) => ({
+    onUIChange: () => { log.push('ui-change'); },
+    onUIComplete: () => { log.push('ui-complete'); }
+  });
+
+  describe('Per-axis Ordering', () => {
+    test('should apply growing axes before the UI changes', async () => {
+      await controller.adjustFrame({ width: 900, height: 500, mode: 'wide', ...ui(bridge.log) });
+
+      expect(bridge.log).toEqual(['width:900', 'mode:wide', 'height:500', 'ui-change', 'ui-complete']);
+      expect(controller.getFrameSize()).toEqual({ width: 900, height: 500, mode: 'wide' });
+    });
+
+    test('should apply shrinking axes after the UI completes', async () => {
+      await controller.adjustFrame({ width: 900, height: 800, mode: 'full-width' });
+      bridge.log = [];
+
+      await controller.adjustFrame({ width: 400, height: 300, mode: 'inline', ...ui(bridge.log) });
+
+      expect(bridge.log).toEqual(['ui-change', 'ui-complete', 'height:300', 'width:400', 'mode:inline']);
+    });
+
+    test('should order mixed directions independently per axis', async () => {
+      await controller.adjustFrame({ height: 800 });
+      bridge.log = [];
+
+      // 宽度变大、高度变小
+      await controller.adjustFrame({ width: 1000, height: 400, ...ui(bridge.log) });
+
+      expect(bridge.log).toEqual(['width:1000', 'ui-change', 'ui-complete', 'height:400']);
+    });
+
+    test('should not re-apply unchanged axes', async () => {
+      const result = await controller.adjustFrame({ width: 600, mode: 'inline', ...ui(bridge.log) });
+
+      expect(bridge.log).toEqual(['ui-change', 'ui-complete']);
+      expect(result.applied).toEqual([]);
+      expect(result.status).toBe('completed');
+    });
+  });
+
+  describe('Capabilities', () => {
+    test('should skip axes the bridge does not declare', async () => {
+      bridge.capabilities = { dynamicHeight: true, resizableWidth: false, modes: ['inline', 'wide'] };
+
+      const result = await controller.adjustFrame({ width: 900, mode: 'full-width', height: 500 });
+
+      expect(bridge.log).toEqual(['height:500']);
+      expect(result.applied).toEqual(['height']);
+      expect(result.skipped).toEqual(['width', 'mode']);
+      expect(controller.getFrameSize()).toEqual({ width: 600, height: 500, mode: 'inline' });
+    });
+  });
+
+  describe('Failures', () => {
+    test('should keep going under keep-ui', async () => {
+      bridge.failWidth = true;
+
+      const result = await controller.adjustFrame({ width: 900, height: 500, ...ui(bridge.log) });
+
+      expect(result.status).toBe('failed');
+      expect(result.error).toBeInstanceOf(PlatformBridgeError);
+      expect(bridge.log).toEqual(['width:900', 'height:500', 'ui-change', 'ui-complete']);
+    });
+
+    test('should restore applied axes and stop under rollback', async () => {
+      const onRollback = jest.fn();
+      bridge.updateMode = async mode => {
+        bridge.log.push(`mode:${mode}`);
+        if (mode === 'wide') {
+          throw new Error('mode locked');
+        }
+        return mode;
+      };
+
+      const result = await controller.adjustFrame(
+        { width: 900, mode: 'wide', height: 500, onRollback },
+        { failurePolicy: 'rollback' }
+      );
+
+      expect(result.status).toBe('rolled-back');
+      expect(bridge.log).toEqual(['width:900', 'mode:wide', 'width:600']);
+      expect(controller.getFrameSize()).toEqual({ width: 600, mode: 'inline' });
+      // UI 尚未变化，不需要回滚界面
+      expect(onRollback).not.toHaveBeenCalled();
+    });
+
+    test('should retry and time out width and mode calls like height calls', async () => {
+      let widthFailures = 1;
+      bridge.updateWidth = async width => {
+        bridge.log.push(`width:${width}`);
+        if (widthFailures-- > 0) {
+          throw new PlatformBridgeError('width busy', 'test');
+        }
+        return width;
+      };
+      const retrying = new CoreFrameController(bridge, { retry: { maxAttempts: 2, baseDelayMs: 0 } });
+
+      await expect(retrying.adjustFrame({ width: 900 })).resolves.toMatchObject({ status: 'completed', applied: ['width'] });
+      expect(bridge.log).toEqual(['width:900', 'width:900']);
+      retrying.dispose();
+
+      bridge.updateMode = () => new Promise<FrameMode>(() => {});
+      const guarded = new CoreFrameController(bridge, { bridgeTimeoutMs: 20 });
+
+      const result = await guarded.adjustFrame({ mode: 'wide' });
+      expect(result).toMatchObject({ status: 'failed', error: expect.objectContaining({ code: 'TIMEOUT' }) });
+      guarded.dispose();
+    });
+
+    test('should reject under throw', async () => {
+      bridge.failWidth = true;
+
+      await expect(controller.adjustFrame({ width: 900 }, { failurePolicy: 'throw' }))
+        .rejects.toBeInstanceOf(PlatformBridgeError);
+    });
+  });
+
+  describe('Height API', () => {
+    test('should keep adjustHeight as a height-only frame adjustment', async () => {
+      const result = await controller.adjustHeight({ targetHeight: 420 });
+
+      expect(result).toMatchObject({ status: 'completed', toHeight: 420, applied: true });
+      expect(controller.getCurrentHeight()).toBe(420);
+      expect(bridge.log).toEqual(['height:420']);
+    });
+
+    test('should serialize height and frame adjustments in call order', async () => {
+      await Promise.all([
+        controller.adjustFrame({ width: 900 }),
+        controller.adjustHeight({ targetHeight: 300 }),
+        controller.adjustFrame({ mode: 'wide', height: 500 })
+      ]);
+
+      expect(bridge.log).toEqual(['width:900', 'height:300', 'mode:wide', 'height:500']);
+    });
+
+    test('should validate behaviors', async () => {
+      await expect(controller.adjustFrame({})).rejects.toThrow(HeightControllerError);
+      await expect(controller.adjustFrame({ width: -1 })).rejects.toThrow('Invalid width');
+      await expect(controller.adjustFrame({ mode: 'huge' as FrameMode })).rejects.toThrow('Invalid mode');
+      await expect(controller.adjustFrame({ mode: 'toString' as FrameMode })).rejects.toThrow('Invalid mode');
+      await expect(controller.adjustHeight({ targetHeight: 0 })).rejects.toThrow('Must be at least 1px');
+      await expect(controller.adjustFrame({ width: 700, priority: 'urgent' as never })).rejects.toThrow('Invalid priority');
+    });
+
+    test('should run queued adjustments by priority', async () => {
+      await Promise.all([
+        controller.adjustHeight({ targetHeight: 300 }),
+        controller.adjustHeight({ targetHeight: 400, priority: 'background' }),
+        controller.adjustHeight({ targetHeight: 500, priority: 'user-blocking' })
+      ]);
+
+      expect(bridge.log).toEqual(['height:300', 'height:500', 'height:400']);
+    });
+
+    test('should mark adjustments overtaken by higher priorities', async () => {
+      const reordered = jest.fn();
+      controller.on('reordered', reordered);
+
+      const results = await Promise.all([
+        controller.adjustHeight({ targetHeight: 300 }),
+        controller.adjustHeight({ targetHeight: 400, priority: 'background' }),
+        controller.adjustHeight({ targetHeight: 500, priority: 'user-blocking' })
+      ]);
+
+      expect(results[1]).toMatchObject({ status: 'completed', overtakenBy: 1 });
+      expect(results[2]).not.toHaveProperty('overtakenBy');
+      expect(reordered).toHaveBeenCalledWith({
+        targetHeight: 400,
+        priority: 'background',
+        overtakenBy: { targetHeight: 500, priority: 'user-blocking' }
+      });
+    });
+
+    test('should supersede lower priorities with supersedeLowerPriority', async () => {
+      const results = await Promise.all([
+        controller.adjustHeight({ targetHeight: 300 }),
+        controller.adjustHeight({ targetHeight: 400, priority: 'background' }),
+        controller.adjustHeight({ targetHeight: 500, priority: 'user-blocking' }, { supersedeLowerPriority: true })
+      ]);
+
+      expect(results.map(result => result.status)).toEqual(['completed', 'superseded', 'completed']);
+      expect(bridge.log).toEqual(['height:300', 'height:500']);
+    });
+
+    test('should forward the timing strategy to the height axis', async () => {
+      const result = await controller.adjustHeight({ targetHeight: 420, timing: 'ui-only', ...ui(bridge.log) });
+
+      expect(result).toMatchObject({ status: 'completed', toHeight: 420 });
+      expect(bridge.log).toEqual(['ui-change', 'ui-complete']);
+    });
+
+    test('should forward onHeightClamped when the platform clamps the height', async () => {
+      bridge.capabilities = { ...bridge.capabilities, maxHeight: 600 };
+      const onHeightClamped = jest.fn();
+
+      await controller.adjustHeight({ targetHeight: 800, onHeightClamped });
+
+      expect(onHeightClamped).toHaveBeenCalledWith(600, 800);
+      expect(controller.getCurrentHeight()).toBe(600);
+    });
+  });
+
+  describe('Queue Policies', () => {
+    test('should supersede pending adjustments under latest-wins', async () => {
+      const latestWins = new CoreFrameController(bridge, { queuePolicy: 'latest-wins' });
+      const superseded = jest.fn();
+      latestWins.on('superseded', superseded);
+
+      const results = await Promise.all([300, 400, 500, 600].map(targetHeight =>
+        latestWins.adjustHeight({ targetHeight })));
+
+      expect(results.map(result => result.status)).toEqual(['completed', 'superseded', 'superseded', 'completed']);
+      expect(results[1]).toMatchObject({ toHeight: 400, applied: false });
+      expect(bridge.log).toEqual(['height:300', 'height:600']);
+      expect(superseded).toHaveBeenCalledTimes(2);
+      latestWins.dispose();
+    });
+
+    test('should only supersede adjustments whose axes the later one covers', async () => {
+      const latestWins = new CoreFrameController(bridge, { initialWidth: 600, queuePolicy: 'latest-wins' });
+
+      const results = await Promise.all([
+        latestWins.adjustHeight({ targetHeight: 300 }),
+        latestWins.adjustFrame({ width: 900 }),
+        latestWins.adjustHeight({ targetHeight: 500 })
+      ]);
+
+      expect(results.map(result => result.status)).toEqual(['completed', 'completed', 'completed']);
+      expect(bridge.log).toEqual(['height:300', 'width:900', 'height:500']);
+      latestWins.dispose();
+    });
+
+    test('should collapse bursts within the window with coalesce-by-window', async () => {
+      const coalescing = new CoreFrameController(bridge, { queuePolicy: 'coalesce-by-window', coalesceWindowMs: 20 });
+
+      const results = await Promise.all([300, 400, 500].map(targetHeight =>
+        coalescing.adjustHeight({ targetHeight })));
+
+      expect(results.map(result => result.status)).toEqual(['superseded', 'superseded', 'completed']);
+      expect(bridge.log).toEqual(['height:500']);
+      expect(coalescing.getPendingCount()).toBe(0);
+      coalescing.dispose();
+    });
+  });
+
+  describe('Subscriptions and Disposal', () => {
+    test('should notify frame listeners on every axis change', async () => {
+      const sizes: unknown[] = [];
+      controller.subscribeFrame(size => sizes.push(size));
+
+      await controller.adjustFrame({ width: 700, height: 300 });
+
+      expect(sizes).toEqual([
+        { width: 700, mode: 'inline' },
+        { width: 700, height: 300, mode: 'inline' }
+      ]);
+    });
+
+    test('should track pending frame adjustments', async () => {
+      const counts: number[] = [];
+      controller.on('pending-changed', ({ pendingCount }) => counts.push(pendingCount));
+
+      await Promise.all([controller.adjustFrame({ width: 700 }), controller.adjustFrame({ width: 800 })]);
+
+      expect(counts).toEqual([1, 2, 1, 0]);
+    });
+
+    test('should remove an aborted queued adjustment right away', async () => {
+      let release!: () => void;
+      const blocked = new Promise<void>(resolve => { release = resolve; });
+      const counts: number[] = [];
+      const running = controller.adjustFrame({ width: 700, onUIChange: () => blocked });
+      const abort = new AbortController();
+      const queued = controller.adjustFrame({ width: 800 }, { signal: abort.signal });
+      controller.on('pending-changed', ({ pendingCount }) => counts.push(pendingCount));
+
+      abort.abort();
+
+      await expect(queued).rejects.toMatchObject({ reason: 'aborted' });
+      expect(counts).toEqual([1]);
+      release();
+      await running;
+      expect(bridge.log).toEqual(['width:700']);
+    });
+
+    test('should cancel outstanding adjustments on dispose', async () => {
+      const first = controller.adjustFrame({ width: 700 });
+      const second = controller.adjustFrame({ width: 800 });
+
+      controller.dispose();
+
+      await expect(first).rejects.toBeInstanceOf(AdjustmentCancelledError);
+      await expect(second).rejects.toMatchObject({ reason: 'disposed' });
+    });
+  });
+});
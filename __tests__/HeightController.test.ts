@@ -4,8 +4,15 @@
  */
 
 import { CoreHeightController } from '../src/HeightController.js';
-import { HeightControllerError } from '../src/types.js';
-import { PlatformBridge, HeightAdjustmentBehavior } from '../src/types.js';
+import { MemoryLogger } from '../src/Logger.js';
+import {
+  AdjustmentCancelledError,
+  HeightControllerError,
+  PlatformBridgeError,
+  TimeoutError,
+  UICallbackError
+} from '../src/types.js';
+import { BridgeCapabilities, PlatformBridge, HeightAdjustmentBehavior } from '../src/types.js';
 
 // Mock platform bridge for testing
 class MockPlatformBridge implements PlatformBridge {
@@ -204,6 +211,221 @@ describe('CoreHeightController', () => {
     });
   });
 
+  describe('Per-call Completion', () => {
+    test('should resolve each call only after its own behavior finished', async () => {
+      mockBridge.delay = 20;
+      const completed: number[] = [];
+
+      const first = controller.adjustHeight({
+        targetHeight: 400,
+        onUIComplete: async () => { completed.push(400); }
+      });
+      const second = controller.adjustHeight({
+        targetHeight: 600,
+        onUIComplete: async () => { completed.push(600); }
+      });
+
+      await second;
+      expect(completed).toEqual([400, 600]);
+      expect(controller.getCurrentHeight()).toBe(600);
+      await first;
+    });
+
+    test('should resolve with an adjustment result', async () => {
+      await controller.adjustHeight({ targetHeight: 300 });
+      const result = await controller.adjustHeight({ targetHeight: 500 });
+
+      expect(result).toEqual({
+        status: 'completed',
+        fromHeight: 300,
+        toHeight: 500,
+        duration: expect.any(Number),
+        applied: true
+      });
+    });
+
+    test('should report bridge failures in the result', async () => {
+      mockBridge.shouldFail = true;
+
+      const result = await controller.adjustHeight({ targetHeight: 500 });
+
+      expect(result.status).toBe('failed');
+      expect(result.applied).toBe(false);
+      expect(result.error).toBeInstanceOf(PlatformBridgeError);
+      expect((result.error as Error).message).toContain('Mock bridge failure');
+    });
+
+    test('should mark bridge as applied when a later UI callback fails', async () => {
+      const result = await controller.adjustHeight({
+        targetHeight: 500,
+        onUIComplete: async () => { throw new Error('Callback failed'); }
+      });
+
+      expect(result.applied).toBe(true);
+      expect(result.error).toBeInstanceOf(UICallbackError);
+      expect((result.error as Error).message).toContain('Callback failed');
+    });
+  });
+
+  describe('Queue Policies', () => {
+    test('should run every behavior with the default serial policy', async () => {
+      mockBridge.delay = 10;
+
+      const results = await Promise.all([300, 400, 500].map(targetHeight =>
+        controller.adjustHeight({ targetHeight })
+      ));
+
+      expect(results.map(result => result.status)).toEqual(['completed', 'completed', 'completed']);
+      expect(mockBridge.calls.map(call => call.args[0])).toEqual([300, 400, 500]);
+    });
+
+    test('should drop superseded pending behaviors with latest-wins', async () => {
+      const latestWins = new CoreHeightController(mockBridge, { queuePolicy: 'latest-wins' });
+      mockBridge.delay = 10;
+      const uiChanges: number[] = [];
+
+      const results = await Promise.all([300, 400, 500, 600].map(targetHeight =>
+        latestWins.adjustHeight({
+          targetHeight,
+          onUIChange: () => { uiChanges.push(targetHeight); }
+        })
+      ));
+
+      // 第一个已开始执行，中间两个被最新的取代
+      expect(results.map(result => result.status))
+        .toEqual(['completed', 'superseded', 'superseded', 'completed']);
+      expect(results[1]).toMatchObject({ toHeight: 400, applied: false });
+      expect(mockBridge.calls.map(call => call.args[0])).toEqual([300, 600]);
+      expect(uiChanges).toEqual([300, 600]);
+      expect(latestWins.getCurrentHeight()).toBe(600);
+
+      latestWins.dispose();
+    });
+
+    test('should collapse bursts within the window with coalesce-by-window', async () => {
+      const coalescing = new CoreHeightController(mockBridge, {
+        queuePolicy: 'coalesce-by-window',
+        coalesceWindowMs: 20
+      });
+
+      const results = await Promise.all([300, 400, 500].map(targetHeight =>
+        coalescing.adjustHeight({ targetHeight })
+      ));
+
+      expect(results.map(result => result.status))
+        .toEqual(['superseded', 'superseded', 'completed']);
+      expect(mockBridge.calls.map(call => call.args[0])).toEqual([500]);
+
+      coalescing.dispose();
+    });
+
+    test('should not let a lease supersede content queued in the same window', async () => {
+      const coalescing = new CoreHeightController(mockBridge, {
+        queuePolicy: 'coalesce-by-window',
+        coalesceWindowMs: 20
+      });
+      await coalescing.adjustHeight({ targetHeight: 300 });
+
+      const content = coalescing.adjustHeight({ targetHeight: 500, priority: 'user-blocking' });
+      const lease = coalescing.lease({ extraPx: 100 });
+
+      await expect(content).resolves.toMatchObject({ status: 'completed', toHeight: 600 });
+      await lease.acquired;
+      await lease.release();
+      expect(coalescing.getCurrentHeight()).toBe(500);
+
+      coalescing.dispose();
+    });
+
+    test('should accept the legacy boolean debug argument', () => {
+      const consoleSpy = jest.spyOn(console, 'log').mockImplementation();
+
+      const legacy = new CoreHeightController(mockBridge, true);
+      legacy.dispose();
+
+      expect(consoleSpy).toHaveBeenCalled();
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('AbortSignal Cancellation', () => {
+    test('should reject immediately when the signal is already aborted', async () => {
+      const abortController = new AbortController();
+      abortController.abort();
+
+      await expect(controller.adjustHeight({ targetHeight: 400 }, { signal: abortController.signal }))
+        .rejects.toMatchObject({ reason: 'aborted' });
+      expect(mockBridge.calls).toHaveLength(0);
+    });
+
+    test('should remove a queued behavior when aborted', async () => {
+      mockBridge.delay = 20;
+      const abortController = new AbortController();
+      const uiChanges: number[] = [];
+
+      const first = controller.adjustHeight({ targetHeight: 400 });
+      const aborted = controller.adjustHeight(
+        { targetHeight: 600, onUIChange: () => { uiChanges.push(600); } },
+        { signal: abortController.signal }
+      );
+      const third = controller.adjustHeight({ targetHeight: 500 });
+
+      abortController.abort();
+
+      await expect(aborted).rejects.toThrow(AdjustmentCancelledError);
+      await Promise.all([first, third]);
+      expect(mockBridge.calls.map(call => call.args[0])).toEqual([400, 500]);
+      expect(uiChanges).toEqual([]);
+    });
+
+    test('should stop an in-flight behavior between phases', async () => {
+      mockBridge.delay = 20;
+      const abortController = new AbortController();
+      const phases: string[] = [];
+
+      const adjustment = controller.adjustHeight({
+        targetHeight: 600,
+        onUIChange: () => { phases.push('onUIChange'); },
+        onUIComplete: () => { phases.push('onUIComplete'); }
+      }, { signal: abortController.signal });
+
+      // 扩展时 bridge 先执行，此时中止
+      abortController.abort();
+
+      await expect(adjustment).rejects.toMatchObject({ reason: 'aborted' });
+      expect(mockBridge.calls).toHaveLength(1);
+      expect(phases).toEqual([]);
+      // bridge 已经生效，当前高度如实记录
+      expect(controller.getCurrentHeight()).toBe(600);
+    });
+
+    test('should keep processing the queue after an in-flight abort', async () => {
+      const abortController = new AbortController();
+
+      const aborted = controller.adjustHeight({
+        targetHeight: 400,
+        onUIChange: () => { abortController.abort(); },
+        onUIComplete: () => { throw new Error('should not run'); }
+      }, { signal: abortController.signal });
+      const next = controller.adjustHeight({ targetHeight: 700 });
+
+      await expect(aborted).rejects.toThrow(AdjustmentCancelledError);
+      await expect(next).resolves.toMatchObject({ status: 'completed', toHeight: 700 });
+    });
+
+    test('should ignore aborts after completion', async () => {
+      const abortController = new AbortController();
+
+      const result = await controller.adjustHeight(
+        { targetHeight: 400 },
+        { signal: abortController.signal }
+      );
+      abortController.abort();
+
+      expect(result.status).toBe('completed');
+    });
+  });
+
   describe('Error Handling and Resilience', () => {
     test('should handle bridge failures gracefully', async () => {
       mockBridge.shouldFail = true;
@@ -234,6 +456,26 @@ describe('CoreHeightController', () => {
       expect(controller.getCurrentHeight()).toBe(600);
     });
 
+    test('should not invoke a throwing onUIChange twice', async () => {
+      await controller.adjustHeight({ targetHeight: 800 });
+
+      const onUIChange = jest.fn(() => { throw new Error('UI broke'); });
+      const result = await controller.adjustHeight({ targetHeight: 400, onUIChange });
+
+      expect(onUIChange).toHaveBeenCalledTimes(1);
+      expect(result.error).toMatchObject({ code: 'UI_CALLBACK_ERROR', phase: 'ui-change' });
+    });
+
+    test('should not repeat onUIChange when the bridge fails after a shrink', async () => {
+      await controller.adjustHeight({ targetHeight: 800 });
+      mockBridge.shouldFail = true;
+
+      const onUIChange = jest.fn();
+      await controller.adjustHeight({ targetHeight: 400, onUIChange });
+
+      expect(onUIChange).toHaveBeenCalledTimes(1);
+    });
+
     test('should handle async callback errors gracefully', async () => {
       await expect(controller.adjustHeight({
         targetHeight: 500,
@@ -246,6 +488,914 @@ describe('CoreHeightController', () => {
     });
   });
 
+  describe('Failure Policies', () => {
+    test('should roll back the bridge and UI with the rollback policy', async () => {
+      const rollbackController = new CoreHeightController(mockBridge, { failurePolicy: 'rollback' });
+      await rollbackController.adjustHeight({ targetHeight: 300 });
+      mockBridge.reset();
+
+      const onRollback = jest.fn();
+      const result = await rollbackController.adjustHeight({
+        targetHeight: 600,
+        onUIChange: () => {},
+        onUIComplete: async () => { throw new Error('Animation failed'); },
+        onRollback
+      });
+
+      expect(result.status).toBe('rolled-back');
+      expect(mockBridge.calls.map(call => call.args[0])).toEqual([600, 300]);
+      expect(onRollback).toHaveBeenCalledWith(300);
+      expect(rollbackController.getCurrentHeight()).toBe(300);
+
+      rollbackController.dispose();
+    });
+
+    test('should not call onRollback when the UI never changed', async () => {
+      mockBridge.shouldFail = true;
+      const onRollback = jest.fn();
+
+      const result = await controller.adjustHeight(
+        { targetHeight: 600, onRollback },
+        { failurePolicy: 'rollback' }
+      );
+
+      expect(result.status).toBe('rolled-back');
+      expect(onRollback).not.toHaveBeenCalled();
+      expect(controller.getCurrentHeight()).toBe(0);
+    });
+
+    test('should reject the caller with the throw policy', async () => {
+      mockBridge.shouldFail = true;
+      const onUIChange = jest.fn();
+
+      await expect(controller.adjustHeight(
+        { targetHeight: 600, onUIChange },
+        { failurePolicy: 'throw' }
+      )).rejects.toThrow(PlatformBridgeError);
+
+      expect(onUIChange).not.toHaveBeenCalled();
+      expect(controller.getCurrentHeight()).toBe(0);
+    });
+
+    test('should keep processing after a thrown failure', async () => {
+      mockBridge.shouldFail = true;
+      const failing = controller.adjustHeight({ targetHeight: 600 }, { failurePolicy: 'throw' });
+      const next = controller.adjustHeight({ targetHeight: 400 });
+
+      await expect(failing).rejects.toThrow(PlatformBridgeError);
+      // 后续调用使用默认的 keep-ui 策略
+      await expect(next).resolves.toMatchObject({ status: 'failed', toHeight: 400 });
+    });
+
+    test('should report bridge and callback errors to onError separately', async () => {
+      const onError = jest.fn();
+      const reporting = new CoreHeightController(mockBridge, { onError });
+
+      mockBridge.shouldFail = true;
+      await reporting.adjustHeight({ targetHeight: 500 });
+      mockBridge.shouldFail = false;
+      await reporting.adjustHeight({
+        targetHeight: 700,
+        onUIComplete: () => { throw new Error('boom'); }
+      });
+
+      expect(onError).toHaveBeenCalledTimes(2);
+      expect(onError.mock.calls[0]![0]).toBeInstanceOf(PlatformBridgeError);
+      expect(onError.mock.calls[0]![1]).toEqual({
+        phase: 'bridge',
+        fromHeight: 0,
+        toHeight: 500,
+        policy: 'keep-ui'
+      });
+      expect(onError.mock.calls[1]![0]).toBeInstanceOf(UICallbackError);
+      expect(onError.mock.calls[1]![1]).toMatchObject({ phase: 'ui-complete' });
+
+      reporting.dispose();
+    });
+
+    test('should reject invalid onRollback types', async () => {
+      await expect(controller.adjustHeight({
+        targetHeight: 400,
+        onRollback: 'invalid' as any
+      })).rejects.toThrow('Invalid onRollback');
+    });
+  });
+
+  describe('Retry and Timeouts', () => {
+    test('should retry failed bridge calls when retry is configured', async () => {
+      let failures = 1;
+      const flakyBridge: PlatformBridge = {
+        async updateHeight(targetHeight: number): Promise<number> {
+          if (failures-- > 0) {
+            throw new PlatformBridgeError('Temporary failure', 'test');
+          }
+          return targetHeight;
+        }
+      };
+      const retrying = new CoreHeightController(flakyBridge, {
+        retry: { maxAttempts: 2, baseDelayMs: 1 }
+      });
+
+      const result = await retrying.adjustHeight({ targetHeight: 500 });
+
+      expect(result).toMatchObject({ status: 'completed', applied: true });
+      retrying.dispose();
+    });
+
+    test('should fail a hanging bridge call after bridgeTimeoutMs', async () => {
+      const hangingBridge: PlatformBridge = {
+        updateHeight: () => new Promise<number>(() => {})
+      };
+      const guarded = new CoreHeightController(hangingBridge, { bridgeTimeoutMs: 20 });
+
+      const result = await guarded.adjustHeight({ targetHeight: 500 });
+
+      expect(result.status).toBe('failed');
+      expect(result.error).toBeInstanceOf(TimeoutError);
+      guarded.dispose();
+    });
+
+    test('should apply bridgeTimeoutMs to the rollback bridge call', async () => {
+      let calls = 0;
+      const stuckRollback: PlatformBridge = {
+        updateHeight: height => ++calls <= 2 ? Promise.resolve(height) : new Promise<number>(() => {})
+      };
+      const onError = jest.fn();
+      const guarded = new CoreHeightController(stuckRollback, { bridgeTimeoutMs: 50, failurePolicy: 'rollback', onError });
+      await guarded.adjustHeight({ targetHeight: 300 });
+
+      const failed = guarded.adjustHeight({
+        targetHeight: 500,
+        onUIChange: () => { throw new Error('render failed'); }
+      });
+      const next = guarded.adjustHeight({ targetHeight: 700 });
+
+      await expect(failed).resolves.toMatchObject({ status: 'failed', applied: true });
+      expect(onError).toHaveBeenCalledWith(expect.any(TimeoutError), expect.objectContaining({ phase: 'rollback' }));
+      // 回滚调用超时后队列继续执行
+      await expect(next).resolves.toMatchObject({ error: expect.any(TimeoutError) });
+      guarded.dispose();
+    });
+
+    test('should not let a stuck onUIComplete freeze the queue', async () => {
+      const guarded = new CoreHeightController(mockBridge, { uiCompleteTimeoutMs: 20 });
+
+      const stuck = guarded.adjustHeight({
+        targetHeight: 500,
+        onUIComplete: () => new Promise<void>(() => {})
+      });
+      const next = guarded.adjustHeight({ targetHeight: 700 });
+
+      await expect(stuck).resolves.toMatchObject({
+        status: 'failed',
+        error: expect.objectContaining({ code: 'TIMEOUT', operation: 'ui-complete' })
+      });
+      await expect(next).resolves.toMatchObject({ status: 'completed' });
+      guarded.dispose();
+    });
+  });
+
+  describe('Transactions', () => {
+    beforeEach(async () => {
+      await controller.adjustHeight({ targetHeight: 400 });
+      mockBridge.reset();
+    });
+
+    test('should merge behaviors into one bridge update', async () => {
+      const log: string[] = [];
+      mockBridge.updateHeight = async height => {
+        log.push(`bridge:${height}`);
+        return height;
+      };
+
+      const result = await controller.transaction(async tx => {
+        tx.adjustHeight({ targetHeight: 500, onUIChange: () => { log.push('header'); } });
+        await new Promise(resolve => setTimeout(resolve, 5));
+        tx.adjustHeight({ targetHeight: 800, onUIChange: () => { log.push('list'); }, onUIComplete: () => { log.push('list-done'); } });
+        tx.adjustHeight({ targetHeight: 850, onUIChange: () => { log.push('footer'); } });
+        expect(tx).toMatchObject({ size: 3, targetHeight: 850 });
+      });
+
+      expect(result).toMatchObject({ status: 'completed', fromHeight: 400, toHeight: 850, applied: true });
+      expect(log).toEqual(['bridge:850', 'header', 'list', 'footer', 'list-done']);
+    });
+
+    test('should run UI callbacks before the bridge when the net change shrinks', async () => {
+      const log: string[] = [];
+      mockBridge.updateHeight = async height => {
+        log.push(`bridge:${height}`);
+        return height;
+      };
+
+      await controller.transaction(tx => {
+        tx.adjustHeight({ targetHeight: 600, onUIChange: () => { log.push('expand-step'); } });
+        tx.adjustHeight({ targetHeight: 200, onUIChange: () => { log.push('collapse'); } });
+      });
+
+      expect(log).toEqual(['expand-step', 'collapse', 'bridge:200']);
+    });
+
+    test('should apply nothing when the transaction body throws', async () => {
+      const onUIChange = jest.fn();
+
+      await expect(controller.transaction(tx => {
+        tx.adjustHeight({ targetHeight: 600, onUIChange });
+        throw new Error('render failed');
+      })).rejects.toThrow('render failed');
+
+      expect(mockBridge.calls).toHaveLength(0);
+      expect(onUIChange).not.toHaveBeenCalled();
+      await expect(controller.transaction(tx => tx.adjustHeight({ targetHeight: -1 })))
+        .rejects.toThrow(HeightControllerError);
+    });
+
+    test('should roll back as a unit when the merged adjustment fails', async () => {
+      const rollbacks: string[] = [];
+
+      const result = await controller.transaction(tx => {
+        tx.adjustHeight({ targetHeight: 300, onRollback: () => { rollbacks.push('first'); } });
+        tx.adjustHeight({
+          targetHeight: 200,
+          onUIComplete: () => { throw new Error('animation failed'); },
+          onRollback: height => { rollbacks.push(`second:${height}`); }
+        });
+      });
+
+      expect(result.status).toBe('rolled-back');
+      expect(rollbacks).toEqual(['second:400', 'first']);
+      expect(controller.getCurrentHeight()).toBe(400);
+    });
+
+    test('should resolve empty transactions without touching the bridge', async () => {
+      const result = await controller.transaction(() => {});
+
+      expect(result).toEqual({ status: 'completed', fromHeight: 400, toHeight: 400, duration: 0, applied: false });
+      expect(mockBridge.calls).toHaveLength(0);
+    });
+
+    test('should reject behaviors added after the transaction finished', async () => {
+      let escaped: { adjustHeight(behavior: HeightAdjustmentBehavior): void } | undefined;
+      await controller.transaction(tx => { escaped = tx; });
+
+      expect(() => escaped!.adjustHeight({ targetHeight: 500 })).toThrow('Transaction already finished');
+    });
+  });
+
+  describe('Leases', () => {
+    test('should raise the frame while held and restore it on release', async () => {
+      await controller.adjustHeight({ targetHeight: 300 });
+
+      const lease = controller.lease({ extraPx: 200 });
+      await expect(lease.acquired).resolves.toMatchObject({ status: 'completed', toHeight: 500 });
+      expect(controller.getCurrentHeight()).toBe(500);
+
+      await expect(lease.release()).resolves.toMatchObject({ status: 'completed', toHeight: 300 });
+      expect(lease.isReleased).toBe(true);
+      expect(mockBridge.calls.map(call => call.args[0])).toEqual([300, 500, 300]);
+    });
+
+    test('should keep leases on top of content changes', async () => {
+      await controller.adjustHeight({ targetHeight: 300 });
+      const lease = controller.lease({ minHeight: 600 });
+
+      await expect(controller.adjustHeight({ targetHeight: 400 })).resolves.toMatchObject({ toHeight: 600 });
+      await expect(controller.adjustHeight({ targetHeight: 700 })).resolves.toMatchObject({ toHeight: 700 });
+      await controller.adjustHeight({ targetHeight: 350 });
+      expect(controller.getCurrentHeight()).toBe(600);
+
+      await lease.release();
+      expect(controller.getCurrentHeight()).toBe(350);
+    });
+
+    test('should resolve overlapping leases', async () => {
+      await controller.adjustHeight({ targetHeight: 300 });
+      const dropdown = controller.lease({ extraPx: 100 });
+      const modal = controller.lease({ minHeight: 800 });
+      await Promise.all([dropdown.acquired, modal.acquired]);
+      expect(controller.getCurrentHeight()).toBe(800);
+
+      await modal.release();
+      expect(controller.getCurrentHeight()).toBe(400);
+
+      await dropdown.release();
+      expect(controller.getCurrentHeight()).toBe(300);
+    });
+
+    test('should restore the latest content height when released mid-queue', async () => {
+      await controller.adjustHeight({ targetHeight: 300 });
+      mockBridge.delay = 10;
+      const lease = controller.lease({ extraPx: 100 });
+      const content = controller.adjustHeight({ targetHeight: 450 });
+
+      const released = lease.release();
+      await Promise.all([lease.acquired, content, released]);
+
+      expect(controller.getCurrentHeight()).toBe(450);
+    });
+
+    test('should keep the height when released before any content height', async () => {
+      const lease = controller.lease({ extraPx: 200 });
+      await expect(lease.acquired).resolves.toMatchObject({ toHeight: 200 });
+
+      await expect(lease.release()).resolves.toMatchObject({ status: 'completed', toHeight: 200, applied: false });
+      expect(mockBridge.calls.map(call => call.args[0])).toEqual([200]);
+      expect(controller.getCurrentHeight()).toBe(200);
+    });
+
+    test('should clamp and validate leased heights', async () => {
+      const capped = new CoreHeightController({
+        updateHeight: height => mockBridge.updateHeight(height),
+        getCapabilities: () => ({ dynamicHeight: true, resizableWidth: false, maxHeight: 600 })
+      });
+      await capped.adjustHeight({ targetHeight: 400 });
+      await expect(capped.lease({ extraPx: 400 }).acquired).resolves.toMatchObject({ toHeight: 600 });
+      capped.dispose();
+
+      await controller.adjustHeight({ targetHeight: 9000 });
+      await expect(controller.lease({ extraPx: 2000 }).acquired).rejects.toThrow('Invalid targetHeight: 11000');
+      expect(mockBridge.calls.map(call => call.args[0])).toEqual([400, 600, 9000]);
+    });
+
+    test('should only release once', async () => {
+      const lease = controller.lease({ extraPx: 100 });
+      const first = lease.release();
+
+      expect(lease.release()).toBe(first);
+      await first;
+    });
+
+    test('should validate requests and tolerate release after dispose', async () => {
+      expect(() => controller.lease({ extraPx: -10 })).toThrow('Invalid lease extraPx');
+      expect(() => controller.lease({ minHeight: Infinity })).toThrow('Invalid lease minHeight');
+      expect(() => controller.lease({} as never)).toThrow(HeightControllerError);
+
+      const lease = controller.lease({ extraPx: 100 });
+      controller.dispose();
+
+      await expect(lease.acquired).rejects.toMatchObject({ reason: 'disposed' });
+      await expect(lease.release()).resolves.toMatchObject({ applied: false });
+      expect(() => controller.lease({ extraPx: 100 })).toThrow('Controller has been disposed');
+    });
+  });
+
+  describe('Pausing', () => {
+    test('should hold queued behaviors until resumed', async () => {
+      controller.pause();
+      const first = controller.adjustHeight({ targetHeight: 300 });
+      const second = controller.adjustHeight({ targetHeight: 500 });
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(mockBridge.calls).toHaveLength(0);
+      expect(controller.getQueueSnapshot()).toEqual([
+        expect.objectContaining({ targetHeight: 300, running: false }),
+        expect.objectContaining({ targetHeight: 500, running: false })
+      ]);
+
+      controller.resume();
+      await Promise.all([first, second]);
+
+      expect(mockBridge.calls.map(call => call.args[0])).toEqual([300, 500]);
+      expect(controller.isPaused).toBe(false);
+    });
+
+    test('should let the running behavior finish', async () => {
+      mockBridge.delay = 20;
+      const first = controller.adjustHeight({ targetHeight: 300 });
+      const second = controller.adjustHeight({ targetHeight: 500 });
+
+      expect(controller.getQueueSnapshot().map(entry => entry.running)).toEqual([true, false]);
+      controller.pause();
+
+      await expect(first).resolves.toMatchObject({ status: 'completed' });
+      expect(controller.getPendingCount()).toBe(1);
+
+      controller.resume();
+      await expect(second).resolves.toMatchObject({ status: 'completed' });
+    });
+
+    test('should cancel paused behaviors on dispose', async () => {
+      controller.pause();
+      const adjustment = controller.adjustHeight({ targetHeight: 300 });
+
+      controller.dispose();
+
+      await expect(adjustment).rejects.toMatchObject({ reason: 'disposed' });
+      expect(() => controller.pause()).toThrow(HeightControllerError);
+    });
+  });
+
+  describe('Priority Lanes', () => {
+    test('should run higher lanes ahead of pending lower ones', async () => {
+      mockBridge.delay = 10;
+      const reordered: unknown[] = [];
+      controller.on('reordered', event => reordered.push(event));
+
+      const running = controller.adjustHeight({ targetHeight: 100 });
+      const background = controller.adjustHeight({ targetHeight: 200, priority: 'background' });
+      const normal = controller.adjustHeight({ targetHeight: 300 });
+      const urgent = controller.adjustHeight({ targetHeight: 400, priority: 'user-blocking' });
+
+      expect(controller.getQueueSnapshot().map(entry => entry.priority))
+        .toEqual(['normal', 'user-blocking', 'normal', 'background']);
+
+      const results = await Promise.all([running, background, normal, urgent]);
+
+      expect(mockBridge.calls.map(call => call.args[0])).toEqual([100, 400, 300, 200]);
+      expect(results.map(result => result.overtakenBy)).toEqual([undefined, 2, 1, undefined]);
+      expect(reordered).toEqual([
+        { targetHeight: 200, priority: 'background', overtakenBy: { targetHeight: 300, priority: 'normal' } },
+        { targetHeight: 300, priority: 'normal', overtakenBy: { targetHeight: 400, priority: 'user-blocking' } },
+        { targetHeight: 200, priority: 'background', overtakenBy: { targetHeight: 400, priority: 'user-blocking' } }
+      ]);
+    });
+
+    test('should supersede pending lower lanes on request', async () => {
+      mockBridge.delay = 10;
+      const running = controller.adjustHeight({ targetHeight: 100, priority: 'background' });
+      const background = controller.adjustHeight({ targetHeight: 200, priority: 'background' });
+      const normal = controller.adjustHeight({ targetHeight: 300 });
+      const urgent = controller.adjustHeight(
+        { targetHeight: 400, priority: 'user-blocking' },
+        { supersedeLowerPriority: true }
+      );
+
+      await expect(Promise.all([running, background, normal, urgent])).resolves.toMatchObject([
+        { status: 'completed', toHeight: 100 },
+        { status: 'superseded', toHeight: 200, overtakenBy: 1 },
+        { status: 'superseded', toHeight: 300 },
+        { status: 'completed', toHeight: 400 }
+      ]);
+      expect(mockBridge.calls.map(call => call.args[0])).toEqual([100, 400]);
+    });
+
+    test('should only let latest-wins supersede the same or lower lanes', async () => {
+      const latest = new CoreHeightController(mockBridge, { queuePolicy: 'latest-wins' });
+      mockBridge.delay = 10;
+
+      const running = latest.adjustHeight({ targetHeight: 100 });
+      const urgent = latest.adjustHeight({ targetHeight: 200, priority: 'user-blocking' });
+      const normal = latest.adjustHeight({ targetHeight: 300 });
+      const newer = latest.adjustHeight({ targetHeight: 350 });
+
+      await expect(Promise.all([running, urgent, normal, newer])).resolves.toMatchObject([
+        { status: 'completed' },
+        { status: 'completed', toHeight: 200 },
+        { status: 'superseded', toHeight: 300 },
+        { status: 'completed', toHeight: 350 }
+      ]);
+      latest.dispose();
+    });
+
+    test('should coalesce each lane separately', async () => {
+      const coalescing = new CoreHeightController(mockBridge, {
+        queuePolicy: 'coalesce-by-window',
+        coalesceWindowMs: 10
+      });
+
+      const results = await Promise.all([
+        coalescing.adjustHeight({ targetHeight: 100, priority: 'background' }),
+        coalescing.adjustHeight({ targetHeight: 200 }),
+        coalescing.adjustHeight({ targetHeight: 300, priority: 'background' }),
+        coalescing.adjustHeight({ targetHeight: 400 })
+      ]);
+
+      expect(results.map(result => result.status)).toEqual(['superseded', 'superseded', 'completed', 'completed']);
+      expect(mockBridge.calls.map(call => call.args[0])).toEqual([400, 300]);
+      coalescing.dispose();
+    });
+
+    test('should carry the highest priority through transactions', async () => {
+      mockBridge.delay = 10;
+      const running = controller.adjustHeight({ targetHeight: 100 });
+      const pending = controller.adjustHeight({ targetHeight: 200 });
+      const merged = controller.transaction(tx => {
+        tx.adjustHeight({ targetHeight: 300, priority: 'user-blocking' });
+        tx.adjustHeight({ targetHeight: 400 });
+      });
+
+      await Promise.all([running, pending, merged]);
+      expect(mockBridge.calls.map(call => call.args[0])).toEqual([100, 400, 200]);
+    });
+
+    test('should reject unknown priorities', async () => {
+      await expect(controller.adjustHeight({ targetHeight: 300, priority: 'urgent' as never }))
+        .rejects.toThrow('Invalid priority: urgent');
+    });
+  });
+
+  describe('Bridge Capabilities', () => {
+    function withCapabilities(capabilities: BridgeCapabilities | (() => never)): PlatformBridge {
+      return {
+        updateHeight: height => mockBridge.updateHeight(height),
+        getCapabilities: typeof capabilities === 'function' ? capabilities : () => capabilities
+      };
+    }
+
+    test('should assume dynamic height without limits when the bridge reports nothing', async () => {
+      await expect(controller.getCapabilities()).resolves.toEqual({
+        dynamicHeight: true,
+        resizableWidth: false
+      });
+    });
+
+    test('should expose capabilities reported by the bridge', async () => {
+      const capabilityController = new CoreHeightController(withCapabilities({
+        dynamicHeight: true,
+        resizableWidth: true,
+        maxHeight: 1200
+      }));
+
+      await expect(capabilityController.getCapabilities()).resolves.toMatchObject({
+        resizableWidth: true,
+        maxHeight: 1200
+      });
+      capabilityController.dispose();
+    });
+
+    test('should clamp target heights to the platform limits', async () => {
+      const capabilityController = new CoreHeightController(withCapabilities({
+        dynamicHeight: true,
+        resizableWidth: false,
+        minHeight: 200,
+        maxHeight: 800
+      }));
+      const onUIChange = jest.fn();
+
+      const tall = await capabilityController.adjustHeight({ targetHeight: 1500, onUIChange });
+      const short = await capabilityController.adjustHeight({ targetHeight: 100 });
+
+      expect(mockBridge.calls.map(call => call.args[0])).toEqual([800, 200]);
+      expect(tall.toHeight).toBe(800);
+      expect(short.toHeight).toBe(200);
+      expect(onUIChange).toHaveBeenCalledTimes(1);
+      expect(capabilityController.getCurrentHeight()).toBe(200);
+      capabilityController.dispose();
+    });
+
+    test('should skip bridge calls when dynamic height is unsupported', async () => {
+      const capabilityController = new CoreHeightController(withCapabilities({
+        dynamicHeight: false,
+        resizableWidth: false
+      }));
+      const onUIChange = jest.fn();
+
+      const result = await capabilityController.adjustHeight({ targetHeight: 600, onUIChange });
+
+      expect(mockBridge.calls).toHaveLength(0);
+      expect(onUIChange).toHaveBeenCalledTimes(1);
+      expect(result.status).toBe('completed');
+      expect(result.applied).toBe(false);
+      capabilityController.dispose();
+    });
+
+    test('should fall back to defaults when the capability query fails', async () => {
+      const logger = new MemoryLogger();
+      const capabilityController = new CoreHeightController(withCapabilities(() => {
+        throw new Error('not implemented');
+      }), { logger });
+
+      const result = await capabilityController.adjustHeight({ targetHeight: 500 });
+
+      expect(result.applied).toBe(true);
+      expect(logger.find('Failed to query bridge capabilities')?.level).toBe('warn');
+      capabilityController.dispose();
+    });
+  });
+
+  describe('Applied Heights', () => {
+    function clampingBridge(maxHeight: number): PlatformBridge {
+      return {
+        updateHeight: async height => {
+          await mockBridge.updateHeight(height);
+          return Math.min(height, maxHeight);
+        }
+      };
+    }
+
+    test('should follow the height the platform applied', async () => {
+      const clamped = new CoreHeightController(clampingBridge(2000));
+      const onHeightClamped = jest.fn();
+
+      const result = await clamped.adjustHeight({ targetHeight: 9000, onHeightClamped });
+
+      expect(result).toMatchObject({ status: 'completed', toHeight: 9000, requestedHeight: 9000, appliedHeight: 2000 });
+      expect(clamped.getCurrentHeight()).toBe(2000);
+      expect(onHeightClamped).toHaveBeenCalledWith(2000, 9000);
+      clamped.dispose();
+    });
+
+    test('should notify before onUIChange when expanding', async () => {
+      const clamped = new CoreHeightController(clampingBridge(800));
+      const order: string[] = [];
+
+      await clamped.adjustHeight({
+        targetHeight: 1200,
+        onHeightClamped: () => { order.push('clamped'); },
+        onUIChange: () => { order.push('ui-change'); }
+      });
+
+      expect(order).toEqual(['clamped', 'ui-change']);
+      clamped.dispose();
+    });
+
+    test('should report capability clamps the same way', async () => {
+      const capped = new CoreHeightController({
+        updateHeight: height => mockBridge.updateHeight(height),
+        getCapabilities: () => ({ dynamicHeight: true, resizableWidth: false, maxHeight: 800 })
+      });
+      const onHeightClamped = jest.fn();
+
+      const result = await capped.adjustHeight({ targetHeight: 1500, onHeightClamped });
+
+      expect(result).toMatchObject({ toHeight: 800, requestedHeight: 1500, appliedHeight: 800 });
+      expect(onHeightClamped).toHaveBeenCalledWith(800, 1500);
+      capped.dispose();
+    });
+
+    test('should report capability clamps without dynamic height support', async () => {
+      const fixed = new CoreHeightController({
+        updateHeight: height => mockBridge.updateHeight(height),
+        getCapabilities: () => ({ dynamicHeight: false, resizableWidth: false, maxHeight: 800 })
+      });
+      const onHeightClamped = jest.fn();
+
+      const result = await fixed.adjustHeight({ targetHeight: 1500, onHeightClamped });
+
+      expect(result).toMatchObject({ applied: false, requestedHeight: 1500, appliedHeight: 800 });
+      expect(onHeightClamped).toHaveBeenCalledWith(800, 1500);
+      expect(mockBridge.calls).toHaveLength(0);
+      fixed.dispose();
+    });
+
+    test('should leave results untouched when the platform agrees', async () => {
+      const onHeightClamped = jest.fn();
+
+      const result = await controller.adjustHeight({ targetHeight: 500, onHeightClamped });
+
+      expect(result).not.toHaveProperty('appliedHeight');
+      expect(result).not.toHaveProperty('requestedHeight');
+      expect(onHeightClamped).not.toHaveBeenCalled();
+    });
+
+    test('should keep the applied height when a later phase fails', async () => {
+      const logger = new MemoryLogger();
+      const clamped = new CoreHeightController(clampingBridge(700), { logger });
+
+      const result = await clamped.adjustHeight({
+        targetHeight: 900,
+        onHeightClamped: () => { throw new Error('adapt failed'); },
+        onUIChange: () => { throw new Error('render failed'); }
+      });
+
+      expect(result).toMatchObject({ status: 'failed', appliedHeight: 700 });
+      expect(clamped.getCurrentHeight()).toBe(700);
+      expect(logger.find('onHeightClamped threw')?.level).toBe('error');
+      expect(logger.find('Platform applied 700px instead of 900px')?.level).toBe('warn');
+      clamped.dispose();
+    });
+
+    test('should treat bridges without a return value as applying the request', async () => {
+      const legacy = new CoreHeightController({
+        updateHeight: async () => undefined as unknown as number
+      });
+
+      await expect(legacy.adjustHeight({ targetHeight: 450 })).resolves.not.toHaveProperty('appliedHeight');
+      expect(legacy.getCurrentHeight()).toBe(450);
+      legacy.dispose();
+    });
+  });
+
+  describe('Transitions', () => {
+    const linear = { durationMs: 60, stepMs: 20, easing: 'linear' } as const;
+
+    beforeEach(async () => {
+      await controller.adjustHeight({ targetHeight: 100 });
+      mockBridge.reset();
+    });
+
+    afterEach(() => {
+      delete (globalThis as any).matchMedia;
+    });
+
+    // 等待过渡送出第一个中间高度
+    const firstStep = (target: CoreHeightController) => new Promise<void>(resolve => {
+      const unsubscribe = target.subscribe(() => { unsubscribe(); resolve(); });
+    });
+
+    test('should drive intermediate bridge updates', async () => {
+      const heights: number[] = [];
+      controller.subscribe(height => { heights.push(height); });
+
+      const result = await controller.adjustHeight({ targetHeight: 400, transition: linear });
+
+      expect(mockBridge.calls.map(call => call.args[0])).toEqual([200, 300, 400]);
+      expect(heights).toEqual([200, 300, 400]);
+      expect(result.status).toBe('completed');
+    });
+
+    test('should not step faster than the bridge allows', async () => {
+      const limited = new CoreHeightController({
+        updateHeight: height => mockBridge.updateHeight(height),
+        getCapabilities: () => ({ dynamicHeight: true, resizableWidth: false, preferredUpdateIntervalMs: 30 })
+      });
+      await limited.adjustHeight({ targetHeight: 100 });
+      mockBridge.reset();
+
+      await limited.adjustHeight({ targetHeight: 400, transition: linear });
+
+      expect(mockBridge.calls.map(call => call.args[0])).toEqual([250, 400]);
+      limited.dispose();
+    });
+
+    test('should change instantly when reduced motion is preferred', async () => {
+      (globalThis as any).matchMedia = () => ({ matches: true });
+
+      await controller.adjustHeight({ targetHeight: 400, transition: linear });
+
+      expect(mockBridge.calls.map(call => call.args[0])).toEqual([400]);
+    });
+
+    test('should jump to the target when a newer behavior arrives (serial)', async () => {
+      const first = controller.adjustHeight({ targetHeight: 400, transition: { ...linear, durationMs: 1000 } });
+      await firstStep(controller);
+      const second = controller.adjustHeight({ targetHeight: 200 });
+
+      await expect(first).resolves.toMatchObject({ status: 'completed', applied: true });
+      await second;
+      expect(mockBridge.calls.map(call => call.args[0])).toEqual([106, 400, 200]);
+    });
+
+    test('should stop at the intermediate height under latest-wins', async () => {
+      const latest = new CoreHeightController(mockBridge, { queuePolicy: 'latest-wins' });
+      await latest.adjustHeight({ targetHeight: 100 });
+      mockBridge.reset();
+      const onUIChange = jest.fn();
+
+      const stepped = firstStep(latest);
+      const first = latest.adjustHeight({ targetHeight: 400, onUIChange, transition: { ...linear, durationMs: 1000 } });
+      await stepped;
+      const second = latest.adjustHeight({ targetHeight: 200 });
+
+      await expect(first).resolves.toMatchObject({ status: 'superseded', applied: false });
+      await second;
+      expect(mockBridge.calls.map(call => call.args[0])).toEqual([106, 200]);
+      expect(onUIChange).not.toHaveBeenCalled();
+      latest.dispose();
+    });
+
+    test('should wait for CSS-driven UI transitions', async () => {
+      const timeline: string[] = [];
+      const startedAt = Date.now();
+
+      await controller.adjustHeight({
+        targetHeight: 300,
+        transition: { durationMs: 50, mode: 'css' },
+        onUIChange: () => { timeline.push('ui-change'); },
+        onUIComplete: () => { timeline.push(`ui-complete:${Date.now() - startedAt >= 45}`); }
+      });
+
+      expect(mockBridge.calls.map(call => call.args[0])).toEqual([300]);
+      expect(timeline).toEqual(['ui-change', 'ui-complete:true']);
+    });
+
+    test('should stop animating when aborted', async () => {
+      const abortController = new AbortController();
+      const adjustment = controller.adjustHeight(
+        { targetHeight: 400, transition: { ...linear, durationMs: 1000 } },
+        { signal: abortController.signal }
+      );
+
+      await firstStep(controller);
+      abortController.abort();
+
+      await expect(adjustment).rejects.toBeInstanceOf(AdjustmentCancelledError);
+      expect(controller.getCurrentHeight()).toBe(106);
+    });
+
+    test('should reject invalid transitions', async () => {
+      await expect(controller.adjustHeight({ targetHeight: 300, transition: { durationMs: -1 } }))
+        .rejects.toThrow('Invalid transition.durationMs');
+      await expect(controller.adjustHeight({ targetHeight: 300, transition: { durationMs: 100, stepMs: 0 } }))
+        .rejects.toThrow('Invalid transition.stepMs');
+    });
+  });
+
+  describe('Events and Subscriptions', () => {
+    test('should emit lifecycle events in expansion order', async () => {
+      const events: string[] = [];
+      (['queued', 'started', 'bridge-applied', 'ui-changed', 'completed'] as const)
+        .forEach(event => controller.on(event, () => { events.push(event); }));
+
+      await controller.adjustHeight({ targetHeight: 500, onUIChange: () => {} });
+
+      expect(events).toEqual(['queued', 'started', 'bridge-applied', 'ui-changed', 'completed']);
+    });
+
+    test('should emit UI before bridge when shrinking', async () => {
+      await controller.adjustHeight({ targetHeight: 800 });
+      const events: string[] = [];
+      controller.on('bridge-applied', () => { events.push('bridge-applied'); });
+      controller.on('ui-changed', () => { events.push('ui-changed'); });
+
+      await controller.adjustHeight({ targetHeight: 400 });
+
+      expect(events).toEqual(['ui-changed', 'bridge-applied']);
+    });
+
+    test('should include height payloads', async () => {
+      const started = jest.fn();
+      const applied = jest.fn();
+      controller.on('started', started);
+      controller.on('bridge-applied', applied);
+
+      await controller.adjustHeight({ targetHeight: 500 });
+
+      expect(started).toHaveBeenCalledWith({ fromHeight: 0, toHeight: 500, direction: 'expand' });
+      expect(applied).toHaveBeenCalledWith({ fromHeight: 0, toHeight: 500, appliedHeight: 500 });
+    });
+
+    test('should emit failed with error context', async () => {
+      mockBridge.shouldFail = true;
+      const failed = jest.fn();
+      controller.on('failed', failed);
+
+      await controller.adjustHeight({ targetHeight: 500 });
+
+      expect(failed).toHaveBeenCalledWith(expect.objectContaining({
+        phase: 'bridge',
+        toHeight: 500,
+        policy: 'keep-ui',
+        error: expect.any(PlatformBridgeError)
+      }));
+    });
+
+    test('should emit superseded and cancelled outcomes', async () => {
+      const latestWins = new CoreHeightController(mockBridge, { queuePolicy: 'latest-wins' });
+      const superseded = jest.fn();
+      const cancelled = jest.fn();
+      latestWins.on('superseded', superseded);
+      latestWins.on('cancelled', cancelled);
+
+      const first = latestWins.adjustHeight({ targetHeight: 300 });
+      const dropped = latestWins.adjustHeight({ targetHeight: 400 });
+      const last = latestWins.adjustHeight({ targetHeight: 500 });
+      await Promise.all([first, dropped, last]);
+
+      const pending = latestWins.adjustHeight({ targetHeight: 600 });
+      latestWins.dispose();
+      await expect(pending).rejects.toThrow(AdjustmentCancelledError);
+
+      expect(superseded).toHaveBeenCalledWith(expect.objectContaining({ toHeight: 400 }));
+      expect(cancelled).toHaveBeenCalledWith({ targetHeight: 600, reason: 'disposed' });
+    });
+
+    test('should emit disposed and drop listeners', () => {
+      const disposed = jest.fn();
+      controller.on('disposed', disposed);
+
+      controller.dispose();
+
+      expect(disposed).toHaveBeenCalledWith({ height: 0 });
+    });
+
+    test('should notify height subscribers on change only', async () => {
+      const heights: number[] = [];
+      const unsubscribe = controller.subscribe(height => { heights.push(height); });
+
+      await controller.adjustHeight({ targetHeight: 300 });
+      await controller.adjustHeight({ targetHeight: 300 });
+      await controller.adjustHeight({ targetHeight: 500 });
+      unsubscribe();
+      await controller.adjustHeight({ targetHeight: 600 });
+
+      expect(heights).toEqual([300, 500]);
+    });
+
+    test('should track pending count until each call settles', async () => {
+      const counts: number[] = [];
+      controller.on('pending-changed', ({ pendingCount }) => { counts.push(pendingCount); });
+
+      const first = controller.adjustHeight({ targetHeight: 300 });
+      const second = controller.adjustHeight({ targetHeight: 500 });
+      expect(controller.getPendingCount()).toBe(2);
+
+      await Promise.all([first, second]);
+
+      expect(controller.getPendingCount()).toBe(0);
+      expect(counts).toEqual([1, 2, 1, 0]);
+    });
+
+    test('should isolate listener errors from the queue', async () => {
+      controller.on('started', () => { throw new Error('listener broke'); });
+      controller.subscribe(() => { throw new Error('subscriber broke'); });
+
+      const result = await controller.adjustHeight({ targetHeight: 500 });
+
+      expect(result.status).toBe('completed');
+      expect(controller.getCurrentHeight()).toBe(500);
+    });
+  });
+
   describe('Disposal and Resource Management', () => {
     test('should dispose correctly', () => {
       controller.dispose();
@@ -270,15 +1420,33 @@ describe('CoreHeightController', () => {
       expect(controller.isDisposed).toBe(true);
     });
 
-    test('should clear queue on disposal', () => {
+    test('should clear queue on disposal', async () => {
       // Add items to queue (they won't execute immediately if we don't await)
-      controller.adjustHeight({ targetHeight: 400 });
-      controller.adjustHeight({ targetHeight: 600 });
+      const first = controller.adjustHeight({ targetHeight: 400 });
+      const second = controller.adjustHeight({ targetHeight: 600 });
       
       controller.dispose();
       
       // Queue should be cleared
       expect((controller as any).behaviorQueue.length).toBe(0);
+      await expect(first).rejects.toThrow(AdjustmentCancelledError);
+      await expect(second).rejects.toThrow(AdjustmentCancelledError);
+    });
+
+    test('should reject outstanding calls with a disposed cancellation error', async () => {
+      mockBridge.delay = 20;
+      const inFlight = controller.adjustHeight({ targetHeight: 400 });
+      const queued = controller.adjustHeight({ targetHeight: 600 });
+
+      controller.dispose();
+
+      await expect(inFlight).rejects.toMatchObject({
+        name: 'AdjustmentCancelledError',
+        code: 'ADJUSTMENT_CANCELLED',
+        reason: 'disposed',
+        targetHeight: 400
+      });
+      await expect(queued).rejects.toMatchObject({ reason: 'disposed', targetHeight: 600 });
     });
   });
 
@@ -297,6 +1465,49 @@ describe('CoreHeightController', () => {
     });
   });
 
+  describe('Logger Injection', () => {
+    test('should write structured entries to an injected logger', async () => {
+      const logger = new MemoryLogger();
+      const logged = new CoreHeightController(mockBridge, { logger });
+
+      await logged.adjustHeight({ targetHeight: 400 });
+
+      const completed = logger.find('Height adjustment completed');
+      expect(completed?.fields).toMatchObject({
+        debugId: (logged as any).debugId,
+        fromHeight: 0,
+        toHeight: 400
+      });
+      logged.dispose();
+    });
+
+    test('should log failures with phase at error level', async () => {
+      const logger = new MemoryLogger();
+      const logged = new CoreHeightController(mockBridge, { logger });
+      mockBridge.shouldFail = true;
+
+      await logged.adjustHeight({ targetHeight: 400 });
+
+      expect(logger.byLevel('error')[0]?.fields).toMatchObject({
+        phase: 'bridge',
+        toHeight: 400,
+        code: 'PLATFORM_BRIDGE_ERROR'
+      });
+      logged.dispose();
+    });
+
+    test('should not touch the console when a logger is injected', async () => {
+      const consoleSpy = jest.spyOn(console, 'log').mockImplementation();
+      const logged = new CoreHeightController(mockBridge, { debug: true, logger: new MemoryLogger() });
+
+      await logged.adjustHeight({ targetHeight: 400 });
+      logged.dispose();
+
+      expect(consoleSpy).not.toHaveBeenCalled();
+      consoleSpy.mockRestore();
+    });
+  });
+
   describe('Edge Cases and Boundary Conditions', () => {
     test('should handle minimum valid height (1px)', async () => {
       await controller.adjustHeight({ targetHeight: 1 });
@@ -0,0 +1,201 @@
+/**
+ * @bagaking/dma-frame - Height Persistence Tests
+ * 保存稳定高度、创建时恢复、TTL 与版本淘汰
+ */
+
+import { CoreHeightController } from '../src/HeightController.js';
+import {
+  createLocalHeightStorage,
+  createMemoryHeightStorage,
+  persistHeight
+} from '../src/HeightPersistence.js';
+import { HeightControllerError, type HeightStorage, type PlatformBridge } from '../src/types.js';
+
+const KEY = 'dma-frame:height:blk_1';
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('Height Persistence', () => {
+  let storage: HeightStorage;
+  let calls: number[];
+  let bridge: PlatformBridge;
+  let controller: CoreHeightController | undefined;
+
+  beforeEach(() => {
+    storage = createMemoryHeightStorage();
+    calls = [];
+    bridge = {
+      updateHeight: async height => {
+        calls.push(height);
+        return height;
+      }
+    };
+  });
+
+  afterEach(() => {
+    controller?.dispose();
+    controller = undefined;
+  });
+
+  const create = (options: { ttlMs?: number; version?: number } = {}) => {
+    controller = new CoreHeightController(bridge, {
+      persistence: { storage, key: 'blk_1', ...options }
+    });
+    return controller;
+  };
+
+  const record = (height: number, savedAt = Date.now(), version = 1) =>
+    JSON.stringify({ version, height, savedAt });
+
+  const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+  test('should save the settled height', async () => {
+    const frame = create();
+
+    await Promise.all([
+      frame.adjustHeight({ targetHeight: 300 }),
+      frame.adjustHeight({ targetHeight: 640 })
+    ]);
+
+    expect(JSON.parse(storage.getItem(KEY) as string)).toMatchObject({ version: 1, height: 640 });
+  });
+
+  test('should save the content height without active leases', async () => {
+    const frame = create();
+    await frame.adjustHeight({ targetHeight: 400 });
+
+    const lease = frame.lease({ extraPx: 240 });
+    await lease.acquired;
+    expect(frame.getCurrentHeight()).toBe(640);
+    expect(JSON.parse(storage.getItem(KEY) as string)).toMatchObject({ height: 400 });
+
+    frame.dispose();
+    const reopened = create();
+    await expect(reopened.whenRestored()).resolves.toBe(400);
+  });
+
+  test('should restore the saved height on creation', async () => {
+    storage.setItem(KEY, record(640));
+
+    const frame = create();
+
+    await expect(frame.whenRestored()).resolves.toBe(640);
+    await settle();
+    expect(calls).toEqual([640]);
+    expect(frame.getCurrentHeight()).toBe(640);
+  });
+
+  test('should refresh the record once the restored height settles', async () => {
+    const savedAt = Date.now() - 6 * DAY;
+    storage.setItem(KEY, record(640, savedAt));
+    const reopenedAt = Date.now();
+
+    const frame = create();
+    await expect(frame.whenRestored()).resolves.toBe(640);
+    await settle();
+
+    const refreshed = JSON.parse(storage.getItem(KEY) as string);
+    expect(refreshed).toMatchObject({ height: 640 });
+    expect(refreshed.savedAt).toBeGreaterThanOrEqual(reopenedAt);
+  });
+
+  test('should restore before adjustments queued right after creation', async () => {
+    storage.setItem(KEY, record(640));
+
+    const frame = create();
+    await frame.adjustHeight({ targetHeight: 700 });
+
+    expect(calls).toEqual([640, 700]);
+  });
+
+  test('should not restore over real content from async storage', async () => {
+    const getItem = jest.fn(async () => record(640));
+    storage = { ...createMemoryHeightStorage(), getItem };
+
+    const frame = create();
+    const adjustment = frame.adjustHeight({ targetHeight: 500 });
+
+    await expect(frame.whenRestored()).resolves.toBeUndefined();
+    await adjustment;
+    expect(calls).toEqual([500]);
+  });
+
+  test.each([
+    ['expired', record(640, Date.now() - 8 * DAY)],
+    ['from another schema version', record(640, Date.now(), 2)],
+    ['malformed', '{not json'],
+    ['out of range', record(-5)]
+  ])('should discard records that are %s', async (_, value) => {
+    storage.setItem(KEY, value);
+
+    const frame = create();
+
+    await expect(frame.whenRestored()).resolves.toBeUndefined();
+    expect(calls).toEqual([]);
+    expect(storage.getItem(KEY)).toBeNull();
+  });
+
+  test('should honor custom ttl and version', async () => {
+    storage.setItem(KEY, record(640, Date.now() - 8 * DAY, 3));
+
+    const frame = create({ ttlMs: 30 * DAY, version: 3 });
+
+    await expect(frame.whenRestored()).resolves.toBe(640);
+  });
+
+  test('should survive failing storage', async () => {
+    storage = {
+      getItem: () => { throw new Error('denied'); },
+      setItem: () => Promise.reject(new Error('quota')),
+      removeItem: () => undefined
+    };
+
+    const frame = create();
+
+    await expect(frame.whenRestored()).resolves.toBeUndefined();
+    await expect(frame.adjustHeight({ targetHeight: 300 })).resolves.toMatchObject({ status: 'completed' });
+  });
+
+  test('should stop saving after disconnect', async () => {
+    controller = new CoreHeightController(bridge);
+    const handle = persistHeight(controller, { storage, key: 'blk_1' });
+
+    handle.disconnect();
+    await controller.adjustHeight({ targetHeight: 300 });
+
+    expect(storage.getItem(KEY)).toBeNull();
+  });
+
+  test('should validate options', () => {
+    controller = new CoreHeightController(bridge);
+
+    expect(() => persistHeight(controller!, { storage, key: '' })).toThrow(HeightControllerError);
+    expect(() => persistHeight(controller!, { storage, key: 'blk_1', ttlMs: 0 })).toThrow('Invalid persistence ttlMs');
+  });
+
+  describe('createLocalHeightStorage', () => {
+    test('should wrap Web Storage and swallow its errors', () => {
+      const values = new Map<string, string>();
+      const webStorage = {
+        getItem: (key: string) => values.get(key) ?? null,
+        setItem: (key: string, value: string) => {
+          if (value.length > 20) {
+            throw new Error('QuotaExceededError');
+          }
+          values.set(key, value);
+        },
+        removeItem: (key: string) => { values.delete(key); }
+      } as Storage;
+      const local = createLocalHeightStorage(webStorage);
+
+      local.setItem('a', '1');
+      expect(local.getItem('a')).toBe('1');
+      expect(() => local.setItem('b', 'x'.repeat(50))).not.toThrow();
+      local.removeItem('a');
+      expect(local.getItem('a')).toBeNull();
+    });
+
+    test('should report nothing without localStorage', () => {
+      expect(createLocalHeightStorage().getItem('a')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * @bagaking/dma-frame - Logger Tests
+ * 控制台 / 静默 / 内存日志实现
+ */
+
+import {
+  createConsoleLogger,
+  createSilentLogger,
+  MemoryLogger,
+  withLogFields,
+  resolveLogger
+} from '../src/Logger.js';
+
+function createFakeConsole() {
+  return { log: jest.fn(), warn: jest.fn(), error: jest.fn() };
+}
+
+describe('createConsoleLogger', () => {
+  test('should prefix lines with debugId and pass remaining fields', () => {
+    const fakeConsole = createFakeConsole();
+    const logger = createConsoleLogger({ console: fakeConsole });
+
+    logger.info('Height adjustment completed', { debugId: 'HC-1', toHeight: 400 });
+
+    expect(fakeConsole.log).toHaveBeenCalledWith('[HC-1] Height adjustment completed', { toHeight: 400 });
+  });
+
+  test('should fall back to the prefix and omit empty fields', () => {
+    const fakeConsole = createFakeConsole();
+    const logger = createConsoleLogger({ console: fakeConsole, prefix: 'Addon' });
+
+    logger.debug('Hello');
+
+    expect(fakeConsole.log).toHaveBeenCalledWith('[Addon] Hello');
+  });
+
+  test('should route levels to matching console methods', () => {
+    const fakeConsole = createFakeConsole();
+    const logger = createConsoleLogger({ console: fakeConsole });
+
+    logger.warn('careful');
+    logger.error('broken');
+
+    expect(fakeConsole.warn).toHaveBeenCalledWith('[DMAppFrame] careful');
+    expect(fakeConsole.error).toHaveBeenCalledWith('[DMAppFrame] broken');
+  });
+
+  test('should drop entries below minLevel', () => {
+    const fakeConsole = createFakeConsole();
+    const logger = createConsoleLogger({ console: fakeConsole, minLevel: 'warn' });
+
+    logger.debug('noise');
+    logger.info('noise');
+    logger.warn('signal');
+
+    expect(fakeConsole.log).not.toHaveBeenCalled();
+    expect(fakeConsole.warn).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('MemoryLogger', () => {
+  test('should record entries with level and fields', () => {
+    const logger = new MemoryLogger();
+
+    logger.debug('queued', { toHeight: 300 });
+    logger.error('failed', { phase: 'bridge' });
+
+    expect(logger.entries).toEqual([
+      { level: 'debug', message: 'queued', fields: { toHeight: 300 }, timestamp: expect.any(Number) },
+      { level: 'error', message: 'failed', fields: { phase: 'bridge' }, timestamp: expect.any(Number) }
+    ]);
+    expect(logger.find('fail')?.fields.phase).toBe('bridge');
+    expect(logger.byLevel('debug')).toHaveLength(1);
+  });
+
+  test('should keep at most limit entries', () => {
+    const logger = new MemoryLogger(2);
+
+    logger.info('a');
+    logger.info('b');
+    logger.info('c');
+
+    expect(logger.entries.map(entry => entry.message)).toEqual(['b', 'c']);
+
+    logger.clear();
+    expect(logger.entries).toHaveLength(0);
+  });
+});
+
+describe('withLogFields', () => {
+  test('should merge bound fields into every entry', () => {
+    const memory = new MemoryLogger();
+    const logger = withLogFields(memory, { debugId: 'HC-1' });
+
+    logger.warn('slow', { toHeight: 500 });
+
+    expect(memory.entries[0]!.fields).toEqual({ debugId: 'HC-1', toHeight: 500 });
+  });
+});
+
+describe('resolveLogger', () => {
+  test('should prefer an explicit logger', () => {
+    const memory = new MemoryLogger();
+    expect(resolveLogger({ debug: true, logger: memory })).toBe(memory);
+  });
+
+  test('should stay silent without debug', () => {
+    const spy = jest.spyOn(console, 'log').mockImplementation();
+
+    resolveLogger({}).info('hidden');
+    createSilentLogger().error('hidden');
+
+    expect(spy).not.toHaveBeenCalled();
+    spy.mockRestore();
+  });
+});
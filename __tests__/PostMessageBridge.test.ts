@@ -0,0 +1,214 @@
+/**
+ * @jest-environment jsdom
+ */
+
+/**
+ * @bagaking/dma-frame - postMessage Bridge & Frame Host Tests
+ * 宿主页（全局 window）与嵌入页（iframe.contentWindow）两个窗口之间的协议往返
+ */
+
+import { PostMessageBridge } from '../src/PostMessageBridge.js';
+import { FrameHost, createFrameHost } from '../src/FrameHost.js';
+import { CoreHeightController } from '../src/HeightController.js';
+import { FRAME_PROTOCOL, FRAME_PROTOCOL_VERSION, createFrameMessage, type FrameReply } from '../src/FrameProtocol.js';
+import { PlatformBridgeError, TimeoutError } from '../src/types.js';
+
+const HOST_ORIGIN = 'https://portal.example.com';
+const GUEST_ORIGIN = 'https://widgets.example.com';
+
+/**
+ * jsdom 的 postMessage 不设置 origin / source，这里按真实浏览器语义补齐：
+ * 发往某窗口的消息以另一个窗口为 source、以其源为 origin
+ */
+function linkWindows(host: Window, guest: Window, guestOrigin = GUEST_ORIGIN): void {
+  const deliver = (to: Window, from: Window, ownOrigin: string, senderOrigin: string) =>
+    (data: unknown, targetOrigin: string): void => {
+      if (targetOrigin !== '*' && targetOrigin !== ownOrigin) {
+        return;
+      }
+      setTimeout(() => {
+        to.dispatchEvent(new MessageEvent('message', { data, origin: senderOrigin, source: from }));
+      }, 0);
+    };
+
+  jest.spyOn(host, 'postMessage').mockImplementation(deliver(host, guest, HOST_ORIGIN, guestOrigin) as never);
+  jest.spyOn(guest, 'postMessage').mockImplementation(deliver(guest, host, guestOrigin, HOST_ORIGIN) as never);
+}
+
+describe('postMessage frame protocol', () => {
+  let iframe: HTMLIFrameElement;
+  let guest: Window;
+  let host: FrameHost | undefined;
+  let bridge: PostMessageBridge | undefined;
+  // 测试中注册的监听器，结束时统一移除
+  let listeners: AbortController;
+
+  beforeEach(() => {
+    listeners = new AbortController();
+    iframe = document.createElement('iframe');
+    document.body.appendChild(iframe);
+    guest = iframe.contentWindow!;
+    linkWindows(window, guest);
+  });
+
+  afterEach(() => {
+    listeners.abort();
+    bridge?.dispose();
+    host?.dispose();
+    bridge = undefined;
+    host = undefined;
+    iframe.remove();
+    jest.restoreAllMocks();
+  });
+
+  // 期望超时的用例传入短超时；往返用例沿用默认的回复超时，避免机器繁忙时误判
+  function createGuestBridge(timeoutMs?: number): PostMessageBridge {
+    bridge = new PostMessageBridge({
+      targetOrigin: HOST_ORIGIN,
+      window: guest,
+      ...(timeoutMs !== undefined && { timeoutMs })
+    });
+    return bridge;
+  }
+
+  describe('PostMessageBridge', () => {
+    test('should require a host window', () => {
+      expect(() => new PostMessageBridge({ targetOrigin: HOST_ORIGIN, window }))
+        .toThrow(PlatformBridgeError);
+    });
+
+    test('should send versioned requests with correlation ids', async () => {
+      const requests: unknown[] = [];
+      window.addEventListener('message', event => requests.push(event.data), { signal: listeners.signal });
+      const guestBridge = createGuestBridge(50);
+
+      await Promise.allSettled([guestBridge.updateHeight(400), guestBridge.updateHeight(500)]);
+
+      expect(requests).toEqual([
+        expect.objectContaining({ protocol: FRAME_PROTOCOL, version: FRAME_PROTOCOL_VERSION, type: 'height-request', height: 400 }),
+        expect.objectContaining({ type: 'height-request', height: 500 })
+      ]);
+      const [first, second] = requests as Array<{ id: string }>;
+      expect(first!.id).not.toBe(second!.id);
+    });
+
+    test('should time out when the host does not reply', async () => {
+      const guestBridge = createGuestBridge(50);
+
+      await expect(guestBridge.updateHeight(400)).rejects.toBeInstanceOf(TimeoutError);
+    });
+
+    test('should ignore replies from unexpected origins', async () => {
+      const guestBridge = createGuestBridge(50);
+      window.addEventListener('message', event => {
+        const reply = createFrameMessage<FrameReply>(event.data.id, { type: 'height-ack', appliedHeight: 400 });
+        guest.dispatchEvent(new MessageEvent('message', { data: reply, origin: 'https://evil.example.com', source: window }));
+      }, { signal: listeners.signal });
+
+      await expect(guestBridge.updateHeight(400)).rejects.toBeInstanceOf(TimeoutError);
+    });
+
+    test('should reject outstanding requests on dispose', async () => {
+      const guestBridge = createGuestBridge();
+      const pending = guestBridge.updateHeight(400);
+
+      guestBridge.dispose();
+
+      await expect(pending).rejects.toThrow('disposed');
+      await expect(guestBridge.updateHeight(400)).rejects.toThrow('disposed');
+    });
+  });
+
+  describe('FrameHost', () => {
+    test('should resize the iframe and acknowledge the applied height', async () => {
+      const onResize = jest.fn();
+      host = createFrameHost({ allowedOrigins: [GUEST_ORIGIN], onResize });
+      host.attach(iframe);
+
+      await expect(createGuestBridge().updateHeight(480)).resolves.toBe(480);
+
+      expect(iframe.style.height).toBe('480px');
+      expect(onResize).toHaveBeenCalledWith(iframe, 480, 480);
+    });
+
+    test('should enforce host and per-frame limits', async () => {
+      host = createFrameHost({ allowedOrigins: '*', minHeight: 100, maxHeight: 1000 });
+      host.attach(iframe, { maxHeight: 600 });
+      const guestBridge = createGuestBridge();
+
+      await expect(guestBridge.updateHeight(900)).resolves.toBe(600);
+      await expect(guestBridge.updateHeight(50)).resolves.toBe(100);
+      await expect(guestBridge.getCapabilities()).resolves.toEqual({
+        dynamicHeight: true,
+        resizableWidth: false,
+        minHeight: 100,
+        maxHeight: 600
+      });
+      expect(iframe.style.height).toBe('100px');
+    });
+
+    test('should ignore requests from disallowed origins', async () => {
+      host = createFrameHost({ allowedOrigins: ['https://other.example.com'] });
+      host.attach(iframe);
+
+      await expect(createGuestBridge(50).updateHeight(400)).rejects.toBeInstanceOf(TimeoutError);
+      expect(iframe.style.height).toBe('');
+    });
+
+    test('should ignore requests from frames it does not manage', async () => {
+      host = createFrameHost({ allowedOrigins: '*' });
+      const detach = host.attach(iframe);
+      detach();
+
+      await expect(createGuestBridge(50).updateHeight(400)).rejects.toBeInstanceOf(TimeoutError);
+    });
+
+    test('should reply with errors for unsupported versions and invalid heights', async () => {
+      host = createFrameHost({ allowedOrigins: '*' });
+      host.attach(iframe);
+      const replies: FrameReply[] = [];
+      // 两条回复都到达后再断言
+      const received = new Promise<void>(resolve => {
+        guest.addEventListener('message', event => {
+          if (replies.push(event.data) === 2) {
+            resolve();
+          }
+        }, { signal: listeners.signal });
+      });
+
+      window.postMessage({ protocol: FRAME_PROTOCOL, version: 99, id: 'a', type: 'height-request', height: 400 }, '*');
+      window.postMessage({ protocol: FRAME_PROTOCOL, version: FRAME_PROTOCOL_VERSION, id: 'b', type: 'height-request', height: -1 }, '*');
+      await received;
+
+      expect(replies).toEqual([
+        expect.objectContaining({ id: 'a', type: 'error', code: 'UNSUPPORTED_VERSION' }),
+        expect.objectContaining({ id: 'b', type: 'error', code: 'INVALID_HEIGHT' })
+      ]);
+    });
+
+    test('should surface host errors as PlatformBridgeError', async () => {
+      host = createFrameHost({ allowedOrigins: '*' });
+      host.attach(iframe);
+
+      const error = await createGuestBridge().updateHeight(Number.NaN).catch(e => e) as PlatformBridgeError;
+
+      expect(error).toBeInstanceOf(PlatformBridgeError);
+      expect(error.cause).toMatchObject({ code: 'INVALID_HEIGHT' });
+    });
+  });
+
+  describe('with CoreHeightController', () => {
+    test('should drive the iframe height through the controller', async () => {
+      host = createFrameHost({ allowedOrigins: [GUEST_ORIGIN], maxHeight: 800 });
+      host.attach(iframe);
+      const controller = new CoreHeightController(createGuestBridge());
+
+      const result = await controller.adjustHeight({ targetHeight: 1200 });
+
+      // 控制器通过能力协商得知宿主上限
+      expect(result.toHeight).toBe(800);
+      expect(iframe.style.height).toBe('800px');
+      controller.dispose();
+    });
+  });
+});
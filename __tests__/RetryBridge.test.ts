@@ -0,0 +1,150 @@
+/**
+ * @bagaking/dma-frame - Retry Bridge Tests
+ * 重试、退避与超时
+ */
+
+import { withRetry, computeBackoffDelay, isRetryableBridgeError } from '../src/RetryBridge.js';
+import { FrameBridge, PlatformBridge, PlatformBridgeError, TimeoutError } from '../src/types.js';
+
+// 按脚本依次返回结果的桥接器：'ok' | 'fail' | 'hang'
+function createScriptedBridge(script: Array<'ok' | 'fail' | 'hang'>) {
+  const calls: number[] = [];
+  const bridge: PlatformBridge = {
+    updateHeight(targetHeight: number): Promise<number> {
+      const step = script[calls.length] ?? 'ok';
+      calls.push(targetHeight);
+      if (step === 'fail') {
+        return Promise.reject(new PlatformBridgeError('Temporary failure', 'test'));
+      }
+      if (step === 'hang') {
+        return new Promise<number>(() => {});
+      }
+      return Promise.resolve(targetHeight);
+    }
+  };
+  return { bridge, calls };
+}
+
+describe('computeBackoffDelay', () => {
+  test('should grow exponentially without jitter', () => {
+    const options = { baseDelayMs: 100, factor: 2, jitter: 0 };
+
+    expect(computeBackoffDelay(1, options)).toBe(100);
+    expect(computeBackoffDelay(2, options)).toBe(200);
+    expect(computeBackoffDelay(3, options)).toBe(400);
+  });
+
+  test('should cap delays at maxDelayMs', () => {
+    expect(computeBackoffDelay(10, { baseDelayMs: 100, maxDelayMs: 1500, jitter: 0 })).toBe(1500);
+  });
+
+  test('should randomize the configured fraction of the delay', () => {
+    const options = { baseDelayMs: 100, jitter: 0.5 };
+
+    expect(computeBackoffDelay(1, options, () => 0)).toBe(100);
+    expect(computeBackoffDelay(1, options, () => 0.999)).toBe(50);
+  });
+});
+
+describe('isRetryableBridgeError', () => {
+  test('should retry bridge errors and timeouts only', () => {
+    expect(isRetryableBridgeError(new PlatformBridgeError('x', 'test'))).toBe(true);
+    expect(isRetryableBridgeError(new TimeoutError('updateHeight(1)', 10))).toBe(true);
+    expect(isRetryableBridgeError(new Error('plain'))).toBe(false);
+  });
+});
+
+describe('withRetry', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('should retry until the bridge succeeds', async () => {
+    const { bridge, calls } = createScriptedBridge(['fail', 'fail', 'ok']);
+    const onRetry = jest.fn();
+    const retrying = withRetry(bridge, { maxAttempts: 3, baseDelayMs: 100, jitter: 0, onRetry });
+
+    const result = retrying.updateHeight(400);
+    await jest.advanceTimersByTimeAsync(100);
+    await jest.advanceTimersByTimeAsync(200);
+
+    await expect(result).resolves.toBe(400);
+    expect(calls).toEqual([400, 400, 400]);
+    expect(onRetry.mock.calls.map(call => call[2])).toEqual([100, 200]);
+  });
+
+  test('should give up after maxAttempts', async () => {
+    const { bridge, calls } = createScriptedBridge(['fail', 'fail', 'fail']);
+    const retrying = withRetry(bridge, { maxAttempts: 2, baseDelayMs: 10, jitter: 0 });
+
+    const result = retrying.updateHeight(400);
+    const assertion = expect(result).rejects.toThrow(PlatformBridgeError);
+    await jest.advanceTimersByTimeAsync(10);
+
+    await assertion;
+    expect(calls).toHaveLength(2);
+  });
+
+  test('should not retry errors rejected by retryOn', async () => {
+    const bridge: PlatformBridge = {
+      updateHeight: jest.fn().mockRejectedValue(new Error('Permanent'))
+    };
+    const retrying = withRetry(bridge, { maxAttempts: 5 });
+
+    await expect(retrying.updateHeight(400)).rejects.toThrow('Permanent');
+    expect(bridge.updateHeight).toHaveBeenCalledTimes(1);
+  });
+
+  test('should time out hanging attempts and retry them', async () => {
+    const { bridge, calls } = createScriptedBridge(['hang', 'ok']);
+    const retrying = withRetry(bridge, { timeoutMs: 500, baseDelayMs: 50, jitter: 0 });
+
+    const result = retrying.updateHeight(600);
+    await jest.advanceTimersByTimeAsync(500);
+    await jest.advanceTimersByTimeAsync(50);
+
+    await expect(result).resolves.toBe(600);
+    expect(calls).toEqual([600, 600]);
+  });
+
+  test('should forward capabilities of the wrapped bridge', async () => {
+    const { bridge } = createScriptedBridge([]);
+    expect(withRetry(bridge).getCapabilities).toBeUndefined();
+
+    const capabilities = { dynamicHeight: false, resizableWidth: false };
+    const retrying = withRetry({ ...bridge, getCapabilities: () => capabilities });
+    expect(await retrying.getCapabilities?.()).toBe(capabilities);
+  });
+
+  test('should keep and retry the width and mode methods of a FrameBridge', async () => {
+    const { bridge, calls } = createScriptedBridge([]);
+    let widthFailures = 1;
+    const frame: FrameBridge = {
+      ...bridge,
+      updateWidth: async width => {
+        if (widthFailures-- > 0) {
+          throw new PlatformBridgeError('Width busy', 'test');
+        }
+        return width;
+      },
+      updateMode: () => new Promise(() => {})
+    };
+    const retrying = withRetry(frame, { maxAttempts: 2, timeoutMs: 100, baseDelayMs: 10, jitter: 0 });
+
+    const width = retrying.updateWidth!(900);
+    await jest.advanceTimersByTimeAsync(10);
+    await expect(width).resolves.toBe(900);
+
+    const mode = retrying.updateMode!('wide');
+    const timedOut = expect(mode).rejects.toMatchObject({ code: 'TIMEOUT', operation: 'updateMode(wide)' });
+    await jest.advanceTimersByTimeAsync(210);
+    await timedOut;
+
+    await expect(retrying.updateHeight(300)).resolves.toBe(300);
+    expect(calls).toEqual([300]);
+  });
+});
@@ -0,0 +1,277 @@
+/**
+ * @jest-environment jsdom
+ */
+
+/**
+ * @bagaking/dma-frame - Section Layout Tests
+ * 区块登记、间距、上下界、溢出吸收与合并入队
+ */
+
+import { CoreHeightController } from '../src/HeightController.js';
+import { SectionLayout } from '../src/SectionLayout.js';
+import { createSimulatedBridge } from '../src/SimulatedBridge.js';
+import { HeightControllerError } from '../src/types.js';
+import type { HeightController } from '../src/types.js';
+import type { SectionLayoutSnapshot } from '../src/SectionLayout.js';
+
+// jsdom 没有 ResizeObserver，使用可手动触发的替身
+class FakeResizeObserver {
+  static instances: FakeResizeObserver[] = [];
+  public disconnected = false;
+
+  constructor(private readonly callback: () => void) {
+    FakeResizeObserver.instances.push(this);
+  }
+
+  observe(): void {}
+
+  disconnect(): void {
+    this.disconnected = true;
+  }
+
+  trigger(): void {
+    this.callback();
+  }
+}
+
+/** 等待微任务中合并的布局入队并执行完 */
+async function settle(controller: CoreHeightController): Promise<void> {
+  await Promise.resolve();
+  while (controller.getPendingCount() > 0) {
+    await new Promise(resolve => setTimeout(resolve, 0));
+  }
+}
+
+describe('SectionLayout', () => {
+  let bridge: ReturnType<typeof createSimulatedBridge>;
+  let controller: CoreHeightController;
+
+  beforeEach(() => {
+    bridge = createSimulatedBridge();
+    controller = new CoreHeightController(bridge);
+  });
+
+  afterEach(() => {
+    controller.dispose();
+  });
+
+  test('should queue one frame height for a batch of region changes', async () => {
+    const layout = new SectionLayout(controller, { gap: 8, padding: 12 });
+    layout.register('header').update(40);
+    layout.register('body').update(300);
+    layout.register('toolbar').update(48);
+
+    await settle(controller);
+
+    // 40 + 300 + 48 + 2 gaps + 2 paddings
+    expect(bridge.calls.map(call => call.targetHeight)).toEqual([428]);
+    expect(controller.getCurrentHeight()).toBe(428);
+  });
+
+  test('should leave hidden regions and their gaps out', async () => {
+    const layout = new SectionLayout(controller, { gap: 10 });
+    layout.register('header').update(40);
+    const footer = layout.register('footer');
+    layout.register('body').update(200);
+
+    expect(layout.compute().height).toBe(250);
+    expect(footer.allocation).toBeUndefined();
+
+    footer.update(30);
+    expect(layout.compute().height).toBe(290);
+
+    footer.remove();
+    expect(layout.compute().sections).not.toHaveProperty('footer');
+  });
+
+  test('should scroll regions beyond their maxHeight', () => {
+    const layout = new SectionLayout(controller);
+    layout.register('body', { minHeight: 100, maxHeight: 400 }).update(650);
+    layout.register('toolbar', { minHeight: 48 }).update(20);
+
+    expect(layout.compute()).toEqual({
+      height: 448,
+      sections: {
+        body: { measuredHeight: 650, height: 400, scrolls: true },
+        toolbar: { measuredHeight: 20, height: 48, scrolls: false }
+      }
+    });
+  });
+
+  test('should let absorbing regions shrink to the frame maxHeight', () => {
+    const layout = new SectionLayout(controller, { maxHeight: 500, gap: 10 });
+    layout.register('header').update(60);
+    layout.register('body', { minHeight: 120, absorbOverflow: true }).update(600);
+    layout.register('footer').update(40);
+
+    expect(layout.compute()).toMatchObject({
+      height: 500,
+      sections: { body: { height: 380, scrolls: true } }
+    });
+
+    layout.register('details').update(400);
+    // body 只能让到 minHeight，剩余溢出由框架上限截断
+    expect(layout.compute()).toMatchObject({ height: 500, sections: { body: { height: 120 } } });
+  });
+
+  test('should deliver the allocation in onUIChange', async () => {
+    const layouts: SectionLayoutSnapshot[] = [];
+    const layout = new SectionLayout(controller, { onLayout: snapshot => { layouts.push(snapshot); } });
+    const body = layout.register('body', { maxHeight: 300 });
+    body.update(500);
+
+    await settle(controller);
+
+    expect(layouts).toEqual([{ height: 300, sections: { body: { measuredHeight: 500, height: 300, scrolls: true } } }]);
+    expect(body.allocation).toEqual({ measuredHeight: 500, height: 300, scrolls: true });
+    expect(layout.layout).toBe(layouts[0]);
+  });
+
+  test('should commit the layout only once its adjustment changes the UI', async () => {
+    let release!: () => void;
+    const blocked = new Promise<void>(resolve => { release = resolve; });
+    void controller.adjustHeight({ targetHeight: 100, onUIChange: () => blocked });
+    const layout = new SectionLayout(controller);
+    const body = layout.register('body');
+    body.update(240);
+
+    await Promise.resolve();
+    expect(layout.layout).toBeUndefined();
+    expect(body.allocation).toBeUndefined();
+
+    release();
+    await settle(controller);
+    expect(layout.layout).toEqual({ height: 240, sections: { body: { measuredHeight: 240, height: 240, scrolls: false } } });
+  });
+
+  test('should not queue a height when no region is visible', async () => {
+    const layout = new SectionLayout(controller);
+    const body = layout.register('body');
+    body.update(240);
+    await settle(controller);
+
+    body.update(0);
+    await settle(controller);
+    expect(bridge.calls.map(call => call.targetHeight)).toEqual([240]);
+    expect(layout.layout?.height).toBe(240);
+
+    // 配置了 minHeight 时，空布局按 minHeight 入队
+    const bounded = new SectionLayout(controller, { minHeight: 80 });
+    bounded.register('body');
+    bounded.flush();
+    await settle(controller);
+    expect(bridge.calls.map(call => call.targetHeight)).toEqual([240, 80]);
+  });
+
+  test('should skip unchanged layouts', async () => {
+    const layout = new SectionLayout(controller);
+    const body = layout.register('body', { maxHeight: 300 });
+    body.update(400);
+    await settle(controller);
+
+    body.update(500);
+    await settle(controller);
+    expect(bridge.calls).toHaveLength(1);
+
+    body.update(200);
+    await settle(controller);
+    expect(bridge.calls.map(call => call.targetHeight)).toEqual([300, 200]);
+  });
+
+  test('should queue the layout again after an adjustment that did not complete', async () => {
+    bridge = createSimulatedBridge({ failOn: [1] });
+    controller.dispose();
+    controller = new CoreHeightController(bridge, { failurePolicy: 'rollback' });
+    const layout = new SectionLayout(controller);
+    layout.register('body').update(300);
+    await settle(controller);
+    expect(layout.layout).toBeUndefined();
+
+    layout.flush();
+    await settle(controller);
+
+    expect(bridge.calls.map(call => call.targetHeight)).toEqual([300, 300]);
+    expect(layout.layout?.height).toBe(300);
+    expect(controller.getCurrentHeight()).toBe(300);
+  });
+
+  test('should debounce when configured', async () => {
+    jest.useFakeTimers();
+    try {
+      const layout = new SectionLayout(controller, { debounceMs: 50 });
+      const body = layout.register('body');
+      body.update(100);
+      await jest.advanceTimersByTimeAsync(30);
+      body.update(200);
+      await jest.advanceTimersByTimeAsync(30);
+      expect(bridge.calls).toHaveLength(0);
+
+      await jest.advanceTimersByTimeAsync(20);
+      expect(bridge.calls.map(call => call.targetHeight)).toEqual([200]);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  test('should measure observed elements', async () => {
+    const original = globalThis.ResizeObserver;
+    globalThis.ResizeObserver = FakeResizeObserver as unknown as typeof ResizeObserver;
+    try {
+      const element = document.createElement('div');
+      let height = 120;
+      element.getBoundingClientRect = () => ({ height } as DOMRect);
+
+      const layout = new SectionLayout(controller);
+      const stop = layout.register('body').observe(element, 'border-box');
+      await settle(controller);
+      expect(controller.getCurrentHeight()).toBe(120);
+
+      height = 180;
+      FakeResizeObserver.instances[FakeResizeObserver.instances.length - 1]!.trigger();
+      await settle(controller);
+      expect(controller.getCurrentHeight()).toBe(180);
+
+      stop();
+      expect(FakeResizeObserver.instances[FakeResizeObserver.instances.length - 1]!.disconnected).toBe(true);
+    } finally {
+      globalThis.ResizeObserver = original;
+    }
+  });
+
+  test('should drive controllers implementing only the core interface', async () => {
+    const targets: number[] = [];
+    const minimal: HeightController = {
+      adjustHeight: async behavior => {
+        targets.push(behavior.targetHeight);
+        await behavior.onUIChange?.();
+        return { status: 'completed', fromHeight: 0, toHeight: behavior.targetHeight, duration: 0, applied: true };
+      },
+      dispose: () => {},
+      isDisposed: false
+    };
+
+    const layout = new SectionLayout(minimal);
+    layout.register('body').update(240);
+    await Promise.resolve();
+
+    expect(targets).toEqual([240]);
+  });
+
+  test('should validate options and stop after dispose', async () => {
+    expect(() => new SectionLayout(controller, { gap: -1 })).toThrow('Invalid layout gap');
+    expect(() => new SectionLayout(controller, { minHeight: 500, maxHeight: 100 })).toThrow('Invalid layout bounds');
+
+    const layout = new SectionLayout(controller);
+    const body = layout.register('body');
+    expect(() => layout.register('body')).toThrow('Section already registered: body');
+    expect(() => layout.register('footer', { minHeight: -5 })).toThrow(HeightControllerError);
+    expect(() => body.update(NaN)).toThrow('Invalid height for section "body"');
+
+    layout.dispose();
+    body.update(300);
+    await settle(controller);
+
+    expect(bridge.calls).toHaveLength(0);
+    expect(() => layout.register('header')).toThrow('Section layout has been disposed');
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * @bagaking/dma-frame - Simulated Bridge Tests
+ * 场景编排的桥接器，配合 Jest 假定时器
+ */
+
+import { CoreHeightController } from '../src/HeightController.js';
+import { createSimulatedBridge } from '../src/SimulatedBridge.js';
+import { HeightControllerError, PlatformBridgeError, TimeoutError } from '../src/types.js';
+
+describe('createSimulatedBridge', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('should resolve immediately without latency', async () => {
+    const bridge = createSimulatedBridge();
+
+    await expect(bridge.updateHeight(400)).resolves.toBe(400);
+    expect(bridge.calls).toEqual([{ index: 1, targetHeight: 400, latencyMs: 0, status: 'resolved', appliedHeight: 400 }]);
+    expect(bridge.appliedHeights).toEqual([400]);
+  });
+
+  test('should follow per-call latencies on fake timers', async () => {
+    const bridge = createSimulatedBridge({ latencyMs: [50, 200] });
+    const settled: number[] = [];
+
+    void bridge.updateHeight(100).then(height => settled.push(height));
+    void bridge.updateHeight(200).then(height => settled.push(height));
+    void bridge.updateHeight(300).then(height => settled.push(height));
+
+    await jest.advanceTimersByTimeAsync(50);
+    expect(settled).toEqual([100]);
+    expect(bridge.calls.map(call => call.status)).toEqual(['resolved', 'pending', 'pending']);
+
+    await jest.advanceTimersByTimeAsync(150);
+    expect(settled).toEqual([100, 200, 300]);
+  });
+
+  test('should draw latency ranges from the random source', async () => {
+    const values = [0, 0.5, 1];
+    const bridge = createSimulatedBridge({ latencyMs: { min: 10, max: 30 }, random: () => values.shift() ?? 0 });
+
+    await Promise.all([bridge.updateHeight(1), bridge.updateHeight(2), bridge.updateHeight(3), jest.advanceTimersByTimeAsync(30)]);
+
+    expect(bridge.calls.map(call => call.latencyMs)).toEqual([10, 20, 30]);
+  });
+
+  test('should fail by call index and by probability', async () => {
+    const bridge = createSimulatedBridge({ failOn: [2], failureRate: 0.5, random: () => 0.9 });
+
+    await expect(bridge.updateHeight(100)).resolves.toBe(100);
+    await expect(bridge.updateHeight(200)).rejects.toBeInstanceOf(PlatformBridgeError);
+
+    const unlucky = createSimulatedBridge({ failureRate: 0.5, random: () => 0.1, error: call => new Error(`boom ${call}`) });
+    await expect(unlucky.updateHeight(100)).rejects.toThrow('boom 1');
+    expect(unlucky.calls[0]).toMatchObject({ status: 'rejected' });
+  });
+
+  test('should clamp to platform limits and report them', async () => {
+    const bridge = createSimulatedBridge({ minHeight: 100, maxHeight: 800 });
+
+    await expect(bridge.updateHeight(1200)).resolves.toBe(800);
+    await expect(bridge.updateHeight(20)).resolves.toBe(100);
+    expect(bridge.getCapabilities()).toEqual({ dynamicHeight: true, resizableWidth: false, minHeight: 100, maxHeight: 800 });
+  });
+
+  test('should let calls hang forever', async () => {
+    const bridge = createSimulatedBridge({ hangOn: [1] });
+    const controller = new CoreHeightController(bridge, { bridgeTimeoutMs: 1000 });
+
+    const adjustment = controller.adjustHeight({ targetHeight: 400 }, { failurePolicy: 'throw' });
+    const outcome = expect(adjustment).rejects.toBeInstanceOf(TimeoutError);
+    await jest.advanceTimersByTimeAsync(1000);
+
+    await outcome;
+    expect(bridge.calls[0]).toMatchObject({ status: 'hanging' });
+    controller.dispose();
+  });
+
+  test('should drive a controller deterministically', async () => {
+    const bridge = createSimulatedBridge({ latencyMs: 100, failOn: [2], maxHeight: 600 });
+    const controller = new CoreHeightController(bridge);
+
+    const results = Promise.all([
+      controller.adjustHeight({ targetHeight: 900 }),
+      controller.adjustHeight({ targetHeight: 300 }),
+      controller.adjustHeight({ targetHeight: 500 })
+    ]);
+    await jest.advanceTimersByTimeAsync(300);
+
+    await expect(results).resolves.toMatchObject([
+      { status: 'completed', toHeight: 600 },
+      { status: 'failed', applied: false },
+      { status: 'completed', toHeight: 500 }
+    ]);
+    expect(bridge.appliedHeights).toEqual([600, 500]);
+    controller.dispose();
+  });
+
+  test('should forget calls on reset', async () => {
+    const bridge = createSimulatedBridge({ failOn: [1] });
+
+    await expect(bridge.updateHeight(100)).rejects.toThrow();
+    bridge.reset();
+
+    await expect(bridge.updateHeight(100)).rejects.toThrow();
+    expect(bridge.calls).toHaveLength(1);
+  });
+
+  test('should validate the scenario', () => {
+    expect(() => createSimulatedBridge({ failureRate: 2 })).toThrow(HeightControllerError);
+    expect(() => createSimulatedBridge({ minHeight: 500, maxHeight: 100 })).toThrow('Invalid simulated bounds');
+    expect(() => createSimulatedBridge({ latencyMs: { min: 50, max: 10 } })).toThrow('Invalid latency range');
+  });
+});
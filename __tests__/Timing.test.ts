@@ -0,0 +1,164 @@
+/**
+ * @bagaking/dma-frame - Timing Strategy Tests
+ * 内置时序策略、按行为 / 控制器选择策略，以及第三方策略
+ */
+
+import { RecordingHeightController, createSimulatedBridge } from '../src/testing.js';
+import { resolveTimingStrategy, TIMING_STRATEGIES } from '../src/Timing.js';
+import { HeightControllerError, PlatformBridgeError, UICallbackError } from '../src/types.js';
+import type { TimingStrategy } from '../src/types.js';
+
+/** 时间线中的步骤种类（去掉 started） */
+function steps(controller: RecordingHeightController): string[] {
+  return controller.timeline.filter(entry => entry.kind !== 'started').map(entry => entry.kind);
+}
+
+const callbacks = { onUIChange: () => {}, onUIComplete: () => {} };
+
+describe('Timing strategies', () => {
+  test('should keep the expand/shrink ordering by default', async () => {
+    const controller = new RecordingHeightController();
+
+    await controller.adjustHeight({ targetHeight: 500, ...callbacks });
+    expect(steps(controller)).toEqual(['bridge', 'ui-change', 'ui-complete']);
+
+    controller.clearTimeline();
+    await controller.adjustHeight({ targetHeight: 300, ...callbacks });
+    expect(steps(controller)).toEqual(['ui-change', 'ui-complete', 'bridge']);
+  });
+
+  test('should start the bridge and UI together in parallel', async () => {
+    const controller = new RecordingHeightController(createSimulatedBridge({ latencyMs: 20 }));
+    let bridgeSettled = false;
+    controller.on('bridge-applied', () => { bridgeSettled = true; });
+    let settledAtUIChange: boolean | undefined;
+
+    await controller.adjustHeight({
+      targetHeight: 500,
+      timing: 'parallel',
+      onUIChange: () => { settledAtUIChange = bridgeSettled; },
+      onUIComplete: () => {}
+    });
+
+    expect(settledAtUIChange).toBe(false);
+    expect(steps(controller)).toEqual(['bridge', 'ui-change', 'ui-complete']);
+    expect(controller.getCurrentHeight()).toBe(500);
+    controller.dispose();
+  });
+
+  test('should wait for both parallel steps before recovering', async () => {
+    const controller = new RecordingHeightController(
+      createSimulatedBridge({ latencyMs: 20, failOn: [1] }),
+      { timing: 'parallel' }
+    );
+    const onRollback = jest.fn();
+
+    const result = await controller.adjustHeight(
+      { targetHeight: 500, onUIChange: () => {}, onRollback },
+      { failurePolicy: 'rollback' }
+    );
+
+    expect(result).toMatchObject({ status: 'rolled-back', applied: false });
+    expect(result.error).toBeInstanceOf(PlatformBridgeError);
+    expect(onRollback).toHaveBeenCalledWith(0);
+    controller.dispose();
+  });
+
+  test('should skip the bridge for ui-only and the UI for bridge-only', async () => {
+    const controller = new RecordingHeightController();
+    const onUIChange = jest.fn();
+
+    await expect(controller.adjustHeight({ targetHeight: 500, timing: 'ui-only', onUIChange }))
+      .resolves.toMatchObject({ status: 'completed', applied: false });
+    expect(controller.bridgeHeights).toEqual([]);
+    expect(controller.getCurrentHeight()).toBe(500);
+
+    await expect(controller.adjustHeight({ targetHeight: 300, timing: 'bridge-only', onUIChange }))
+      .resolves.toMatchObject({ status: 'completed', applied: true });
+    expect(controller.bridgeHeights).toEqual([300]);
+    expect(onUIChange).toHaveBeenCalledTimes(1);
+  });
+
+  test('should let behaviors override the controller strategy', async () => {
+    const controller = new RecordingHeightController(createSimulatedBridge(), { timing: 'ui-only' });
+
+    await controller.adjustHeight({ targetHeight: 500, timing: 'default', ...callbacks });
+
+    expect(steps(controller)).toEqual(['bridge', 'ui-change', 'ui-complete']);
+  });
+
+  test('should run third-party strategies with intermediate heights', async () => {
+    const twoStage: TimingStrategy = {
+      name: 'two-stage',
+      async run(step) {
+        await step.updateHeight(Math.max(step.fromHeight, step.toHeight) + 100);
+        step.checkpoint();
+        await step.uiChange();
+        await step.uiComplete();
+        await step.bridge();
+        await step.bridge();
+      }
+    };
+    const controller = new RecordingHeightController(createSimulatedBridge(), { timing: twoStage });
+    await controller.adjustHeight({ targetHeight: 400 });
+    controller.clearTimeline();
+
+    await controller.adjustHeight({ targetHeight: 300, ...callbacks });
+
+    // 每个步骤只执行一次
+    expect(steps(controller)).toEqual(['bridge', 'ui-change', 'ui-complete', 'bridge']);
+    expect(controller.bridgeHeights).toEqual([500, 300]);
+    expect(controller.getCurrentHeight()).toBe(300);
+  });
+
+  test('should report clamped heights applied by any strategy', async () => {
+    const controller = new RecordingHeightController(createSimulatedBridge({ maxHeight: 600 }));
+    const onHeightClamped = jest.fn();
+
+    await expect(controller.adjustHeight({ targetHeight: 800, timing: 'bridge-only', onHeightClamped }))
+      .resolves.toMatchObject({ requestedHeight: 800, appliedHeight: 600 });
+    expect(onHeightClamped).toHaveBeenCalledWith(600, 800);
+
+    const direct: TimingStrategy = {
+      name: 'direct',
+      async run(step) {
+        await step.updateHeight(step.toHeight + 200);
+        await step.uiChange();
+      }
+    };
+    onHeightClamped.mockClear();
+    const result = await controller.adjustHeight({ targetHeight: 500, timing: direct, onHeightClamped });
+
+    expect(onHeightClamped).toHaveBeenCalledWith(600, 700);
+    expect(result).toMatchObject({ applied: true, requestedHeight: 500, appliedHeight: 600 });
+    expect(controller.getCurrentHeight()).toBe(600);
+  });
+
+  test('should report the failing phase and wrap strategy errors', async () => {
+    const failed = jest.fn();
+    const controller = new RecordingHeightController(createSimulatedBridge(), { timing: 'parallel' });
+    controller.on('failed', failed);
+
+    const result = await controller.adjustHeight({
+      targetHeight: 500,
+      onUIChange: () => { throw new Error('render failed'); }
+    });
+    expect(result.error).toBeInstanceOf(UICallbackError);
+    expect(failed).toHaveBeenCalledWith(expect.objectContaining({ phase: 'ui-change' }));
+
+    const broken: TimingStrategy = { name: 'broken', run: async () => { throw new Error('boom'); } };
+    await expect(controller.adjustHeight({ targetHeight: 600, timing: broken }, { failurePolicy: 'throw' }))
+      .rejects.toThrow('Timing strategy "broken" failed: boom');
+  });
+
+  test('should validate strategies', async () => {
+    expect(resolveTimingStrategy()).toBe(TIMING_STRATEGIES.default);
+    expect(() => resolveTimingStrategy('crossfade' as never)).toThrow('Invalid timing: crossfade');
+    expect(() => new RecordingHeightController(createSimulatedBridge(), { timing: {} as never }))
+      .toThrow(HeightControllerError);
+
+    const controller = new RecordingHeightController();
+    await expect(controller.adjustHeight({ targetHeight: 500, timing: 'sideways' as never }))
+      .rejects.toThrow(HeightControllerError);
+  });
+});
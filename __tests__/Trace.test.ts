@@ -0,0 +1,239 @@
+/**
+ * @bagaking/dma-frame - Trace Tests
+ * 轨迹记录与回放
+ */
+
+import { CoreHeightController } from '../src/HeightController.js';
+import { TRACE_VERSION, TraceRecorder, replayTrace, type AdjustmentTrace } from '../src/Trace.js';
+import { DMAppFrameError, type PlatformBridge, type TimingStrategy } from '../src/types.js';
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// 带延迟、第二次调用失败的桥接器
+function createFlakyBridge(): PlatformBridge {
+  let calls = 0;
+  return {
+    async updateHeight(height: number): Promise<number> {
+      calls++;
+      await delay(5);
+      if (calls === 2) {
+        throw new Error('bridge busy');
+      }
+      return height;
+    }
+  };
+}
+
+describe('Adjustment Traces', () => {
+  async function recordSession(): Promise<AdjustmentTrace> {
+    const recorder = new TraceRecorder();
+    const controller = recorder.wrapController(new CoreHeightController(recorder.wrapBridge(createFlakyBridge())));
+
+    await Promise.all([
+      controller.adjustHeight({ targetHeight: 300, onUIChange: () => undefined }),
+      controller.adjustHeight({ targetHeight: 200, onUIComplete: () => undefined }),
+      controller.adjustHeight({
+        targetHeight: 900,
+        onUIChange: () => undefined,
+        onUIComplete: () => { throw new Error('render failed'); }
+      })
+    ]);
+
+    const trace = recorder.getTrace();
+    controller.dispose();
+    return trace;
+  }
+
+  describe('TraceRecorder', () => {
+    test('should record behaviors, bridge results and errors in order', async () => {
+      const trace = await recordSession();
+      const of = (type: string) => trace.entries.filter(entry => entry.type === type);
+
+      expect(trace).toMatchObject({ version: TRACE_VERSION, initialHeight: 0, finalHeight: 900 });
+      expect(of('adjust')).toEqual([
+        expect.objectContaining({ id: 1, targetHeight: 300, callbacks: ['ui-change'] }),
+        expect.objectContaining({ id: 2, targetHeight: 200, callbacks: ['ui-complete'] }),
+        expect.objectContaining({ id: 3, targetHeight: 900, callbacks: ['ui-change', 'ui-complete'] })
+      ]);
+      expect(of('bridge-call').map(entry => (entry as { height: number }).height)).toEqual([300, 200, 900]);
+      expect(of('result').map(entry => (entry as { status: string }).status)).toEqual(['completed', 'failed', 'failed']);
+      // 收缩时先回调再调用桥接
+      expect(trace.entries.filter(entry => entry.type.startsWith('bridge-') || entry.type === 'callback')
+        .map(entry => entry.type === 'callback' ? `${entry.id}:${entry.callback}` : entry.type)).toEqual([
+        'bridge-call', 'bridge-result', '1:ui-change',
+        '2:ui-complete', 'bridge-call', 'bridge-error',
+        'bridge-call', 'bridge-result', '3:ui-change', '3:ui-complete'
+      ]);
+      expect(trace.entries).toContainEqual(expect.objectContaining({
+        type: 'bridge-error',
+        call: 2,
+        error: { name: 'Error', message: 'bridge busy' }
+      }));
+      expect(trace.entries).toContainEqual(expect.objectContaining({
+        type: 'callback',
+        id: 3,
+        callback: 'ui-complete',
+        error: expect.objectContaining({ message: 'render failed' })
+      }));
+    });
+
+    test('should record phase events as plain JSON', async () => {
+      const trace = await recordSession();
+      const events = trace.entries.flatMap(entry => entry.type === 'event' ? [entry.event] : []);
+
+      expect(events).toContain('started');
+      expect(events).toContain('bridge-applied');
+      expect(events).toContain('failed');
+      expect(JSON.parse(JSON.stringify(trace))).toEqual(trace);
+    });
+
+    test('should record aborts and dispose', async () => {
+      const recorder = new TraceRecorder();
+      const controller = recorder.wrapController(new CoreHeightController(recorder.wrapBridge(createFlakyBridge())));
+      const abort = new AbortController();
+
+      const first = controller.adjustHeight({ targetHeight: 300 });
+      const second = controller.adjustHeight({ targetHeight: 400 }, { signal: abort.signal });
+      abort.abort();
+      await Promise.allSettled([first, second]);
+      controller.dispose();
+
+      const types = recorder.getTrace().entries.map(entry => entry.type);
+      expect(types).toContain('abort');
+      expect(types).toContain('rejected');
+      expect(types[types.length - 1]).not.toBe('adjust');
+      expect(types).toContain('dispose');
+    });
+  });
+
+  describe('replayTrace', () => {
+    test('should reproduce final height, callback order and outcomes', async () => {
+      const trace = JSON.parse(JSON.stringify(await recordSession())) as AdjustmentTrace;
+
+      const report = await replayTrace(trace);
+
+      expect(report.mismatches).toEqual([]);
+      expect(report.matches).toBe(true);
+      expect(report.finalHeight).toEqual({ expected: 900, actual: 900 });
+      expect(report.callbacks.actual).toEqual(['1:ui-change', '2:ui-complete', '3:ui-change', '3:ui-complete']);
+      expect(report.outcomes.actual.map(outcome => outcome.status)).toEqual(['completed', 'failed', 'failed']);
+    });
+
+    test('should report differences under other controller options', async () => {
+      const trace = await recordSession();
+
+      const report = await replayTrace(trace, { controllerOptions: { queuePolicy: 'latest-wins' } });
+
+      expect(report.matches).toBe(false);
+      expect(report.mismatches).toContainEqual(expect.stringContaining('Callback order'));
+      expect(report.mismatches).toContainEqual(expect.stringMatching(/^Adjustment #2: expected failed 200px \(not applied\), replayed superseded/));
+    });
+
+    test('should replay from the recorded initial height', async () => {
+      const controller = new CoreHeightController({ updateHeight: async height => height });
+      await controller.adjustHeight({ targetHeight: 500 });
+      const recorder = new TraceRecorder();
+      const traced = recorder.wrapController(controller);
+
+      await traced.adjustHeight({ targetHeight: 250, onUIChange: () => undefined });
+      const trace = recorder.getTrace();
+      traced.dispose();
+
+      const report = await replayTrace(trace);
+
+      expect(trace.initialHeight).toBe(500);
+      expect(report.matches).toBe(true);
+      expect(report.outcomes.actual).toEqual([{ id: 1, status: 'completed', toHeight: 250, applied: true }]);
+    });
+
+    test('should reproduce prioritized runs and record reordering', async () => {
+      const recorder = new TraceRecorder();
+      const controller = recorder.wrapController(new CoreHeightController(recorder.wrapBridge(createFlakyBridge())));
+
+      await Promise.allSettled([
+        controller.adjustHeight({ targetHeight: 300, onUIChange: () => undefined }),
+        controller.adjustHeight({ targetHeight: 400, priority: 'background', onUIChange: () => undefined }),
+        controller.adjustHeight({ targetHeight: 500, priority: 'user-blocking', onUIChange: () => undefined })
+      ]);
+      const trace = JSON.parse(JSON.stringify(recorder.getTrace())) as AdjustmentTrace;
+      controller.dispose();
+
+      expect(trace.entries).toContainEqual(expect.objectContaining({ type: 'adjust', id: 2, priority: 'background' }));
+      expect(trace.entries).toContainEqual(expect.objectContaining({
+        type: 'event',
+        event: 'reordered',
+        payload: expect.objectContaining({ targetHeight: 400, overtakenBy: { targetHeight: 500, priority: 'user-blocking' } })
+      }));
+
+      const report = await replayTrace(trace);
+
+      expect(report.mismatches).toEqual([]);
+      expect(report.callbacks.actual).toEqual(['1:ui-change', '3:ui-change', '2:ui-change']);
+    });
+
+    test('should reproduce custom timing and clamped heights', async () => {
+      const uiFirst: TimingStrategy = {
+        name: 'ui-first',
+        async run(step) {
+          await step.uiChange();
+          await step.uiComplete();
+          await step.bridge();
+        }
+      };
+      const recorder = new TraceRecorder();
+      const controller = recorder.wrapController(new CoreHeightController(recorder.wrapBridge({
+        updateHeight: async height => Math.min(height, 600)
+      })));
+
+      await controller.adjustHeight({
+        targetHeight: 800,
+        timing: uiFirst,
+        onUIChange: () => undefined,
+        onHeightClamped: () => undefined
+      });
+      const trace = recorder.getTrace();
+      controller.dispose();
+
+      expect(trace.entries).toContainEqual(expect.objectContaining({
+        type: 'adjust',
+        timing: 'ui-first',
+        callbacks: ['ui-change', 'height-clamped']
+      }));
+      expect(trace.entries).toContainEqual(expect.objectContaining({ type: 'result', requestedHeight: 800, appliedHeight: 600 }));
+      await expect(replayTrace(trace)).rejects.toMatchObject({ code: 'UNKNOWN_TRACE_TIMING' });
+
+      const report = await replayTrace(trace, { timingStrategies: { 'ui-first': uiFirst } });
+
+      expect(report.mismatches).toEqual([]);
+      expect(report.callbacks.actual).toEqual(['1:ui-change', '1:height-clamped']);
+      expect(report.outcomes.actual).toEqual([
+        { id: 1, status: 'completed', toHeight: 800, applied: true, appliedHeight: 600 }
+      ]);
+    });
+
+    test('should replay with the recorded bridge capabilities', async () => {
+      const recorder = new TraceRecorder();
+      const controller = recorder.wrapController(new CoreHeightController(recorder.wrapBridge({
+        updateHeight: async height => height,
+        getCapabilities: () => ({ dynamicHeight: true, resizableWidth: false, maxHeight: 800 })
+      })));
+
+      await controller.adjustHeight({ targetHeight: 1000 });
+      const trace = JSON.parse(JSON.stringify(recorder.getTrace())) as AdjustmentTrace;
+      controller.dispose();
+
+      expect(trace.capabilities).toMatchObject({ maxHeight: 800 });
+
+      const report = await replayTrace(trace);
+
+      expect(report.mismatches).toEqual([]);
+      expect(report.finalHeight).toEqual({ expected: 800, actual: 800 });
+    });
+
+    test('should reject unknown trace versions', async () => {
+      const trace = { ...(await recordSession()), version: 99 };
+
+      await expect(replayTrace(trace)).rejects.toBeInstanceOf(DMAppFrameError);
+    });
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * @bagaking/dma-frame - Transition Tests
+ * 缓动曲线、减少动态效果检测与 CSS 对齐
+ */
+
+import { cubicBezier, prefersReducedMotion, resolveEasing, toCSSTransition } from '../src/Transition.js';
+
+describe('cubicBezier', () => {
+  test('should pin the endpoints', () => {
+    const ease = cubicBezier(0.42, 0, 0.58, 1);
+
+    expect(ease(0)).toBe(0);
+    expect(ease(1)).toBe(1);
+    expect(ease(-1)).toBe(0);
+    expect(ease(2)).toBe(1);
+  });
+
+  test('should be symmetric for ease-in-out', () => {
+    const ease = resolveEasing('ease-in-out');
+
+    expect(ease(0.5)).toBeCloseTo(0.5, 4);
+    expect(ease(0.25) + ease(0.75)).toBeCloseTo(1, 4);
+  });
+
+  test('should match the linear curve', () => {
+    const linear = resolveEasing('linear');
+
+    [0.1, 0.33, 0.8].forEach(progress => {
+      expect(linear(progress)).toBeCloseTo(progress, 4);
+    });
+  });
+
+  test('should start slow for ease-in and fast for ease-out', () => {
+    expect(resolveEasing('ease-in')(0.25)).toBeLessThan(0.25);
+    expect(resolveEasing('ease-out')(0.25)).toBeGreaterThan(0.25);
+  });
+
+  test('should accept custom control points', () => {
+    const custom = resolveEasing([0, 0, 1, 1]);
+
+    expect(custom(0.4)).toBeCloseTo(0.4, 4);
+  });
+});
+
+describe('prefersReducedMotion', () => {
+  afterEach(() => {
+    delete (globalThis as any).matchMedia;
+  });
+
+  test('should be false without matchMedia', () => {
+    expect(prefersReducedMotion()).toBe(false);
+  });
+
+  test('should read the reduced motion media query', () => {
+    const matchMedia = jest.fn(() => ({ matches: true }));
+    (globalThis as any).matchMedia = matchMedia;
+
+    expect(prefersReducedMotion()).toBe(true);
+    expect(matchMedia).toHaveBeenCalledWith('(prefers-reduced-motion: reduce)');
+  });
+});
+
+describe('toCSSTransition', () => {
+  test('should format named and custom easings', () => {
+    expect(toCSSTransition({ durationMs: 240, easing: 'ease-out' })).toBe('height 240ms ease-out');
+    expect(toCSSTransition({ durationMs: 300, easing: [0.2, 0, 0, 1] }, 'max-height'))
+      .toBe('max-height 300ms cubic-bezier(0.2, 0, 0, 1)');
+    expect(toCSSTransition({ durationMs: 100 })).toBe('height 100ms ease-in-out');
+  });
+});
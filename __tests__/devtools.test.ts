@@ -0,0 +1,108 @@
+/**
+ * @jest-environment jsdom
+ */
+
+/**
+ * @bagaking/dma-frame - Devtools Overlay Tests
+ * shadow root 中的调试面板
+ */
+
+import { attachDevtools, type DevtoolsHandle } from '../src/devtools.js';
+import { CoreHeightController } from '../src/HeightController.js';
+import { createSimulatedBridge } from '../src/SimulatedBridge.js';
+
+describe('attachDevtools', () => {
+  let controller: CoreHeightController;
+  let devtools: DevtoolsHandle | undefined;
+
+  beforeEach(() => {
+    controller = new CoreHeightController(createSimulatedBridge({ maxHeight: 900, failOn: [2] }));
+  });
+
+  afterEach(() => {
+    devtools?.detach();
+    devtools = undefined;
+    controller.dispose();
+  });
+
+  const section = (name: string): string =>
+    devtools!.host.shadowRoot!.querySelector(`[data-section="${name}"]`)?.textContent ?? '';
+  const button = (action: string): HTMLButtonElement[] =>
+    Array.from(devtools!.host.shadowRoot!.querySelectorAll<HTMLButtonElement>(`[data-action="${action}"]`));
+
+  test('should render into a shadow root', () => {
+    devtools = attachDevtools(controller);
+
+    expect(document.body.contains(devtools.host)).toBe(true);
+    expect(devtools.host.shadowRoot?.querySelector('style')).not.toBeNull();
+    expect(document.body.textContent).not.toContain('dma-frame');
+    expect(section('status')).toBe('height 0px · 0 pending');
+  });
+
+  test('should show capabilities and the adjustment timeline', async () => {
+    devtools = attachDevtools(controller);
+
+    await controller.adjustHeight({ targetHeight: 400 });
+    await controller.adjustHeight({ targetHeight: 600 });
+
+    expect(section('capabilities')).toContain('dynamicHeight: yes · range: 0–900px');
+    expect(section('status')).toBe('height 600px · 0 pending');
+    expect(section('timeline')).toMatch(/#2 400→600px failed \d+ms/);
+    expect(section('timeline')).toContain('bridge: Simulated failure on call 2');
+    expect(section('timeline')).toMatch(/#1 0→400px completed \d+ms · bridge \+\d+ms · ui \+\d+ms/);
+  });
+
+  test('should pause the queue and list pending adjustments', async () => {
+    devtools = attachDevtools(controller);
+
+    button('pause')[0]!.click();
+    const first = controller.adjustHeight({ targetHeight: 300 });
+    controller.adjustHeight({ targetHeight: 500 }).catch(() => undefined);
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    expect(controller.isPaused).toBe(true);
+    expect(section('status')).toBe('height 0px · 2 pending · paused');
+    expect(section('queue')).toMatch(/Queue \(2\)· 300px · normal · waiting \d+ms· 500px/);
+
+    button('pause')[0]!.click();
+    await first;
+    expect(controller.isPaused).toBe(false);
+    expect(controller.getCurrentHeight()).toBe(300);
+  });
+
+  test('should replay an adjustment', async () => {
+    devtools = attachDevtools(controller);
+    await controller.adjustHeight({ targetHeight: 400 });
+    await controller.adjustHeight({ targetHeight: 700 }).catch(() => undefined);
+    await controller.adjustHeight({ targetHeight: 200 });
+
+    // 最新的记录在前：#3 200、#2 700（失败）、#1 400
+    button('replay')[1]!.click();
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    expect(controller.getCurrentHeight()).toBe(700);
+    expect(section('timeline')).toMatch(/^Timeline#4 200→700px completed/);
+  });
+
+  test('should collapse and detach', () => {
+    devtools = attachDevtools(controller, { collapsed: true, position: 'top-left' });
+
+    expect(devtools.host.shadowRoot!.querySelector('.panel.top-left.collapsed')).not.toBeNull();
+    expect(section('status')).toBe('');
+
+    button('collapse')[0]!.click();
+    expect(section('status')).toBe('height 0px · 0 pending');
+
+    devtools.detach();
+    expect(document.body.contains(devtools.host)).toBe(false);
+  });
+
+  test('should disable actions once the controller is disposed', () => {
+    devtools = attachDevtools(controller);
+
+    controller.dispose();
+
+    expect(section('status')).toContain('disposed');
+    expect(button('pause')[0]!.disabled).toBe(true);
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * @jest-environment jsdom
+ */
+
+/**
+ * @bagaking/dma-frame - React Bindings Tests
+ * Provider 生命周期、Hook 状态与 AutoHeight 测量
+ */
+
+import { StrictMode, act, createElement } from 'react';
+import type { ReactElement } from 'react';
+import { createRoot, type Root } from 'react-dom/client';
+import {
+  AutoHeight,
+  HeightControllerProvider,
+  useHeightController,
+  type UseHeightControllerResult
+} from '../src/react.js';
+import { CoreHeightController } from '../src/HeightController.js';
+import { PlatformBridge } from '../src/types.js';
+
+(globalThis as any).IS_REACT_ACT_ENVIRONMENT = true;
+
+function createBridge(delay = 0): PlatformBridge & { heights: number[] } {
+  const heights: number[] = [];
+  return {
+    heights,
+    async updateHeight(targetHeight: number): Promise<number> {
+      heights.push(targetHeight);
+      if (delay > 0) {
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+      return targetHeight;
+    }
+  };
+}
+
+describe('React bindings', () => {
+  let container: HTMLDivElement;
+  let root: Root;
+  let latest: UseHeightControllerResult | undefined;
+
+  function Probe(): null {
+    latest = useHeightController();
+    return null;
+  }
+
+  async function render(element: ReactElement): Promise<void> {
+    await act(async () => {
+      root.render(element);
+    });
+  }
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    document.body.appendChild(container);
+    root = createRoot(container);
+    latest = undefined;
+  });
+
+  afterEach(async () => {
+    await act(async () => {
+      root.unmount();
+    });
+    container.remove();
+  });
+
+  describe('HeightControllerProvider', () => {
+    test('should create the controller once and dispose it on unmount', async () => {
+      const controller = new CoreHeightController(createBridge());
+      const create = jest.fn(() => controller);
+
+      await render(createElement(HeightControllerProvider, { create }, createElement(Probe)));
+
+      expect(create).toHaveBeenCalledTimes(1);
+      expect(latest!.controller).toBe(controller);
+
+      await act(async () => {
+        root.unmount();
+      });
+      expect(controller.isDisposed).toBe(true);
+      root = createRoot(container);
+    });
+
+    test('should be StrictMode-safe and only keep the live controller', async () => {
+      const created: CoreHeightController[] = [];
+      const create = () => {
+        const controller = new CoreHeightController(createBridge());
+        created.push(controller);
+        return Promise.resolve(controller);
+      };
+
+      await render(createElement(StrictMode, null,
+        createElement(HeightControllerProvider, { create }, createElement(Probe))
+      ));
+
+      const live = latest!.controller;
+      expect(live).not.toBeNull();
+      expect(live!.isDisposed).toBe(false);
+      // 其余（StrictMode 首次挂载创建的）控制器都已被销毁
+      expect(created.filter(controller => controller !== live).every(c => c.isDisposed)).toBe(true);
+    });
+
+    test('should not dispose an externally owned controller', async () => {
+      const controller = new CoreHeightController(createBridge());
+
+      await render(createElement(HeightControllerProvider, { controller }, createElement(Probe)));
+      await act(async () => {
+        root.unmount();
+      });
+
+      expect(controller.isDisposed).toBe(false);
+      controller.dispose();
+      root = createRoot(container);
+    });
+
+    test('should expose creation errors', async () => {
+      const create = () => Promise.reject(new Error('No platform'));
+
+      await render(createElement(HeightControllerProvider, { create }, createElement(Probe)));
+
+      expect(latest!.controller).toBeNull();
+      expect((latest!.error as Error).message).toBe('No platform');
+    });
+  });
+
+  describe('useHeightController', () => {
+    test('should throw outside a provider', () => {
+      const spy = jest.spyOn(console, 'error').mockImplementation();
+
+      expect(() => act(() => {
+        root.render(createElement(Probe));
+      })).toThrow('useHeightController must be used inside <HeightControllerProvider>');
+
+      spy.mockRestore();
+    });
+
+    test('should track current height and pending state', async () => {
+      const controller = new CoreHeightController(createBridge(20));
+      await render(createElement(HeightControllerProvider, { controller }, createElement(Probe)));
+
+      expect(latest!.currentHeight).toBe(0);
+      expect(latest!.pending).toBe(false);
+
+      let adjustment!: Promise<unknown>;
+      await act(async () => {
+        adjustment = latest!.adjustHeight({ targetHeight: 480 });
+      });
+      expect(latest!.pending).toBe(true);
+
+      await act(async () => {
+        await adjustment;
+      });
+      expect(latest!.pending).toBe(false);
+      expect(latest!.currentHeight).toBe(480);
+
+      controller.dispose();
+    });
+
+    test('should reject adjustments before the controller is ready', async () => {
+      const create = () => new Promise<CoreHeightController>(() => {});
+      await render(createElement(HeightControllerProvider, { create }, createElement(Probe)));
+
+      await expect(latest!.adjustHeight({ targetHeight: 300 })).rejects.toThrow('not ready');
+    });
+  });
+
+  describe('AutoHeight', () => {
+    beforeEach(() => {
+      jest.spyOn(HTMLElement.prototype, 'getBoundingClientRect')
+        .mockReturnValue({ height: 360 } as DOMRect);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    test('should measure children and adjust the frame', async () => {
+      const bridge = createBridge();
+      const controller = new CoreHeightController(bridge);
+
+      await render(createElement(HeightControllerProvider, { controller },
+        createElement(AutoHeight, { className: 'content' }, createElement('p', null, 'Hello'))
+      ));
+      await act(async () => {
+        await Promise.resolve();
+      });
+
+      expect(container.querySelector('div.content p')?.textContent).toBe('Hello');
+      expect(bridge.heights).toEqual([360]);
+
+      controller.dispose();
+    });
+
+    test('should stop observing on unmount', async () => {
+      const controller = new CoreHeightController(createBridge());
+      const observe = jest.spyOn(controller, 'observe');
+
+      await render(createElement(HeightControllerProvider, { controller },
+        createElement(AutoHeight, { minHeight: 100 })
+      ));
+      const handle = observe.mock.results[0]!.value;
+
+      await render(createElement(HeightControllerProvider, { controller }));
+
+      expect(handle.isObserving).toBe(false);
+      controller.dispose();
+    });
+  });
+});
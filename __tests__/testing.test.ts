@@ -0,0 +1,104 @@
+/**
+ * @bagaking/dma-frame - Testing Entry Tests
+ * 记录型控制器与自定义断言
+ */
+
+import {
+  RecordingHeightController,
+  createSimulatedBridge,
+  heightMatchers,
+  type HeightMatchers
+} from '../src/testing.js';
+import { CoreHeightController } from '../src/HeightController.js';
+import { HeightControllerError } from '../src/types.js';
+
+declare global {
+  namespace jest {
+    interface Matchers<R> extends HeightMatchers<R> {}
+  }
+}
+
+expect.extend(heightMatchers);
+
+describe('@bagaking/dma-frame/testing', () => {
+  let controller: RecordingHeightController;
+
+  beforeEach(() => {
+    controller = new RecordingHeightController();
+  });
+
+  afterEach(() => {
+    controller.dispose();
+  });
+
+  describe('RecordingHeightController', () => {
+    test('should record bridge calls and UI callbacks per adjustment', async () => {
+      const onUIChange = jest.fn();
+
+      await controller.adjustHeight({ targetHeight: 500, onUIChange });
+      await controller.adjustHeight({ targetHeight: 300 });
+
+      expect(onUIChange).toHaveBeenCalledTimes(1);
+      expect(controller.timeline.map(entry => `${entry.adjustment}:${entry.kind}`)).toEqual([
+        '1:started', '1:bridge', '1:ui-change', '1:ui-complete',
+        '2:started', '2:ui-change', '2:ui-complete', '2:bridge'
+      ]);
+      expect(controller.bridgeHeights).toEqual([500, 300]);
+    });
+
+    test('should keep validating callbacks', async () => {
+      await expect(controller.adjustHeight({ targetHeight: 500, onUIChange: 'nope' as never }))
+        .rejects.toThrow(HeightControllerError);
+      await expect(controller.adjustHeight(null as never)).rejects.toThrow(HeightControllerError);
+    });
+
+    test('should forward the recorded bridge capabilities', async () => {
+      const clamped = new RecordingHeightController(createSimulatedBridge({ maxHeight: 400 }));
+
+      await clamped.adjustHeight({ targetHeight: 900 });
+
+      expect(clamped).toHaveAdjustedThrough([400]);
+      clamped.dispose();
+    });
+  });
+
+  describe('heightMatchers', () => {
+    test('toHaveAdjustedThrough', async () => {
+      await controller.adjustHeight({ targetHeight: 300 });
+      await controller.adjustHeight({ targetHeight: 500 });
+
+      expect(controller).toHaveAdjustedThrough([300, 500]);
+      expect(controller).not.toHaveAdjustedThrough([500]);
+      expect(controller.platformBridge).toHaveAdjustedThrough([300, 500]);
+      expect(() => expect(controller).toHaveAdjustedThrough([300])).toThrow('received [300, 500]');
+    });
+
+    test('toHaveCalledBridgeBeforeUI and toHaveCalledUIBeforeBridge', async () => {
+      await controller.adjustHeight({ targetHeight: 500 });
+      await controller.adjustHeight({ targetHeight: 200 });
+
+      expect(controller).toHaveCalledBridgeBeforeUI();
+      expect(controller).toHaveCalledUIBeforeBridge();
+    });
+
+    test('should fail ordering matchers without matching adjustments', async () => {
+      await controller.adjustHeight({ targetHeight: 500 });
+
+      expect(() => expect(controller).toHaveCalledUIBeforeBridge()).toThrow('no shrink adjustment was recorded');
+      expect(() => expect(new CoreHeightController(createSimulatedBridge())).toHaveCalledBridgeBeforeUI())
+        .toThrow('expected a RecordingHeightController');
+    });
+
+    test('toHaveSettledAt and toHaveNoPendingAdjustments', async () => {
+      const adjustment = controller.adjustHeight({ targetHeight: 400 });
+
+      expect(controller).not.toHaveNoPendingAdjustments();
+      expect(controller).not.toHaveSettledAt(400);
+
+      await adjustment;
+      expect(controller).toHaveSettledAt(400);
+      expect(controller).toHaveNoPendingAdjustments();
+      expect(() => expect(controller).toHaveSettledAt(500)).toThrow('received 400px with 0 pending adjustment(s)');
+    });
+  });
+});
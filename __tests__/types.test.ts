@@ -10,7 +10,9 @@ import {
   FRAMEWORK_CONSTANTS,
   DMAppFrameError,
   PlatformBridgeError,
-  HeightControllerError
+  HeightControllerError,
+  TimeoutError,
+  withTimeout
 } from '../src/types.js';
 
 describe('Framework Constants', () => {
@@ -218,4 +220,28 @@ describe('Error Classes', () => {
     expect(bridgeError instanceof Error).toBe(true);
     expect(controllerError instanceof Error).toBe(true);
   });
-});
\ No newline at end of file
+});
+
+describe('withTimeout', () => {
+  test('should resolve with the value when the operation settles in time', async () => {
+    await expect(withTimeout(Promise.resolve(42), 50, 'op')).resolves.toBe(42);
+  });
+
+  test('should reject with TimeoutError when the operation hangs', async () => {
+    const error = await withTimeout(new Promise(() => {}), 10, 'slowOp').catch(e => e) as TimeoutError;
+
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect(error.code).toBe('TIMEOUT');
+    expect(error.message).toBe('slowOp timed out after 10ms');
+  });
+
+  test('should pass through when timeout is disabled', async () => {
+    await expect(withTimeout(Promise.resolve('ok'), undefined, 'op')).resolves.toBe('ok');
+    await expect(withTimeout(Promise.resolve('ok'), 0, 'op')).resolves.toBe('ok');
+  });
+
+  test('should propagate the original rejection', async () => {
+    await expect(withTimeout(Promise.reject(new Error('boom')), 50, 'op'))
+      .rejects.toThrow('boom');
+  });
+});
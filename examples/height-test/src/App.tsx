@@ -1,5 +1,5 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { createFeishuHeightController, type HeightController } from '@bagaking/dma-frame';
+import { HeightControllerProvider, useHeightController } from '@bagaking/dma-frame/react';
 
 interface LogEntry {
   id: string;
@@ -9,14 +9,14 @@ interface LogEntry {
 }
 
 const HeightTest: React.FC = () => {
-  const [controller, setController] = useState<HeightController | null>(null);
-  const [currentHeight, setCurrentHeight] = useState(400);
+  // 控制器由 HeightControllerProvider 创建与销毁
+  const { controller, currentHeight, error, adjustHeight } = useHeightController();
   const [targetHeight, setTargetHeight] = useState(400);
   const [isLoading, setIsLoading] = useState(false);
   const [logs, setLogs] = useState<LogEntry[]>([]);
-  const [isInitialized, setIsInitialized] = useState(false);
   const [contentHeight, setContentHeight] = useState(400);
   const [isExpanding, setIsExpanding] = useState<boolean | null>(null);
+  const isInitialized = controller !== null;
   
   const containerRef = useRef<HTMLDivElement>(null);
 
@@ -30,40 +30,18 @@ const HeightTest: React.FC = () => {
     setLogs(prev => [...prev.slice(-19), logEntry]); // 保留最新20条
   }, []);
 
-  // 初始化控制器
+  // 记录控制器初始化结果
   useEffect(() => {
-    let mounted = true;
-    
-    const initController = async () => {
-      try {
-        addLog('🚀 初始化 DMAppFrame 高度控制器...', 'info');
-        const heightController = await createFeishuHeightController({ 
-          debug: true 
-        });
-        
-        if (mounted) {
-          setController(heightController);
-          setIsInitialized(true);
-          addLog('✅ 控制器初始化成功！', 'success');
-        }
-      } catch (error) {
-        if (mounted) {
-          const errorMsg = error instanceof Error ? error.message : '未知错误';
-          addLog(`❌ 控制器初始化失败: ${errorMsg}`, 'error');
-          console.error('Controller initialization failed:', error);
-        }
-      }
-    };
-
-    initController();
-
-    return () => {
-      mounted = false;
-      if (controller) {
-        controller.dispose?.();
-      }
-    };
-  }, [addLog]);
+    if (controller) {
+      addLog('✅ 控制器初始化成功！', 'success');
+    } else if (error) {
+      const errorMsg = error instanceof Error ? error.message : '未知错误';
+      addLog(`❌ 控制器初始化失败: ${errorMsg}`, 'error');
+      console.error('Controller initialization failed:', error);
+    } else {
+      addLog('🚀 初始化 DMAppFrame 高度控制器...', 'info');
+    }
+  }, [controller, error, addLog]);
 
   // 高度调整测试 - 增强版，展示延迟效果
   const testHeightAdjustment = useCallback(async (height: number, withDelay: boolean = true) => {
@@ -80,12 +58,11 @@ const HeightTest: React.FC = () => {
     addLog(`⚡ 策略: ${expanding ? 'UI组件先变，内容后填' : 'UI内容先变，组件后随'}`, 'info');
 
     try {
-      await controller.adjustHeight({
+      await adjustHeight({
         targetHeight: height,
         onUIChange: () => {
           if (expanding) {
-            // 扩展：组件高度先变
-            setCurrentHeight(height);
+            // 扩展：组件高度先变（currentHeight 由控制器更新）
             addLog(`📐 容器高度立即调整: ${height}px`, 'success');
             addLog(`⏳ 等待内容填充...`, 'info');
           } else {
@@ -105,8 +82,7 @@ const HeightTest: React.FC = () => {
             setContentHeight(height);
             addLog(`✨ 内容填充完成: ${height}px`, 'success');
           } else {
-            // 收缩：现在调整容器
-            setCurrentHeight(height);
+            // 收缩：现在调整容器（currentHeight 由控制器更新）
             addLog(`📐 容器高度调整完成: ${height}px`, 'success');
           }
         }
@@ -120,7 +96,7 @@ const HeightTest: React.FC = () => {
       setIsLoading(false);
       setIsExpanding(null);
     }
-  }, [controller, addLog, currentHeight]);
+  }, [controller, adjustHeight, addLog, currentHeight]);
 
   const handleSliderChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setTargetHeight(parseInt(e.target.value));
@@ -301,4 +277,10 @@ const HeightTest: React.FC = () => {
   );
 };
 
-export default HeightTest;
\ No newline at end of file
+const App: React.FC = () => (
+  <HeightControllerProvider options={{ debug: true }}>
+    <HeightTest />
+  </HeightControllerProvider>
+);
+
+export default App;
\ No newline at end of file
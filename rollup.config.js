@@ -1,12 +1,31 @@
 import typescript from '@rollup/plugin-typescript';
 
+// Public entry points: the core package and its subpaths
+const input = {
+  index: 'src/index.ts',
+  react: 'src/react.ts',
+  testing: 'src/testing.ts',
+  devtools: 'src/devtools.ts',
+};
+
+const external = (id) => {
+  // Mark peer dependencies and optional dependencies as external
+  return id === '@lark-opdev/block-docs-addon-api' ||
+    id.startsWith('@lark-opdev/') ||
+    id === 'react' ||
+    id.startsWith('react/');
+};
+
 export default [
   // CommonJS build
   {
-    input: 'src/index.ts',
+    input,
     output: {
-      file: 'dist/index.js',
+      dir: 'dist',
       format: 'cjs',
+      entryFileNames: '[name].js',
+      chunkFileNames: 'chunks/[name]-[hash].js',
+      exports: 'named',
       sourcemap: true,
     },
     plugins: [
@@ -17,29 +36,26 @@ export default [
         rootDir: './src'
       }),
     ],
-    external: (id) => {
-      // Mark peer dependencies and optional dependencies as external
-      return id === '@lark-opdev/block-docs-addon-api' || id.startsWith('@lark-opdev/');
-    },
+    external,
   },
   // ES Module build
   {
-    input: 'src/index.ts',
+    input,
     output: {
-      file: 'dist/index.esm.js',
+      dir: 'dist',
       format: 'esm',
+      entryFileNames: '[name].esm.js',
+      chunkFileNames: 'chunks/[name]-[hash].esm.js',
       sourcemap: true,
     },
     plugins: [
       typescript({
         tsconfig: './tsconfig.json',
         declaration: false, // Only generate declarations once
+        outDir: './dist',
         rootDir: './src'
       }),
     ],
-    external: (id) => {
-      // Mark peer dependencies and optional dependencies as external
-      return id === '@lark-opdev/block-docs-addon-api' || id.startsWith('@lark-opdev/');
-    },
+    external,
   },
-];
\ No newline at end of file
+];
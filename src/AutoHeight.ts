@@ -0,0 +1,183 @@
+/**
+ * DMAppFrame - Auto Height
+ * 自动高度模式：观察 DOM 元素尺寸变化，自动驱动 adjustHeight
+ */
+
+import type {
+  AutoHeightHandle,
+  AutoHeightOptions,
+  HeightController
+} from './types.js';
+import { FRAMEWORK_CONSTANTS, HeightControllerError } from './types.js';
+
+/** Default debounce window for bursts of resize/mutation notifications */
+const DEFAULT_DEBOUNCE_MS = 50;
+
+/**
+ * Measure the height an element needs from the frame
+ * 测量元素所需的高度，按 box 选项处理 padding / border / margin
+ *
+ * @param element - Element to measure
+ * @param box - Which box to measure (default: `'margin-box'`)
+ * @returns Height in whole pixels (rounded up)
+ */
+export function measureElementHeight(
+  element: Element,
+  box: NonNullable<AutoHeightOptions['box']> = 'margin-box'
+): number {
+  const borderBoxHeight = element.getBoundingClientRect().height;
+  const view = element.ownerDocument?.defaultView;
+
+  if (!view || box === 'border-box') {
+    return Math.ceil(borderBoxHeight);
+  }
+
+  const style = view.getComputedStyle(element);
+  const px = (value: string): number => parseFloat(value) || 0;
+
+  if (box === 'content-box') {
+    const insets = px(style.paddingTop) + px(style.paddingBottom) +
+      px(style.borderTopWidth) + px(style.borderBottomWidth);
+    return Math.ceil(Math.max(0, borderBoxHeight - insets));
+  }
+
+  return Math.ceil(borderBoxHeight + px(style.marginTop) + px(style.marginBottom));
+}
+
+/**
+ * 将测量值限制在 min/max 以及框架合理范围内
+ */
+function clampHeight(height: number, options: AutoHeightOptions): number {
+  const min = Math.max(options.minHeight ?? 0, FRAMEWORK_CONSTANTS.MIN_REASONABLE_HEIGHT);
+  const max = Math.min(options.maxHeight ?? Infinity, FRAMEWORK_CONSTANTS.MAX_REASONABLE_HEIGHT);
+  return Math.min(Math.max(height, min), max);
+}
+
+/**
+ * Observe an element and keep the frame height in sync with it
+ * 观察元素尺寸变化（ResizeObserver + MutationObserver），防抖后送入控制器的串行队列
+ *
+ * Measured heights go through `controller.adjustHeight`, so the usual
+ * expand/shrink ordering and serialization apply unchanged.
+ *
+ * @param controller - Controller receiving the measured heights
+ * @param element - Element whose height drives the frame
+ * @param options - Measurement, bounds and debounce configuration
+ * @returns Handle used to stop observing
+ *
+ * @throws {HeightControllerError} When bounds are inconsistent
+ *
+ * @example
+ * ```typescript
+ * const handle = observeElementHeight(controller, document.getElementById('root')!, {
+ *   minHeight: 200,
+ *   maxHeight: 1200
+ * });
+ *
+ * // Later
+ * handle.disconnect();
+ * ```
+ */
+export function observeElementHeight(
+  controller: HeightController,
+  element: Element,
+  options: AutoHeightOptions = {}
+): AutoHeightHandle {
+  const {
+    debounceMs = DEFAULT_DEBOUNCE_MS,
+    box = 'margin-box',
+    observeMutations = true
+  } = options;
+
+  if (options.minHeight !== undefined && options.maxHeight !== undefined &&
+      options.minHeight > options.maxHeight) {
+    throw new HeightControllerError(
+      `Invalid auto height bounds: minHeight ${options.minHeight} exceeds maxHeight ${options.maxHeight}`
+    );
+  }
+
+  let observing = true;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let lastQueuedHeight: number | undefined;
+
+  const view = element.ownerDocument?.defaultView;
+  const ResizeObserverCtor = view?.ResizeObserver ?? globalThis.ResizeObserver;
+  const MutationObserverCtor = view?.MutationObserver ?? globalThis.MutationObserver;
+
+  const flush = (): void => {
+    timer = undefined;
+    if (!observing) {
+      return;
+    }
+    if (controller.isDisposed) {
+      handle.disconnect();
+      return;
+    }
+
+    const height = clampHeight(measureElementHeight(element, box), options);
+    if (height === lastQueuedHeight) {
+      return;
+    }
+    lastQueuedHeight = height;
+
+    controller.adjustHeight({
+      targetHeight: height,
+      ...(options.onUIChange && { onUIChange: () => options.onUIChange!(height) }),
+      ...(options.onUIComplete && { onUIComplete: () => options.onUIComplete!(height) })
+    }).catch(() => {
+      // 控制器已销毁等情况下静默忽略，下一次测量会重新入队
+      lastQueuedHeight = undefined;
+    });
+  };
+
+  const schedule = (): void => {
+    if (!observing) {
+      return;
+    }
+    if (timer !== undefined) {
+      clearTimeout(timer);
+    }
+    timer = setTimeout(flush, debounceMs);
+  };
+
+  const resizeObserver = ResizeObserverCtor ? new ResizeObserverCtor(schedule) : undefined;
+  resizeObserver?.observe(element);
+
+  const mutationObserver = observeMutations && MutationObserverCtor
+    ? new MutationObserverCtor(schedule)
+    : undefined;
+  mutationObserver?.observe(element, {
+    childList: true,
+    subtree: true,
+    attributes: true,
+    characterData: true
+  });
+
+  const handle: AutoHeightHandle = {
+    disconnect(): void {
+      if (!observing) {
+        return;
+      }
+      observing = false;
+      if (timer !== undefined) {
+        clearTimeout(timer);
+        timer = undefined;
+      }
+      resizeObserver?.disconnect();
+      mutationObserver?.disconnect();
+    },
+
+    remeasure(): void {
+      schedule();
+    },
+
+    get isObserving(): boolean {
+      return observing;
+    }
+  };
+
+  // 初始测量：立即同步一次当前内容高度
+  flush();
+
+  return handle;
+}
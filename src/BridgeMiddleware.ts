@@ -0,0 +1,263 @@
+/**
+ * DMAppFrame - Bridge Middleware
+ * 围绕 PlatformBridge.updateHeight 的可组合中间件：限频、去重、限幅、按设备像素取整与结构化日志
+ *
+ * 每个中间件接收下一层桥接并返回新的桥接，契约不变，因此控制器无需感知中间件的存在
+ */
+
+import type { BridgeCapabilities, LogFields, Logger, PlatformBridge } from './types.js';
+import { HeightControllerError } from './types.js';
+
+/**
+ * Wraps the next bridge in the pipeline and returns a bridge with the same contract
+ */
+export type BridgeMiddleware = (next: PlatformBridge) => PlatformBridge;
+
+/**
+ * Compose middlewares around a bridge
+ * 第一个中间件在最外层：最先看到调用，最后看到结果
+ * 中间件未返回的方法（updateWidth、updateMode、getCapabilities 等）从下一层透传，FrameBridge 组合后仍可调整宽度与模式
+ *
+ * @param base - Bridge talking to the platform
+ * @param middlewares - Middlewares, outermost first
+ * @returns A PlatformBridge running every call through the middlewares
+ *
+ * @example
+ * ```typescript
+ * const bridge = composeBridge(
+ *   await createFeishuBridge(),
+ *   logBridgeCalls(logger),
+ *   dedupeHeights(),
+ *   throttleUpdates(),
+ *   clampHeights(),
+ *   roundToDevicePixels(),
+ *   next => withRetry(next, { maxAttempts: 3 })
+ * );
+ * const controller = new CoreHeightController(bridge);
+ * ```
+ */
+export function composeBridge(base: PlatformBridge, ...middlewares: readonly BridgeMiddleware[]): PlatformBridge {
+  return middlewares.reduceRight<PlatformBridge>(
+    (bridge, middleware) => passThrough(bridge, middleware(bridge)),
+    base
+  );
+}
+
+/**
+ * wrapped 上没有的方法与属性从 next 读取（方法绑定到 next）
+ */
+function passThrough(next: PlatformBridge, wrapped: PlatformBridge): PlatformBridge {
+  if (wrapped === next) {
+    return wrapped;
+  }
+  return new Proxy(wrapped, {
+    get: (target, property, receiver) => {
+      if (property in target) {
+        return Reflect.get(target, property, receiver);
+      }
+      const value: unknown = Reflect.get(next, property);
+      return typeof value === 'function' ? value.bind(next) : value;
+    },
+    has: (target, property) => property in target || property in next
+  });
+}
+
+/**
+ * 以新的 updateHeight 包装下一层，其它方法原样透传
+ */
+function wrap(next: PlatformBridge, updateHeight: (targetHeight: number) => Promise<number>): PlatformBridge {
+  return passThrough(next, { updateHeight });
+}
+
+/**
+ * 读取下一层的能力（只查询一次）；查询失败视为没有上报能力
+ */
+function capabilitiesOf(next: PlatformBridge): () => Promise<BridgeCapabilities | undefined> {
+  let capabilities: Promise<BridgeCapabilities | undefined> | undefined;
+  return () => {
+    capabilities ??= Promise.resolve()
+      .then(() => next.getCapabilities?.())
+      .catch(() => undefined);
+    return capabilities;
+  };
+}
+
+/**
+ * Options of `throttleUpdates`
+ */
+export interface ThrottleOptions {
+  /** Minimum interval between calls in milliseconds (default: the bridge's preferredUpdateIntervalMs, otherwise 0) */
+  readonly intervalMs?: number;
+}
+
+/**
+ * Space calls at least `intervalMs` apart, in call order
+ * 调用按顺序排队，距上一次调用不足间隔时等待；不丢弃任何调用
+ *
+ * @throws {HeightControllerError} When intervalMs is negative
+ */
+export function throttleUpdates(options: ThrottleOptions = {}): BridgeMiddleware {
+  const { intervalMs } = options;
+  if (intervalMs !== undefined && !(Number.isFinite(intervalMs) && intervalMs >= 0)) {
+    throw new HeightControllerError(`Invalid throttle intervalMs: ${intervalMs}. Must be a non-negative finite number`);
+  }
+
+  return next => {
+    const capabilities = capabilitiesOf(next);
+    let lastCallAt = -Infinity;
+    let previous: Promise<unknown> = Promise.resolve();
+
+    return wrap(next, targetHeight => {
+      const call = previous.then(async () => {
+        const interval = intervalMs ?? (await capabilities())?.preferredUpdateIntervalMs ?? 0;
+        const wait = lastCallAt + interval - Date.now();
+        if (wait > 0) {
+          await new Promise(resolve => setTimeout(resolve, wait));
+        }
+        lastCallAt = Date.now();
+        return next.updateHeight(targetHeight);
+      });
+      previous = call.catch(() => undefined);
+      return call;
+    });
+  };
+}
+
+/**
+ * Skip calls whose height equals the last applied height
+ * 跳过的调用直接返回上一次平台应用的高度；调用失败后不再视为已应用
+ */
+export function dedupeHeights(): BridgeMiddleware {
+  return next => {
+    let lastApplied: number | undefined;
+
+    return wrap(next, async targetHeight => {
+      if (targetHeight === lastApplied) {
+        return lastApplied;
+      }
+      try {
+        lastApplied = await next.updateHeight(targetHeight);
+        return lastApplied;
+      } catch (error) {
+        lastApplied = undefined;
+        throw error;
+      }
+    });
+  };
+}
+
+/**
+ * Options of `clampHeights`
+ */
+export interface ClampOptions {
+  /** Lower bound (default: the bridge's capabilities.minHeight) */
+  readonly minHeight?: number;
+
+  /** Upper bound (default: the bridge's capabilities.maxHeight) */
+  readonly maxHeight?: number;
+}
+
+/**
+ * Clamp requested heights to platform limits before they reach the platform
+ * 显式边界优先于下一层上报的能力；合并后的边界同样通过 getCapabilities 上报
+ *
+ * @throws {HeightControllerError} When minHeight exceeds maxHeight
+ */
+export function clampHeights(options: ClampOptions = {}): BridgeMiddleware {
+  const { minHeight, maxHeight } = options;
+  if (minHeight !== undefined && maxHeight !== undefined && minHeight > maxHeight) {
+    throw new HeightControllerError(`Invalid clamp bounds: minHeight ${minHeight} exceeds maxHeight ${maxHeight}`);
+  }
+
+  return next => {
+    const capabilities = capabilitiesOf(next);
+    const bounds = async (): Promise<BridgeCapabilities> => {
+      const reported = await capabilities();
+      const min = minHeight ?? reported?.minHeight;
+      const max = maxHeight ?? reported?.maxHeight;
+      return {
+        dynamicHeight: true,
+        resizableWidth: false,
+        ...reported,
+        ...(min !== undefined && { minHeight: min }),
+        ...(max !== undefined && { maxHeight: max })
+      };
+    };
+
+    return passThrough(next, {
+      async updateHeight(targetHeight: number): Promise<number> {
+        const { minHeight: min = -Infinity, maxHeight: max = Infinity } = await bounds();
+        return next.updateHeight(Math.min(Math.max(targetHeight, min), max));
+      },
+
+      ...((next.getCapabilities || minHeight !== undefined || maxHeight !== undefined) && {
+        getCapabilities: bounds
+      })
+    });
+  };
+}
+
+/**
+ * Options of `roundToDevicePixels`
+ */
+export interface RoundOptions {
+  /** Device pixel ratio (default: `globalThis.devicePixelRatio` at call time, otherwise 1) */
+  readonly devicePixelRatio?: number;
+}
+
+/**
+ * Round requested heights to whole device pixels, avoiding blurry edges on fractional heights
+ *
+ * @throws {HeightControllerError} When devicePixelRatio is not positive
+ */
+export function roundToDevicePixels(options: RoundOptions = {}): BridgeMiddleware {
+  const { devicePixelRatio } = options;
+  if (devicePixelRatio !== undefined && !(Number.isFinite(devicePixelRatio) && devicePixelRatio > 0)) {
+    throw new HeightControllerError(`Invalid devicePixelRatio: ${devicePixelRatio}. Must be a positive number`);
+  }
+
+  return next => wrap(next, targetHeight => {
+    const ratio = devicePixelRatio ?? (globalThis.devicePixelRatio || 1);
+    return next.updateHeight(Math.round(targetHeight * ratio) / ratio);
+  });
+}
+
+/**
+ * Log every call with its result or error as structured entries
+ * 调用与结果记为 debug，错误记为 error，附带调用序号与耗时
+ *
+ * @param logger - Logger receiving the entries
+ * @param fields - Fields added to every entry
+ */
+export function logBridgeCalls(logger: Logger, fields: LogFields = {}): BridgeMiddleware {
+  return next => {
+    let calls = 0;
+
+    return wrap(next, async targetHeight => {
+      const call = ++calls;
+      const startedAt = Date.now();
+      logger.debug(`updateHeight(${targetHeight})`, { ...fields, call, toHeight: targetHeight });
+
+      try {
+        const appliedHeight = await next.updateHeight(targetHeight);
+        logger.debug(`updateHeight(${targetHeight}) applied ${appliedHeight}px`, {
+          ...fields,
+          call,
+          toHeight: targetHeight,
+          appliedHeight,
+          durationMs: Date.now() - startedAt
+        });
+        return appliedHeight;
+      } catch (error) {
+        logger.error(`updateHeight(${targetHeight}) failed`, {
+          ...fields,
+          call,
+          toHeight: targetHeight,
+          durationMs: Date.now() - startedAt,
+          error
+        });
+        throw error;
+      }
+    });
+  };
+}
@@ -0,0 +1,95 @@
+/**
+ * DMAppFrame - Typed Event Emitter
+ * 极简类型安全事件分发：监听器异常被隔离，不影响调用方
+ */
+
+/**
+ * Typed event emitter keyed by an event map
+ *
+ * @example
+ * ```typescript
+ * const emitter = new TypedEventEmitter<{ resize: { height: number } }>();
+ * const off = emitter.on('resize', ({ height }) => console.log(height));
+ * emitter.emit('resize', { height: 400 });
+ * off();
+ * ```
+ */
+export class TypedEventEmitter<Events extends object> {
+  private readonly handlers = new Map<keyof Events, Set<(payload: never) => void>>();
+
+  /**
+   * @param onHandlerError - Receives errors thrown by handlers (default: ignored)
+   */
+  constructor(
+    private readonly onHandlerError?: (error: unknown, event: keyof Events) => void
+  ) {}
+
+  /**
+   * Register a handler
+   * @returns Function removing the handler
+   */
+  on<K extends keyof Events>(event: K, handler: (payload: Events[K]) => void): () => void {
+    let set = this.handlers.get(event);
+    if (!set) {
+      set = new Set();
+      this.handlers.set(event, set);
+    }
+    set.add(handler);
+    return () => this.off(event, handler);
+  }
+
+  /**
+   * Register a handler that runs at most once
+   * @returns Function removing the handler
+   */
+  once<K extends keyof Events>(event: K, handler: (payload: Events[K]) => void): () => void {
+    const off = this.on(event, payload => {
+      off();
+      handler(payload);
+    });
+    return off;
+  }
+
+  /**
+   * Remove a handler
+   */
+  off<K extends keyof Events>(event: K, handler: (payload: Events[K]) => void): void {
+    const set = this.handlers.get(event);
+    set?.delete(handler);
+    if (set?.size === 0) {
+      this.handlers.delete(event);
+    }
+  }
+
+  /**
+   * Dispatch an event to all handlers registered at call time
+   */
+  emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+    const set = this.handlers.get(event);
+    if (!set) {
+      return;
+    }
+
+    for (const handler of [...set] as Array<(payload: Events[K]) => void>) {
+      try {
+        handler(payload);
+      } catch (error) {
+        this.onHandlerError?.(error, event);
+      }
+    }
+  }
+
+  /**
+   * Number of handlers registered for an event
+   */
+  listenerCount(event: keyof Events): number {
+    return this.handlers.get(event)?.size ?? 0;
+  }
+
+  /**
+   * Remove every handler
+   */
+  clear(): void {
+    this.handlers.clear();
+  }
+}
@@ -6,8 +6,20 @@
  * 高度通过 app.json 中的 initialHeight 字段静态设置
  */
 
-import type { PlatformBridge } from './types.js';
+import type { BridgeCapabilities, Logger, PlatformBridge } from './types.js';
 import { PlatformBridgeError, generateDebugId } from './types.js';
+import { resolveLogger, withLogFields } from './Logger.js';
+
+/**
+ * Feishu bridge options
+ */
+export interface FeishuBridgeOptions {
+  /** Enable debug logging to the console (ignored when `logger` is set) */
+  debug?: boolean;
+  
+  /** Logger receiving structured log entries */
+  logger?: Logger;
+}
 
 /**
  * 飞书文档插件桥接器
@@ -15,18 +27,37 @@ import { PlatformBridgeError, generateDebugId } from './types.js';
  */
 export class FeishuPlatformBridge implements PlatformBridge {
   private readonly debugId = generateDebugId('FeishuDocsAddonBridge');
+  private readonly logger: Logger;
 
+  /**
+   * @param docMiniApp - DocMiniApp instance from BlockitClient
+   * @param options - Bridge options, or a boolean enabling debug logging (legacy form)
+   */
   constructor(
     private readonly docMiniApp: any, // DocMiniApp from @lark-opdev/block-docs-addon-api
-    private readonly debug = false
+    options: FeishuBridgeOptions | boolean = false
   ) {
-    // 文档插件不需要检查 Bridge.updateHeight API，因为它不存在
-    if (this.debug) {
-      console.log(`[${this.debugId}] Feishu docs addon bridge initialized`);
-      console.warn(`[${this.debugId}] 文档插件不支持动态高度调整，高度由 app.json initialHeight 决定`);
+    const resolved = typeof options === 'boolean' ? { debug: options } : options;
+    this.logger = withLogFields(resolveLogger(resolved), { debugId: this.debugId, platform: 'feishu' });
+
+    this.logger.debug('Feishu docs addon bridge initialized');
+    // 与 getCapabilities() 使用同一判断，提供 Bridge.updateHeight 时无需告警
+    if (!this.getCapabilities().dynamicHeight) {
+      this.logger.warn('Docs addon has no dynamic height API; height is fixed by initialHeight in app.json');
     }
   }
 
+  /**
+   * 平台能力：只有 DocMiniApp 提供 Bridge.updateHeight 时才支持动态高度
+   * 不支持时控制器跳过桥接调用，应用可改用框内滚动布局
+   */
+  getCapabilities(): BridgeCapabilities {
+    return {
+      dynamicHeight: typeof this.docMiniApp.Bridge?.updateHeight === 'function',
+      resizableWidth: false
+    };
+  }
+
   /**
    * 更新组件高度 - 调用DocMiniApp Bridge API
    */
@@ -38,35 +69,29 @@ export class FeishuPlatformBridge implements PlatformBridge {
       );
     }
 
-    if (this.debug) {
-      console.log(`[${this.debugId}] 更新高度到 ${targetHeight}px`);
-    }
+    this.logger.debug(`Updating height to ${targetHeight}px`, { toHeight: targetHeight });
 
     try {
       // 检查Bridge API是否可用
       if (!this.docMiniApp.Bridge?.updateHeight) {
-        if (this.debug) {
-          console.warn(`[${this.debugId}] DocMiniApp.Bridge.updateHeight not available, using fallback`);
-        }
+        this.logger.warn('DocMiniApp.Bridge.updateHeight not available, using fallback', {
+          toHeight: targetHeight
+        });
         return targetHeight; // 降级处理
       }
 
       // 调用真实的Bridge API
       await this.docMiniApp.Bridge.updateHeight(targetHeight);
       
-      if (this.debug) {
-        console.log(`[${this.debugId}] ✅ 高度更新成功: ${targetHeight}px`);
-      }
+      this.logger.debug(`Height updated: ${targetHeight}px`, { toHeight: targetHeight });
       
       return targetHeight;
     } catch (error) {
-      if (this.debug) {
-        console.error(`[${this.debugId}] ❌ 高度更新失败:`, error);
-      }
+      this.logger.error(`Height update failed: ${targetHeight}px`, { toHeight: targetHeight, error });
       throw new PlatformBridgeError(
         `Failed to update height to ${targetHeight}px: ${error}`,
         'feishu'
       );
     }
   }
-}
\ No newline at end of file
+}
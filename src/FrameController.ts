@@ -0,0 +1,848 @@
+/**
+ * DMAppFrame - Frame Controller
+ * 帧尺寸控制器：在高度控制器之上扩展宽度与布局模式
+ * 每个轴独立判断方向：变大的轴在 UI 变化前应用，变小的轴在 UI 完成后应用
+ */
+
+import type {
+  AdjustOptions,
+  AdjustmentResult,
+  AdjustmentStatus,
+  AutoHeightHandle,
+  AutoHeightOptions,
+  BridgeCapabilities,
+  FailurePolicy,
+  FrameAdjustmentResult,
+  FrameAxis,
+  FrameBehavior,
+  FrameBridge,
+  FrameController,
+  FrameControllerOptions,
+  FrameMode,
+  FrameSize,
+  HeightAdjustmentBehavior,
+  HeightControllerEvents,
+  Logger,
+  QueuePolicy
+} from './types.js';
+import {
+  AdjustmentCancelledError,
+  DMAppFrameError,
+  FRAMEWORK_CONSTANTS,
+  HeightControllerError,
+  PlatformBridgeError,
+  UICallbackError,
+  generateDebugId,
+  withTimeout
+} from './types.js';
+import {
+  CoreHeightController,
+  DEFAULT_COALESCE_WINDOW_MS,
+  priorityRank,
+  validateHeightBehavior
+} from './HeightController.js';
+import { observeElementHeight } from './AutoHeight.js';
+import { withRetry } from './RetryBridge.js';
+import { TypedEventEmitter } from './EventEmitter.js';
+import { resolveLogger, withLogFields } from './Logger.js';
+
+/** 布局模式从窄到宽的顺序，用于判断扩展还是收缩 */
+const MODE_ORDER: Record<FrameMode, number> = {
+  'inline': 0,
+  'wide': 1,
+  'full-width': 2
+};
+
+/** 由帧控制器自己应用的轴（高度交给高度控制器） */
+type SideAxis = 'width' | 'mode';
+
+/**
+ * 后到的调整请求了先到调整的全部轴时才能取代它，否则被取代的轴会丢失
+ */
+function coversAxes(later: FrameBehavior, earlier: FrameBehavior): boolean {
+  return (earlier.width === undefined || later.width !== undefined)
+    && (earlier.height === undefined || later.height !== undefined)
+    && (earlier.mode === undefined || later.mode !== undefined);
+}
+
+/**
+ * 队列中的帧调整
+ */
+interface PendingFrameAdjustment {
+  readonly behavior: FrameBehavior;
+  readonly options: AdjustOptions;
+  readonly resolve: (result: FrameAdjustmentResult) => void;
+  readonly reject: (error: unknown) => void;
+  readonly enqueuedAt: number;
+  settled: boolean;
+  /** 排队期间被更高优先级调整插队的次数 */
+  overtaken: number;
+  /** 移除 AbortSignal 监听 */
+  detach?: () => void;
+}
+
+/**
+ * 单次帧调整的执行状态
+ */
+interface FrameExecution {
+  readonly from: FrameSize;
+  readonly startedAt: number;
+  readonly policy: FailurePolicy;
+  readonly applied: FrameAxis[];
+  readonly skipped: FrameAxis[];
+  uiChanged: boolean;
+  error?: DMAppFrameError;
+  rolledBack: boolean;
+}
+
+/**
+ * Core frame controller implementation
+ * 高度轴完全复用 CoreHeightController（失败策略、重试、能力协商、事件）；
+ * 宽度与布局模式由本控制器在高度调整前后应用。帧调整串行执行，
+ * 队列策略（latest-wins / coalesce-by-window）与 supersedeLowerPriority 作用于帧队列
+ *
+ * @example
+ * ```typescript
+ * const frame = new CoreFrameController(bridge, { initialMode: 'inline' });
+ *
+ * await frame.adjustFrame({
+ *   mode: 'full-width',
+ *   height: 900,
+ *   onUIChange: () => setLayout('full-width')
+ * });
+ * ```
+ */
+export class CoreFrameController implements FrameController {
+  private readonly heightController: CoreHeightController;
+  private readonly debugId = generateDebugId('FrameController');
+  private readonly logger: Logger;
+  private readonly failurePolicy: FailurePolicy;
+  private readonly queuePolicy: QueuePolicy;
+  private readonly coalesceWindowMs: number | undefined;
+  private readonly events = new TypedEventEmitter<
+    Pick<HeightControllerEvents, 'pending-changed' | 'superseded' | 'reordered'>
+  >();
+  private readonly frameListeners = new Set<(size: FrameSize) => void>();
+  private readonly observers = new Set<AutoHeightHandle>();
+  private readonly queue: PendingFrameAdjustment[] = [];
+  private inFlight: PendingFrameAdjustment | undefined;
+  private executing = false;
+  private pendingCount = 0;
+  private width: number | undefined;
+  private mode: FrameMode | undefined;
+  private _isDisposed = false;
+  /** 应用宽度与模式的桥接：与高度轴施加相同的重试与超时 */
+  private readonly bridge: FrameBridge;
+  /** 未配置重试时由控制器直接施加的超时（配置重试时按次施加） */
+  private readonly bridgeTimeoutMs: number | undefined;
+
+  /**
+   * @param bridge - Bridge applying frame sizes; width and mode need `updateWidth` / `updateMode`
+   * @param options - Height controller options plus the initial width and mode, or a boolean enabling debug logging
+   */
+  constructor(
+    bridge: FrameBridge,
+    options: FrameControllerOptions | boolean = {}
+  ) {
+    const resolved = typeof options === 'boolean' ? { debug: options } : options;
+    this.logger = withLogFields(resolveLogger(resolved), { debugId: this.debugId });
+    this.failurePolicy = resolved.failurePolicy ?? 'keep-ui';
+    this.queuePolicy = resolved.queuePolicy ?? 'serial';
+    this.coalesceWindowMs = resolved.coalesceWindowMs;
+    this.width = resolved.initialWidth;
+    this.mode = resolved.initialMode;
+    // 高度控制器自行包装重试，这里只包装宽度与模式的调用；
+    // 帧队列每次只交给它一个行为，队列策略由帧队列执行
+    this.heightController = new CoreHeightController(bridge, { ...resolved, queuePolicy: 'serial' });
+
+    if (resolved.retry) {
+      this.bridge = withRetry(bridge, {
+        ...(resolved.bridgeTimeoutMs !== undefined && { timeoutMs: resolved.bridgeTimeoutMs }),
+        ...resolved.retry
+      });
+      this.bridgeTimeoutMs = undefined;
+    } else {
+      this.bridge = bridge;
+      this.bridgeTimeoutMs = resolved.bridgeTimeoutMs;
+    }
+
+    // 高度变化同样是帧尺寸变化
+    this.heightController.subscribe(() => this.notifyFrameListeners());
+  }
+
+  /**
+   * 调整帧尺寸：任意组合宽度、高度与布局模式
+   *
+   * @param behavior - Target size and UI callbacks; omitted axes are left unchanged
+   * @param options - Per-call options (signal, failurePolicy, supersedeLowerPriority)
+   * @returns Promise settling after this behavior has been processed
+   *
+   * @throws {HeightControllerError} When controller is disposed or parameters are invalid
+   * @throws {AdjustmentCancelledError} When aborted via signal or the controller is disposed before completion
+   * @throws {PlatformBridgeError | UICallbackError} When a step fails under the 'throw' failure policy
+   */
+  async adjustFrame(behavior: FrameBehavior, options: AdjustOptions = {}): Promise<FrameAdjustmentResult> {
+    this.ensureNotDisposed();
+    this.validateFrameBehavior(behavior);
+
+    if (options.signal?.aborted) {
+      throw new AdjustmentCancelledError(behavior.height ?? 0, 'aborted');
+    }
+
+    // latest-wins：取代同级及更低优先级中尚未开始的调整
+    // supersedeLowerPriority：取代更低优先级中尚未开始的调整
+    const rank = priorityRank(behavior);
+    if (this.queuePolicy === 'latest-wins') {
+      this.supersedePending(pending => priorityRank(pending.behavior) <= rank && coversAxes(behavior, pending.behavior));
+    } else if (options.supersedeLowerPriority) {
+      this.supersedePending(pending => priorityRank(pending.behavior) < rank && coversAxes(behavior, pending.behavior));
+    }
+
+    const completion = new Promise<FrameAdjustmentResult>((resolve, reject) => {
+      const entry: PendingFrameAdjustment = {
+        behavior,
+        options,
+        resolve,
+        reject,
+        enqueuedAt: Date.now(),
+        settled: false,
+        overtaken: 0
+      };
+
+      const { signal } = options;
+      if (signal) {
+        const onAbort = (): void => this.handleAbort(entry);
+        signal.addEventListener('abort', onAbort, { once: true });
+        entry.detach = () => signal.removeEventListener('abort', onAbort);
+      }
+
+      this.enqueue(entry);
+    });
+
+    this.setPendingCount(this.pendingCount + 1);
+    if (!this.executing) {
+      void this.processQueue();
+    }
+
+    return completion;
+  }
+
+  /**
+   * 高度接口：作为只含高度的帧调整执行，与帧调整共享同一串行队列
+   */
+  async adjustHeight(
+    behavior: HeightAdjustmentBehavior,
+    options: AdjustOptions = {}
+  ): Promise<AdjustmentResult> {
+    validateHeightBehavior(behavior);
+
+    // 其余字段（过渡、优先级、时序、onHeightClamped 等）原样交给高度轴
+    const { targetHeight, onRollback, ...heightFields } = behavior;
+    const result = await this.adjustFrame({
+      ...heightFields,
+      height: targetHeight,
+      ...(onRollback && { onRollback: (size: FrameSize) => onRollback(size.height ?? 0) })
+    }, options);
+
+    return result.height!;
+  }
+
+  /**
+   * 与高度控制器相同的优先级：排在第一个更低优先级的调整之前
+   * 被插队的调整计数并发出 reordered 事件
+   */
+  private enqueue(entry: PendingFrameAdjustment): void {
+    const rank = priorityRank(entry.behavior);
+    const index = this.queue.findIndex(pending => priorityRank(pending.behavior) < rank);
+    if (index === -1) {
+      this.queue.push(entry);
+      return;
+    }
+
+    const overtakenBy = {
+      targetHeight: this.targetHeightOf(entry.behavior),
+      priority: entry.behavior.priority ?? 'normal'
+    };
+    const overtaken = this.queue.slice(index);
+    this.queue.splice(index, 0, entry);
+    for (const pending of overtaken) {
+      pending.overtaken++;
+      this.events.emit('reordered', {
+        targetHeight: this.targetHeightOf(pending.behavior),
+        priority: pending.behavior.priority ?? 'normal',
+        overtakenBy
+      });
+    }
+  }
+
+  private async processQueue(): Promise<void> {
+    this.executing = true;
+
+    while (this.queue.length > 0 && !this._isDisposed) {
+      if (this.queuePolicy === 'coalesce-by-window') {
+        await this.waitForCoalesceWindow();
+        // 同一优先级中，被后到调整覆盖全部轴的调整只保留最后一个
+        this.supersedePending((pending, index, queue) =>
+          queue.some((later, laterIndex) =>
+            laterIndex > index
+            && priorityRank(later.behavior) === priorityRank(pending.behavior)
+            && coversAxes(later.behavior, pending.behavior)));
+        // 等待期间可能已被中止或销毁
+        if (this.queue.length === 0 || this._isDisposed) {
+          continue;
+        }
+      }
+
+      const entry = this.queue.shift()!;
+      this.inFlight = entry;
+      try {
+        this.settle(entry, await this.executeFrame(entry));
+      } catch (error) {
+        this.fail(entry, error);
+      } finally {
+        this.inFlight = undefined;
+      }
+    }
+
+    this.executing = false;
+  }
+
+  private async executeFrame(entry: PendingFrameAdjustment): Promise<FrameAdjustmentResult> {
+    const { behavior, options } = entry;
+    this.checkpoint(entry);
+
+    const capabilities = await this.heightController.getCapabilities();
+    this.checkpoint(entry);
+
+    const execution: FrameExecution = {
+      from: this.getFrameSize(),
+      startedAt: Date.now(),
+      policy: options.failurePolicy ?? this.failurePolicy,
+      applied: [],
+      skipped: [],
+      uiChanged: false,
+      rolledBack: false
+    };
+    const { growing, shrinking } = this.planSideAxes(behavior, execution.from);
+
+    this.logger.debug('Processing frame adjustment', {
+      from: execution.from,
+      to: { width: behavior.width, height: behavior.height, mode: behavior.mode }
+    });
+
+    // 1. 变大的轴先行
+    if (!await this.runSideAxes(growing, behavior, execution, capabilities)) {
+      return this.createResult(behavior, execution);
+    }
+    this.checkpoint(entry);
+
+    // 2. 高度（含 UI 回调）交给高度控制器；未指定高度时直接执行 UI 回调
+    let height: AdjustmentResult | undefined;
+    if (behavior.height !== undefined) {
+      height = await this.heightController.adjustHeight(
+        this.toHeightBehavior(behavior, execution),
+        {
+          ...(options.signal && { signal: options.signal }),
+          failurePolicy: execution.policy
+        }
+      );
+      if (!capabilities.dynamicHeight) {
+        execution.skipped.push('height');
+      } else if (height.applied) {
+        execution.applied.push('height');
+      }
+    } else if (!await this.runUICallbacks(behavior, execution)) {
+      return this.createResult(behavior, execution);
+    }
+    this.checkpoint(entry);
+
+    // 3. 变小的轴后随
+    await this.runSideAxes(shrinking, behavior, execution, capabilities);
+
+    return this.createResult(behavior, execution, height);
+  }
+
+  /**
+   * 按方向拆分宽度与模式；未知的当前值视为变大，未变化的轴不重复应用
+   */
+  private planSideAxes(behavior: FrameBehavior, from: FrameSize): { growing: SideAxis[]; shrinking: SideAxis[] } {
+    const growing: SideAxis[] = [];
+    const shrinking: SideAxis[] = [];
+
+    if (behavior.width !== undefined && behavior.width !== from.width) {
+      (from.width === undefined || behavior.width > from.width ? growing : shrinking).push('width');
+    }
+    if (behavior.mode !== undefined && behavior.mode !== from.mode) {
+      (from.mode === undefined || MODE_ORDER[behavior.mode] > MODE_ORDER[from.mode] ? growing : shrinking).push('mode');
+    }
+
+    return { growing, shrinking };
+  }
+
+  /**
+   * 应用宽度 / 模式；平台未声明支持的轴被跳过
+   * @returns false when the adjustment must stop (rolled back)
+   */
+  private async runSideAxes(
+    axes: readonly SideAxis[],
+    behavior: FrameBehavior,
+    execution: FrameExecution,
+    capabilities: BridgeCapabilities
+  ): Promise<boolean> {
+    for (const axis of axes) {
+      if (!this.supportsAxis(axis, behavior, capabilities)) {
+        this.logger.debug(`Bridge does not support ${axis} changes, skipping`);
+        execution.skipped.push(axis);
+        continue;
+      }
+
+      try {
+        await this.applySideAxis(axis, behavior);
+        execution.applied.push(axis);
+        this.setSideAxis(axis, behavior);
+      } catch (error) {
+        const bridgeError = error instanceof DMAppFrameError
+          ? error
+          : new PlatformBridgeError(`Bridge failed to update ${axis}: ${error instanceof Error ? error.message : String(error)}`, 'unknown', error);
+        if (!await this.recover(bridgeError, axis, behavior, execution)) {
+          return false;
+        }
+      }
+    }
+    return true;
+  }
+
+  private supportsAxis(axis: SideAxis, behavior: FrameBehavior, capabilities: BridgeCapabilities): boolean {
+    return axis === 'width'
+      ? capabilities.resizableWidth && typeof this.bridge.updateWidth === 'function'
+      : (capabilities.modes ?? []).includes(behavior.mode!) && typeof this.bridge.updateMode === 'function';
+  }
+
+  private async applySideAxis(axis: SideAxis, size: FrameSize): Promise<void> {
+    if (axis === 'width') {
+      await withTimeout(this.bridge.updateWidth!(size.width!), this.bridgeTimeoutMs, `updateWidth(${size.width})`);
+    } else {
+      await withTimeout(this.bridge.updateMode!(size.mode!), this.bridgeTimeoutMs, `updateMode(${size.mode})`);
+    }
+  }
+
+  private setSideAxis(axis: SideAxis, size: FrameSize): void {
+    if (axis === 'width') {
+      this.width = size.width;
+    } else {
+      this.mode = size.mode;
+    }
+    this.notifyFrameListeners();
+  }
+
+  /**
+   * 未指定高度时按原顺序执行 UI 回调
+   * @returns false when the adjustment must stop (rolled back)
+   */
+  private async runUICallbacks(behavior: FrameBehavior, execution: FrameExecution): Promise<boolean> {
+    const phases = [
+      ['ui-change', behavior.onUIChange],
+      ['ui-complete', behavior.onUIComplete]
+    ] as const;
+
+    for (const [phase, callback] of phases) {
+      if (!callback) {
+        continue;
+      }
+      if (phase === 'ui-change') {
+        execution.uiChanged = true;
+      }
+      try {
+        await callback();
+      } catch (error) {
+        if (!await this.recover(new UICallbackError(phase, error), phase, behavior, execution)) {
+          return false;
+        }
+      }
+    }
+    return true;
+  }
+
+  /**
+   * 宽度 / 模式 / UI 回调失败处理（高度轴的失败由高度控制器处理）
+   * - keep-ui：记录错误并继续
+   * - rollback：恢复本次已应用的宽度与模式，通知 onRollback，并停止
+   * - throw：以错误结束调用方的 Promise
+   * @returns whether processing continues
+   */
+  private async recover(
+    error: DMAppFrameError,
+    step: SideAxis | 'ui-change' | 'ui-complete',
+    behavior: FrameBehavior,
+    execution: FrameExecution
+  ): Promise<boolean> {
+    this.logger.error(`Frame adjustment failed at ${step}: ${error.message}`, {
+      step,
+      policy: execution.policy,
+      code: error.code
+    });
+    execution.error = error;
+
+    if (execution.policy === 'throw') {
+      throw error;
+    }
+    if (execution.policy === 'keep-ui') {
+      return true;
+    }
+
+    const { from } = execution;
+    for (const axis of [...execution.applied].reverse()) {
+      if (axis === 'height' || from[axis] === undefined) {
+        continue;
+      }
+      try {
+        await this.applySideAxis(axis, from);
+        this.setSideAxis(axis, from);
+      } catch (rollbackError) {
+        this.logger.error(`Failed to restore ${axis}`, { error: rollbackError });
+      }
+    }
+
+    if (execution.uiChanged && behavior.onRollback) {
+      try {
+        await behavior.onRollback(from);
+      } catch (rollbackError) {
+        this.logger.error('onRollback threw', { error: rollbackError });
+      }
+    }
+
+    execution.rolledBack = true;
+    return false;
+  }
+
+  /**
+   * 把帧行为映射为高度行为，记录 UI 是否已变化；宽度与模式以外的字段原样保留
+   */
+  private toHeightBehavior(behavior: FrameBehavior, execution: FrameExecution): HeightAdjustmentBehavior {
+    const { width, height, mode, onUIChange, onRollback, ...heightFields } = behavior;
+    return {
+      ...heightFields,
+      targetHeight: height!,
+      ...(onUIChange && {
+        onUIChange: () => {
+          execution.uiChanged = true;
+          return onUIChange();
+        }
+      }),
+      ...(onRollback && { onRollback: () => onRollback(execution.from) })
+    };
+  }
+
+  private createResult(
+    behavior: FrameBehavior,
+    execution: FrameExecution,
+    height?: AdjustmentResult
+  ): FrameAdjustmentResult {
+    let status: AdjustmentStatus = height?.status ?? 'completed';
+    if (execution.rolledBack) {
+      status = 'rolled-back';
+    } else if (execution.error && status === 'completed') {
+      status = 'failed';
+    }
+
+    const error = execution.error ?? height?.error;
+    return {
+      status,
+      from: execution.from,
+      to: {
+        ...(behavior.width !== undefined && { width: behavior.width }),
+        ...(behavior.height !== undefined && { height: height?.toHeight ?? behavior.height }),
+        ...(behavior.mode !== undefined && { mode: behavior.mode })
+      },
+      duration: Date.now() - execution.startedAt,
+      applied: execution.applied,
+      skipped: execution.skipped,
+      ...(height !== undefined && { height }),
+      ...(error !== undefined && { error })
+    };
+  }
+
+  /**
+   * AbortSignal 触发：排队中的直接移除；执行中的在下一个阶段边界停止
+   */
+  private handleAbort(entry: PendingFrameAdjustment): void {
+    const index = this.queue.indexOf(entry);
+    if (index === -1) {
+      return;
+    }
+
+    this.queue.splice(index, 1);
+    this.logger.debug('Aborted queued frame adjustment', {
+      to: { width: entry.behavior.width, height: entry.behavior.height, mode: entry.behavior.mode }
+    });
+    this.fail(entry, new AdjustmentCancelledError(entry.behavior.height ?? 0, 'aborted'));
+  }
+
+  /**
+   * coalesce-by-window：从队首入队起等待一个窗口，收集同一波突发调用
+   */
+  private async waitForCoalesceWindow(): Promise<void> {
+    const head = this.queue[0];
+    if (!head) {
+      return;
+    }
+
+    const windowMs = this.coalesceWindowMs
+      ?? (await this.heightController.getCapabilities()).preferredUpdateIntervalMs
+      ?? DEFAULT_COALESCE_WINDOW_MS;
+    const remaining = head.enqueuedAt + windowMs - Date.now();
+    if (remaining > 0) {
+      await new Promise(resolve => setTimeout(resolve, remaining));
+    }
+  }
+
+  /**
+   * 取代队列中尚未开始且满足条件的调整，调用方收到 superseded 结果
+   */
+  private supersedePending(
+    shouldSupersede: (
+      entry: PendingFrameAdjustment,
+      index: number,
+      queue: readonly PendingFrameAdjustment[]
+    ) => boolean
+  ): void {
+    const superseded = this.queue.filter((entry, index, queue) => shouldSupersede(entry, index, queue));
+    for (const entry of superseded) {
+      this.queue.splice(this.queue.indexOf(entry), 1);
+    }
+
+    for (const entry of superseded) {
+      const { behavior } = entry;
+      this.logger.debug('Superseded pending frame adjustment', {
+        to: { width: behavior.width, height: behavior.height, mode: behavior.mode }
+      });
+
+      const currentHeight = this.heightController.getCurrentHeight();
+      const height: AdjustmentResult = {
+        status: 'superseded',
+        fromHeight: currentHeight,
+        toHeight: this.targetHeightOf(behavior),
+        duration: 0,
+        applied: false
+      };
+      this.settle(entry, {
+        status: 'superseded',
+        from: this.getFrameSize(),
+        to: {
+          ...(behavior.width !== undefined && { width: behavior.width }),
+          ...(behavior.height !== undefined && { height: behavior.height }),
+          ...(behavior.mode !== undefined && { mode: behavior.mode })
+        },
+        duration: 0,
+        applied: [],
+        skipped: [],
+        ...(behavior.height !== undefined && { height })
+      });
+      this.events.emit('superseded', height);
+    }
+  }
+
+  /** 事件中的目标高度：未指定高度的调整沿用当前高度 */
+  private targetHeightOf(behavior: FrameBehavior): number {
+    return behavior.height ?? this.heightController.getCurrentHeight();
+  }
+
+  private checkpoint(entry: PendingFrameAdjustment): void {
+    const targetHeight = entry.behavior.height ?? 0;
+    if (this._isDisposed) {
+      throw new AdjustmentCancelledError(targetHeight, 'disposed');
+    }
+    if (entry.options.signal?.aborted) {
+      throw new AdjustmentCancelledError(targetHeight, 'aborted');
+    }
+  }
+
+  private settle(entry: PendingFrameAdjustment, result: FrameAdjustmentResult): void {
+    if (entry.settled) {
+      return;
+    }
+    entry.settled = true;
+    entry.detach?.();
+    const overtakenBy = entry.overtaken;
+    entry.resolve(overtakenBy > 0
+      ? { ...result, overtakenBy, ...(result.height && { height: { ...result.height, overtakenBy } }) }
+      : result);
+    this.setPendingCount(this.pendingCount - 1);
+  }
+
+  private fail(entry: PendingFrameAdjustment, error: unknown): void {
+    if (entry.settled) {
+      return;
+    }
+    entry.settled = true;
+    entry.detach?.();
+    entry.reject(error);
+    this.setPendingCount(this.pendingCount - 1);
+  }
+
+  private setPendingCount(count: number): void {
+    this.pendingCount = count;
+    this.events.emit('pending-changed', { pendingCount: count });
+  }
+
+  /**
+   * 当前帧尺寸（未知的轴省略）
+   */
+  getFrameSize(): FrameSize {
+    const height = this.heightController.getCurrentHeight();
+    return {
+      ...(this.width !== undefined && { width: this.width }),
+      ...(height > 0 && { height }),
+      ...(this.mode !== undefined && { mode: this.mode })
+    };
+  }
+
+  /**
+   * 订阅帧尺寸变化（宽度、高度或模式任一变化时回调）
+   */
+  subscribeFrame(listener: (size: FrameSize) => void): () => void {
+    this.frameListeners.add(listener);
+    return () => {
+      this.frameListeners.delete(listener);
+    };
+  }
+
+  private notifyFrameListeners(): void {
+    const size = this.getFrameSize();
+    for (const listener of [...this.frameListeners]) {
+      try {
+        listener(size);
+      } catch (error) {
+        this.logger.error('Frame listener threw', { error });
+      }
+    }
+  }
+
+  getCurrentHeight(): number {
+    return this.heightController.getCurrentHeight();
+  }
+
+  /**
+   * 尚未结算的帧调整数（排队中 + 执行中）
+   */
+  getPendingCount(): number {
+    return this.pendingCount;
+  }
+
+  getCapabilities(): Promise<BridgeCapabilities> {
+    return this.heightController.getCapabilities();
+  }
+
+  whenRestored(): Promise<number | undefined> {
+    return this.heightController.whenRestored();
+  }
+
+  /**
+   * 订阅生命周期事件：高度相关事件来自内部高度控制器；
+   * pending-changed、superseded 与 reordered 来自帧队列
+   */
+  on<K extends keyof HeightControllerEvents>(
+    event: K,
+    handler: (payload: HeightControllerEvents[K]) => void
+  ): () => void {
+    if (event === 'pending-changed' || event === 'superseded' || event === 'reordered') {
+      return this.events.on(
+        event as 'pending-changed' | 'superseded' | 'reordered',
+        handler as (payload: HeightControllerEvents['pending-changed' | 'superseded' | 'reordered']) => void
+      );
+    }
+    return this.heightController.on(event, handler);
+  }
+
+  subscribe(listener: (height: number) => void): () => void {
+    return this.heightController.subscribe(listener);
+  }
+
+  /**
+   * 自动高度：测量结果经由本控制器的队列，与帧调整保持顺序
+   */
+  observe(element: Element, options: AutoHeightOptions = {}): AutoHeightHandle {
+    this.ensureNotDisposed();
+
+    const handle = observeElementHeight(this, element, options);
+    const disconnect = handle.disconnect.bind(handle);
+    const tracked: AutoHeightHandle = {
+      disconnect: () => {
+        this.observers.delete(tracked);
+        disconnect();
+      },
+      remeasure: () => handle.remeasure(),
+      get isObserving() {
+        return handle.isObserving;
+      }
+    };
+
+    this.observers.add(tracked);
+    return tracked;
+  }
+
+  dispose(): void {
+    if (this._isDisposed) {
+      return;
+    }
+
+    this.logger.debug('Disposing frame controller', { size: this.getFrameSize() });
+
+    this._isDisposed = true;
+    this.observers.forEach(observer => observer.disconnect());
+
+    const outstanding = this.inFlight ? [this.inFlight, ...this.queue] : [...this.queue];
+    this.queue.length = 0;
+    for (const entry of outstanding) {
+      this.fail(entry, new AdjustmentCancelledError(entry.behavior.height ?? 0, 'disposed'));
+    }
+
+    this.heightController.dispose();
+    this.events.clear();
+    this.frameListeners.clear();
+  }
+
+  get isDisposed(): boolean {
+    return this._isDisposed;
+  }
+
+  private ensureNotDisposed(): void {
+    if (this._isDisposed) {
+      throw new HeightControllerError('Controller has been disposed');
+    }
+  }
+
+  /**
+   * 验证帧行为：高度沿用高度控制器的校验，另外检查宽度与模式
+   */
+  private validateFrameBehavior(behavior: FrameBehavior): void {
+    if (!behavior || typeof behavior !== 'object') {
+      throw new HeightControllerError('Invalid behavior: Expected a valid FrameBehavior object');
+    }
+
+    const { width, height, mode } = behavior;
+    if (width === undefined && height === undefined && mode === undefined) {
+      throw new HeightControllerError('Invalid behavior: Expected at least one of width, height or mode');
+    }
+
+    if (width !== undefined && (typeof width !== 'number' || !Number.isFinite(width) || width <= 0)) {
+      throw new HeightControllerError(`Invalid width: ${width}. Must be a positive finite number`);
+    }
+
+    // 高度轴字段沿用高度控制器的校验；未指定高度时优先级与回调同样需要校验
+    const { onRollback, ...heightFields } = behavior;
+    validateHeightBehavior({ ...heightFields, targetHeight: height ?? FRAMEWORK_CONSTANTS.MIN_REASONABLE_HEIGHT });
+
+    if (mode !== undefined && !Object.prototype.hasOwnProperty.call(MODE_ORDER, mode)) {
+      throw new HeightControllerError(
+        `Invalid mode: ${String(mode)}. Expected one of ${Object.keys(MODE_ORDER).join(', ')}`
+      );
+    }
+
+    if (onRollback !== undefined && typeof onRollback !== 'function') {
+      throw new HeightControllerError(
+        `Invalid onRollback: Expected function or undefined, got ${typeof onRollback}`
+      );
+    }
+  }
+}
@@ -0,0 +1,220 @@
+/**
+ * DMAppFrame - Frame Host
+ * 宿主页侧管理器：响应嵌入页的高度请求，调整 iframe 元素并施加宿主自己的限制
+ */
+
+import type { BridgeCapabilities, Logger } from './types.js';
+import { HeightControllerError, generateDebugId } from './types.js';
+import { resolveLogger, withLogFields } from './Logger.js';
+import {
+  FRAME_PROTOCOL_VERSION,
+  createFrameMessage,
+  isFrameMessage,
+  type FrameCapabilitiesReply,
+  type FrameErrorCode,
+  type FrameErrorReply,
+  type FrameHeightAck,
+  type FrameMessage,
+  type FrameReply
+} from './FrameProtocol.js';
+
+/**
+ * Height limits enforced by the host
+ */
+export interface FrameLimits {
+  /** Smallest height applied to the iframe in pixels */
+  minHeight?: number;
+
+  /** Largest height applied to the iframe in pixels */
+  maxHeight?: number;
+}
+
+/**
+ * Frame host options
+ */
+export interface FrameHostOptions extends FrameLimits {
+  /** Origins allowed to resize frames ('*' accepts any origin) */
+  allowedOrigins: readonly string[] | '*';
+
+  /** Window the host page runs in (default: global window) */
+  window?: Window;
+
+  /** Called after an iframe was resized */
+  onResize?: (iframe: HTMLIFrameElement, appliedHeight: number, requestedHeight: number) => void;
+
+  /** Enable debug logging to the console (ignored when `logger` is set) */
+  debug?: boolean;
+
+  /** Logger receiving structured log entries */
+  logger?: Logger;
+}
+
+/**
+ * 已接管的 iframe
+ */
+interface AttachedFrame {
+  readonly iframe: HTMLIFrameElement;
+  readonly limits: FrameLimits;
+}
+
+/**
+ * Host-side manager for iframes using PostMessageBridge
+ * 只处理来自已接管 iframe 且来源在白名单内的请求，其余消息一律忽略
+ *
+ * @example
+ * ```typescript
+ * const host = createFrameHost({
+ *   allowedOrigins: ['https://widgets.example.com'],
+ *   maxHeight: 1600
+ * });
+ * const detach = host.attach(document.querySelector('iframe')!);
+ * ```
+ */
+export class FrameHost {
+  private readonly debugId = generateDebugId('FrameHost');
+  private readonly logger: Logger;
+  private readonly window: Window;
+  private readonly frames = new Set<AttachedFrame>();
+  private _isDisposed = false;
+
+  constructor(private readonly options: FrameHostOptions) {
+    this.logger = withLogFields(resolveLogger(options), { debugId: this.debugId });
+    this.window = options.window ?? window;
+    this.window.addEventListener('message', this.handleMessage);
+  }
+
+  /**
+   * 接管一个 iframe，响应其中 PostMessageBridge 的请求
+   *
+   * @param iframe - Iframe element to resize
+   * @param limits - Limits for this iframe, overriding the host limits
+   * @returns Function releasing the iframe
+   * @throws {HeightControllerError} When the host is disposed
+   */
+  attach(iframe: HTMLIFrameElement, limits: FrameLimits = {}): () => void {
+    if (this._isDisposed) {
+      throw new HeightControllerError('FrameHost has been disposed');
+    }
+
+    const frame: AttachedFrame = {
+      iframe,
+      limits: {
+        ...(this.options.minHeight !== undefined && { minHeight: this.options.minHeight }),
+        ...(this.options.maxHeight !== undefined && { maxHeight: this.options.maxHeight }),
+        ...limits
+      }
+    };
+    this.frames.add(frame);
+
+    return () => {
+      this.frames.delete(frame);
+    };
+  }
+
+  /**
+   * 停止监听并释放所有 iframe
+   */
+  dispose(): void {
+    if (this._isDisposed) {
+      return;
+    }
+    this._isDisposed = true;
+    this.window.removeEventListener('message', this.handleMessage);
+    this.frames.clear();
+  }
+
+  get isDisposed(): boolean {
+    return this._isDisposed;
+  }
+
+  private readonly handleMessage = (event: MessageEvent): void => {
+    if (!isFrameMessage(event.data)) {
+      return;
+    }
+
+    const frame = [...this.frames].find(candidate => candidate.iframe.contentWindow === event.source);
+    if (!frame) {
+      return;
+    }
+
+    if (!this.isAllowedOrigin(event.origin)) {
+      this.logger.warn('Ignored frame request from disallowed origin', { origin: event.origin });
+      return;
+    }
+
+    const reply = this.handleRequest(frame, event.data);
+    if (reply) {
+      // 不透明源（'null'）无法作为 targetOrigin，回复已限定到来源窗口
+      const replyOrigin = event.origin === 'null' ? '*' : event.origin;
+      (event.source as Window).postMessage(reply, replyOrigin);
+    }
+  };
+
+  private handleRequest(frame: AttachedFrame, message: FrameMessage): FrameReply | undefined {
+    const { id } = message;
+
+    if (message.version !== FRAME_PROTOCOL_VERSION) {
+      return this.error(id, 'UNSUPPORTED_VERSION',
+        `Protocol version ${message.version} is not supported (expected ${FRAME_PROTOCOL_VERSION})`);
+    }
+
+    switch (message.type) {
+      case 'height-request': {
+        const { height } = message;
+        if (typeof height !== 'number' || !Number.isFinite(height) || height <= 0) {
+          return this.error(id, 'INVALID_HEIGHT', `Invalid height: ${height}`);
+        }
+
+        const { minHeight = 0, maxHeight = Infinity } = frame.limits;
+        const appliedHeight = Math.min(Math.max(height, minHeight), maxHeight);
+        frame.iframe.style.height = `${appliedHeight}px`;
+
+        this.logger.debug(`Resized frame to ${appliedHeight}px`, { toHeight: appliedHeight, requestedHeight: height });
+        this.options.onResize?.(frame.iframe, appliedHeight, height);
+
+        return createFrameMessage<FrameHeightAck>(id, { type: 'height-ack', appliedHeight });
+      }
+
+      case 'capabilities-request': {
+        const { minHeight, maxHeight } = frame.limits;
+        const capabilities: BridgeCapabilities = {
+          dynamicHeight: true,
+          resizableWidth: false,
+          ...(minHeight !== undefined && { minHeight }),
+          ...(maxHeight !== undefined && { maxHeight })
+        };
+        return createFrameMessage<FrameCapabilitiesReply>(id, { type: 'capabilities', capabilities });
+      }
+
+      // 回复类消息不是发给宿主的
+      case 'height-ack':
+      case 'capabilities':
+      case 'error':
+        return undefined;
+
+      default:
+        return this.error(id, 'INVALID_REQUEST', `Unknown request type: ${(message as { type: string }).type}`);
+    }
+  }
+
+  private isAllowedOrigin(origin: string): boolean {
+    const { allowedOrigins } = this.options;
+    return allowedOrigins === '*' || allowedOrigins.includes(origin);
+  }
+
+  private error(id: string, code: FrameErrorCode, message: string): FrameErrorReply {
+    this.logger.warn(`Rejected frame request: ${message}`, { code });
+    return createFrameMessage<FrameErrorReply>(id, { type: 'error', code, message });
+  }
+}
+
+/**
+ * Create a host-side frame manager
+ * 创建宿主页侧的 iframe 管理器，与嵌入页中的 PostMessageBridge 配对使用
+ *
+ * @param options - Allowed origins, height limits and logging
+ * @returns A FrameHost listening for frame requests
+ */
+export function createFrameHost(options: FrameHostOptions): FrameHost {
+  return new FrameHost(options);
+}
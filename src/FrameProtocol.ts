@@ -0,0 +1,100 @@
+/**
+ * DMAppFrame - Frame Message Protocol
+ * iframe 宿主与嵌入页之间的版本化消息协议
+ */
+
+import type { BridgeCapabilities } from './types.js';
+
+/** Protocol tag carried by every message, used to ignore unrelated postMessage traffic */
+export const FRAME_PROTOCOL = 'dma-frame';
+
+/** Current protocol version; hosts reject requests of other versions */
+export const FRAME_PROTOCOL_VERSION = 1;
+
+/**
+ * Error codes sent by the host in `error` replies
+ */
+export type FrameErrorCode = 'UNSUPPORTED_VERSION' | 'INVALID_REQUEST' | 'INVALID_HEIGHT';
+
+/**
+ * Fields shared by every protocol message
+ */
+interface FrameMessageBase {
+  readonly protocol: typeof FRAME_PROTOCOL;
+  readonly version: number;
+
+  /** Correlation id: replies carry the id of the request they answer */
+  readonly id: string;
+}
+
+/**
+ * Guest → host: resize the frame
+ */
+export interface FrameHeightRequest extends FrameMessageBase {
+  readonly type: 'height-request';
+  readonly height: number;
+}
+
+/**
+ * Guest → host: ask for the host's capabilities
+ */
+export interface FrameCapabilitiesRequest extends FrameMessageBase {
+  readonly type: 'capabilities-request';
+}
+
+/**
+ * Host → guest: the frame was resized
+ */
+export interface FrameHeightAck extends FrameMessageBase {
+  readonly type: 'height-ack';
+
+  /** Height actually applied after the host's own limits */
+  readonly appliedHeight: number;
+}
+
+/**
+ * Host → guest: capabilities of this frame
+ */
+export interface FrameCapabilitiesReply extends FrameMessageBase {
+  readonly type: 'capabilities';
+  readonly capabilities: BridgeCapabilities;
+}
+
+/**
+ * Host → guest: the request was rejected
+ */
+export interface FrameErrorReply extends FrameMessageBase {
+  readonly type: 'error';
+  readonly code: FrameErrorCode;
+  readonly message: string;
+}
+
+export type FrameRequest = FrameHeightRequest | FrameCapabilitiesRequest;
+export type FrameReply = FrameHeightAck | FrameCapabilitiesReply | FrameErrorReply;
+export type FrameMessage = FrameRequest | FrameReply;
+
+type WithoutBase<T> = T extends FrameMessage ? Omit<T, keyof FrameMessageBase> : never;
+
+/**
+ * Build a protocol message with the current protocol tag and version
+ */
+export function createFrameMessage<T extends FrameMessage>(
+  id: string,
+  body: WithoutBase<T>
+): T {
+  return { protocol: FRAME_PROTOCOL, version: FRAME_PROTOCOL_VERSION, id, ...body } as unknown as T;
+}
+
+/**
+ * 判断任意 postMessage 数据是否属于本协议（不检查版本）
+ */
+export function isFrameMessage(data: unknown): data is FrameMessage {
+  if (!data || typeof data !== 'object') {
+    return false;
+  }
+  const message = data as Partial<FrameMessage>;
+  return message.protocol === FRAME_PROTOCOL
+    && typeof message.version === 'number'
+    && typeof message.id === 'string'
+    && typeof message.type === 'string';
+}
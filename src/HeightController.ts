@@ -4,16 +4,142 @@
  */
 
 import type { 
-  HeightController, 
+  AdjustOptions,
+  AdjustmentErrorContext,
+  AdjustmentPhase,
+  AdjustmentPriority,
+  AdjustmentResult,
+  AdjustmentStatus,
+  AutoHeightHandle,
+  AutoHeightOptions,
+  BridgeCapabilities,
+  HeightPersistenceHandle,
+  QueuedAdjustment,
+  ObservableHeightController,
+  HeightControllerEvents,
+  HeightControllerOptions,
+  HeightLease,
+  HeightLeaseRequest,
   HeightAdjustmentBehavior, 
-  PlatformBridge
+  HeightTransaction,
+  FailurePolicy,
+  Logger,
+  PlatformBridge,
+  QueuePolicy,
+  TimingStrategy
 } from './types.js';
 import { 
+  AdjustmentCancelledError,
+  DMAppFrameError,
   HeightControllerError,
+  PlatformBridgeError,
+  TimeoutError,
+  UICallbackError,
+  withTimeout,
   generateDebugId,
   FRAMEWORK_CONSTANTS,
   isReasonableHeight
 } from './types.js';
+import { observeElementHeight } from './AutoHeight.js';
+import { withRetry } from './RetryBridge.js';
+import { TypedEventEmitter } from './EventEmitter.js';
+import { resolveLogger, withLogFields } from './Logger.js';
+import { persistHeight } from './HeightPersistence.js';
+import { DEFAULT_TRANSITION_STEP_MS, prefersReducedMotion, resolveEasing } from './Transition.js';
+import { resolveTimingStrategy } from './Timing.js';
+
+/**
+ * 队列中的待执行行为，携带调用方的完成回调
+ */
+interface PendingAdjustment {
+  /** 开始执行时按平台能力修正目标高度 */
+  behavior: HeightAdjustmentBehavior;
+  readonly options: AdjustOptions;
+  readonly enqueuedAt: number;
+  readonly resolve: (result: AdjustmentResult) => void;
+  readonly reject: (error: unknown) => void;
+  /** 是否已向调用方交付结果（保证只结算一次） */
+  settled: boolean;
+  /** 排队期间被更高优先级行为插队的次数 */
+  overtaken: number;
+  /** 由租约变化触发：执行时按内容高度与当前租约重新计算目标 */
+  readonly lease: boolean;
+  /** 移除 AbortSignal 监听 */
+  detach?: () => void;
+}
+
+/**
+ * 单次执行的阶段状态，用于失败时精确补偿
+ */
+interface ExecutionState {
+  readonly fromHeight: number;
+  readonly startedAt: number;
+  /** 当前（或失败时）所处阶段 */
+  phase: AdjustmentPhase;
+  /** 平台是否已应用目标高度 */
+  applied: boolean;
+  /** 调用方要求的高度（计入租约，未按平台能力修正） */
+  readonly requestedHeight: number;
+  /** 平台实际应用的高度（桥接返回值；不支持动态高度时为修正后的目标）；未生效时为 undefined */
+  appliedHeight: number | undefined;
+  /** onUIChange 是否已被调用过 */
+  uiChanged: boolean;
+  /** 平台是否支持动态高度；不支持时跳过桥接调用 */
+  readonly dynamicHeight: boolean;
+  /** 本次生效的过渡；降级为瞬时变化时为 undefined */
+  readonly transition: ResolvedTransition | undefined;
+}
+
+/**
+ * 解析后的过渡参数
+ */
+interface ResolvedTransition {
+  readonly durationMs: number;
+  readonly mode: 'bridge' | 'css';
+  readonly stepMs: number;
+  readonly ease: (progress: number) => number;
+}
+
+/**
+ * 过渡被新到达的行为打断（非 serial 策略下，行为以 superseded 结束）
+ */
+class TransitionInterrupted extends Error {
+  constructor() {
+    super('Transition interrupted by a newer adjustment');
+  }
+}
+
+/**
+ * 将任意桥接异常规范化为 PlatformBridgeError
+ */
+function toPlatformBridgeError(error: unknown, targetHeight: number): DMAppFrameError {
+  if (error instanceof DMAppFrameError) {
+    return error;
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return new PlatformBridgeError(
+    `Bridge failed to update height to ${targetHeight}px: ${message}`,
+    'unknown',
+    error
+  );
+}
+
+/** Default coalescing window for the `coalesce-by-window` policy */
+export const DEFAULT_COALESCE_WINDOW_MS = 16;
+
+/** Capabilities assumed for bridges that do not report any */
+const DEFAULT_CAPABILITIES: BridgeCapabilities = {
+  dynamicHeight: true,
+  resizableWidth: false
+};
+
+/**
+ * 按平台允许的范围限制高度
+ */
+function clampToCapabilities(height: number, capabilities: BridgeCapabilities): number {
+  const { minHeight = 0, maxHeight = Infinity } = capabilities;
+  return Math.min(Math.max(height, minHeight), maxHeight);
+}
 
 /**
  * Core height controller implementation
@@ -21,24 +147,90 @@ import {
  * 
  * Key Features:
  * - 单一接口：只有 adjustHeight(behavior) 一个方法
- * - 串行化队列：严格按顺序执行，避免竞态条件
+ * - 串行化队列：严格按顺序执行，避免竞态条件（可选合并策略丢弃过期行为）
  * - 智能时序：扩展/收缩采用不同的时序策略
- * - 容错机制：失败时保证UI状态一致
+ * - 容错机制：可配置失败策略（保持界面 / 回滚 / 抛出），区分桥接错误与回调错误
  */
-export class CoreHeightController implements HeightController {
+export class CoreHeightController implements ObservableHeightController {
   private currentHeight = 0;
-  private behaviorQueue: HeightAdjustmentBehavior[] = [];
+  private behaviorQueue: PendingAdjustment[] = [];
+  private inFlight: PendingAdjustment | undefined;
+  /** 尚未结算的调用数（排队 + 执行中） */
+  private pendingCount = 0;
   private executing = false;
+  /** 暂停时队列停在下一个行为之前，执行中的行为照常完成 */
+  private paused = false;
+  private resumeQueue: (() => void) | undefined;
   private _isDisposed = false;
+  private readonly observers = new Set<AutoHeightHandle>();
+  private readonly heightListeners = new Set<(height: number) => void>();
+  private readonly events = new TypedEventEmitter<HeightControllerEvents>((error, event) => {
+    this.logger.error('Event listener threw', { event: String(event), error });
+  });
   private readonly debugId = generateDebugId('HeightController');
+  private readonly logger: Logger;
+  private readonly queuePolicy: QueuePolicy;
+  /** 未配置时使用桥接的 preferredUpdateIntervalMs */
+  private readonly coalesceWindowMs: number | undefined;
+  private readonly failurePolicy: FailurePolicy;
+  private readonly onError: HeightControllerOptions['onError'];
+  private readonly bridge: PlatformBridge;
+  /** 未配置重试时由控制器直接施加的桥接超时（配置重试时按次施加） */
+  private readonly bridgeTimeoutMs: number | undefined;
+  private readonly uiCompleteTimeoutMs: number | undefined;
+  /** 唤醒正在等待的过渡（新行为到达、中止或销毁时调用） */
+  private interruptTransition: (() => void) | undefined;
+  private capabilities: Promise<BridgeCapabilities> | undefined;
+  /** 已解析的能力；同步可用时执行不额外等待一轮微任务 */
+  private resolvedCapabilities: BridgeCapabilities | undefined;
+  private readonly persistence: HeightPersistenceHandle | undefined;
+  /** 未指定 timing 的行为使用的时序策略 */
+  private readonly timing: TimingStrategy;
+  /** 内容要求的高度（普通调整最近一次生效的目标，不含租约） */
+  private contentHeight = 0;
+  /** 尚无内容高度时，取得第一个租约前的高度（租约的计算基准） */
+  private leaseBaseHeight = 0;
+  private readonly leases = new Set<HeightLeaseRequest>();
 
+  /**
+   * @param bridge - Platform bridge applying frame heights
+   * @param options - Controller options, or a boolean enabling debug logging (legacy form)
+   */
   constructor(
-    private readonly bridge: PlatformBridge,
-    private readonly debug = false
+    bridge: PlatformBridge,
+    options: HeightControllerOptions | boolean = {}
   ) {
-    if (this.debug) {
-      console.log(`[${this.debugId}] Initialized with platform bridge`);
+    const resolved = typeof options === 'boolean' ? { debug: options } : options;
+    this.logger = withLogFields(resolveLogger(resolved), { debugId: this.debugId });
+    this.queuePolicy = resolved.queuePolicy ?? 'serial';
+    this.coalesceWindowMs = resolved.coalesceWindowMs;
+    this.failurePolicy = resolved.failurePolicy ?? 'keep-ui';
+    this.onError = resolved.onError;
+    this.uiCompleteTimeoutMs = resolved.uiCompleteTimeoutMs;
+    this.timing = resolveTimingStrategy(resolved.timing);
+
+    // 重试时超时按单次尝试计算，让卡住的调用也能被重试
+    if (resolved.retry) {
+      this.bridge = withRetry(bridge, {
+        ...(resolved.bridgeTimeoutMs !== undefined && { timeoutMs: resolved.bridgeTimeoutMs }),
+        ...resolved.retry
+      });
+      this.bridgeTimeoutMs = undefined;
+    } else {
+      this.bridge = bridge;
+      this.bridgeTimeoutMs = resolved.bridgeTimeoutMs;
     }
+
+    if (!this.bridge.getCapabilities) {
+      this.resolvedCapabilities = DEFAULT_CAPABILITIES;
+    }
+
+    this.logger.debug('Initialized with platform bridge');
+
+    // 最后初始化：恢复高度会立即入队
+    this.persistence = resolved.persistence
+      ? persistHeight(this, resolved.persistence, this.logger)
+      : undefined;
   }
 
   /**
@@ -49,33 +241,287 @@ export class CoreHeightController implements HeightController {
    * @param behavior.targetHeight - Target height in pixels (must be > 0)
    * @param behavior.onUIChange - Called when UI should update (optional)
    * @param behavior.onUIComplete - Called when adjustment completes (optional)
+   * @param options - Per-call options
+   * @param options.signal - Cancels the adjustment: removed while queued, stopped between phases while running
+   * @param options.failurePolicy - Overrides the controller failure policy for this call
+   * @returns Promise settling after this behavior has been processed by the queue
    * 
    * @throws {HeightControllerError} When controller is disposed or parameters are invalid
+   * @throws {AdjustmentCancelledError} When aborted via signal or the controller is disposed before completion
+   * @throws {PlatformBridgeError | UICallbackError} When a phase fails under the 'throw' failure policy
    * 
    * @example
    * ```typescript
-   * await controller.adjustHeight({
+   * const result = await controller.adjustHeight({
    *   targetHeight: 600,
    *   onUIChange: () => setHeight(600),
    *   onUIComplete: async () => await animateContent()
    * });
+   * 
+   * if (!result.applied) {
+   *   console.warn('Bridge did not apply the height', result.error);
+   * }
    * ```
    */
-  async adjustHeight(behavior: HeightAdjustmentBehavior): Promise<void> {
+  async adjustHeight(
+    behavior: HeightAdjustmentBehavior,
+    options: AdjustOptions = {}
+  ): Promise<AdjustmentResult> {
     this.ensureNotDisposed();
-    this.validateHeightBehavior(behavior);
+    validateHeightBehavior(behavior);
+    return this.queueBehavior(behavior, options, false);
+  }
+
+  /**
+   * 入队一个已校验的行为
+   * 租约触发的行为不取代其他行为：被取代的普通行为会丢失内容高度
+   */
+  private queueBehavior(
+    behavior: HeightAdjustmentBehavior,
+    options: AdjustOptions,
+    lease: boolean
+  ): Promise<AdjustmentResult> {
+    const { signal } = options;
+    if (signal?.aborted) {
+      throw new AdjustmentCancelledError(behavior.targetHeight, 'aborted');
+    }
+
+    this.logger.debug(`Queueing height adjustment to ${behavior.targetHeight}px`, {
+      toHeight: behavior.targetHeight
+    });
 
-    if (this.debug) {
-      console.log(`[${this.debugId}] Queueing height adjustment to ${behavior.targetHeight}px`);
+    // latest-wins：新行为立即取代同级及更低优先级中尚未开始的行为
+    // supersedeLowerPriority：取代更低优先级中尚未开始的行为
+    const rank = priorityRank(behavior);
+    if (lease) {
+      this.supersedePending(entry => entry.lease);
+    } else if (this.queuePolicy === 'latest-wins') {
+      this.supersedePending(entry => priorityRank(entry.behavior) <= rank);
+    } else if (options.supersedeLowerPriority) {
+      this.supersedePending(entry => priorityRank(entry.behavior) < rank);
     }
 
-    // 加入队列
-    this.behaviorQueue.push(behavior);
+    // 加入队列：每次调用都拥有自己的完成 Promise
+    const completion = new Promise<AdjustmentResult>((resolve, reject) => {
+      const entry: PendingAdjustment = {
+        behavior,
+        options,
+        enqueuedAt: Date.now(),
+        resolve,
+        reject,
+        settled: false,
+        overtaken: 0,
+        lease
+      };
+
+      if (signal) {
+        const onAbort = (): void => this.handleAbort(entry);
+        signal.addEventListener('abort', onAbort, { once: true });
+        entry.detach = () => signal.removeEventListener('abort', onAbort);
+      }
+
+      this.enqueue(entry);
+    });
+
+    this.pendingCount++;
+    this.events.emit('queued', {
+      targetHeight: behavior.targetHeight,
+      queueLength: this.behaviorQueue.length
+    });
+    this.events.emit('pending-changed', { pendingCount: this.pendingCount });
+    this.interruptTransition?.();
     
     // 如果没有在执行，开始处理
     if (!this.executing) {
-      await this.processQueue();
+      void this.processQueue();
+    }
+
+    return completion;
+  }
+
+  /**
+   * 租约：持有期间抬高框架的有效高度，释放后回到内容本应的高度
+   * 有效高度 = max(内容高度, 各租约要求的高度)；普通调整在执行时同样计入仍持有的租约，
+   * 因此租约与内容变化交错时不会互相覆盖。租约变化以 user-blocking 优先级入队
+   * 
+   * @param request - `{ extraPx }` above the content height, or `{ minHeight }`
+   * @returns Handle whose `release` restores the height the frame would otherwise have
+   * 
+   * @throws {HeightControllerError} When the controller is disposed or the request is invalid
+   * 
+   * @example
+   * ```typescript
+   * const lease = controller.lease({ extraPx: 240 });
+   * await lease.acquired;
+   * openDropdown();
+   * // ...
+   * closeDropdown();
+   * await lease.release();
+   * ```
+   */
+  lease(request: HeightLeaseRequest): HeightLease {
+    this.ensureNotDisposed();
+    validateLeaseRequest(request);
+
+    const held = { ...request };
+    if (this.leases.size === 0) {
+      this.leaseBaseHeight = this.currentHeight;
+    }
+    this.leases.add(held);
+    this.logger.debug(`Leased ${'extraPx' in held ? `${held.extraPx}px extra` : `${held.minHeight}px minimum`}`, {
+      leases: this.leases.size
+    });
+
+    const acquired = this.syncLeases();
+    let released: Promise<AdjustmentResult> | undefined;
+    return {
+      acquired,
+      get isReleased() {
+        return released !== undefined;
+      },
+      release: () => {
+        if (!released) {
+          this.leases.delete(held);
+          this.logger.debug('Released lease', { leases: this.leases.size });
+          released = this._isDisposed ? Promise.resolve(this.unchangedResult()) : this.syncLeases();
+        }
+        return released;
+      }
+    };
+  }
+
+  /**
+   * 按当前租约重新计算有效高度并入队
+   * 调用方可能不等待结果，因此预先标记为已处理，避免销毁时产生未处理的拒绝
+   */
+  private syncLeases(): Promise<AdjustmentResult> {
+    const completion = this.queueBehavior(
+      { targetHeight: this.leaseTarget() || this.currentHeight, priority: 'user-blocking' },
+      {},
+      true
+    );
+    completion.catch(() => undefined);
+    return completion;
+  }
+
+  /**
+   * 租约行为的目标：内容高度叠加租约；尚无内容高度时以取得租约前的高度为基准
+   * @returns 0 when neither content nor leases determine a height (the frame keeps its height)
+   */
+  private leaseTarget(): number {
+    return this.applyLeases(this.contentHeight || this.leaseBaseHeight);
+  }
+
+  /**
+   * 内容高度叠加仍持有的租约
+   */
+  private applyLeases(height: number): number {
+    let leased = height;
+    for (const request of this.leases) {
+      leased = Math.max(leased, 'extraPx' in request ? height + request.extraPx : request.minHeight);
     }
+    return leased;
+  }
+
+  /**
+   * 未改变高度的结果（空事务、销毁后释放租约）
+   */
+  private unchangedResult(): AdjustmentResult {
+    const height = this.currentHeight;
+    return { status: 'completed', fromHeight: height, toHeight: height, duration: 0, applied: false };
+  }
+
+  /**
+   * 按优先级入队：排在第一个更低优先级的行为之前，同级保持先来后到
+   * 被插队的行为计数并发出 reordered 事件
+   */
+  private enqueue(entry: PendingAdjustment): void {
+    const rank = priorityRank(entry.behavior);
+    const index = this.behaviorQueue.findIndex(pending => priorityRank(pending.behavior) < rank);
+    if (index === -1) {
+      this.behaviorQueue.push(entry);
+      return;
+    }
+
+    const overtakenBy = { targetHeight: entry.behavior.targetHeight, priority: priorityOf(entry.behavior) };
+    const overtaken = this.behaviorQueue.slice(index);
+    this.behaviorQueue.splice(index, 0, entry);
+    for (const pending of overtaken) {
+      pending.overtaken++;
+      this.events.emit('reordered', {
+        targetHeight: pending.behavior.targetHeight,
+        priority: priorityOf(pending.behavior),
+        overtakenBy
+      });
+    }
+  }
+
+  /**
+   * 事务：把多次调整合并为一次
+   * run 中收集的行为在其结束时合并为一个行为入队：目标取最后一个高度，
+   * 各 onUIChange / onUIComplete 按收集顺序执行，并与唯一一次桥接调用保持扩展 / 收缩时序
+   * 
+   * run 抛错时不入队任何行为（整体放弃）；合并后的行为失败时，默认按 rollback 策略整体回滚，
+   * 各 onRollback 按相反顺序执行
+   * 
+   * @param run - Collects behaviors through `tx.adjustHeight`
+   * @param options - Per-call options for the merged behavior (failurePolicy defaults to 'rollback')
+   * @returns Result of the merged adjustment; an empty transaction resolves without touching the bridge
+   * 
+   * @throws {HeightControllerError} When the controller is disposed or a behavior is invalid
+   * @throws Whatever `run` throws; nothing is applied in that case
+   * 
+   * @example
+   * ```typescript
+   * await controller.transaction(async tx => {
+   *   tx.adjustHeight({ targetHeight: 480, onUIChange: () => showHeader() });
+   *   const items = await fetchItems();
+   *   tx.adjustHeight({ targetHeight: 720, onUIChange: () => renderList(items) });
+   *   tx.adjustHeight({ targetHeight: 760, onUIChange: () => showFooter() });
+   * }); // one updateHeight(760)
+   * ```
+   */
+  async transaction(
+    run: (tx: HeightTransaction) => void | Promise<void>,
+    options: AdjustOptions = {}
+  ): Promise<AdjustmentResult> {
+    this.ensureNotDisposed();
+
+    const behaviors: HeightAdjustmentBehavior[] = [];
+    let open = true;
+    const tx: HeightTransaction = {
+      adjustHeight: behavior => {
+        if (!open) {
+          throw new HeightControllerError('Transaction already finished');
+        }
+        validateHeightBehavior(behavior);
+        behaviors.push(behavior);
+      },
+      get targetHeight() {
+        return behaviors[behaviors.length - 1]?.targetHeight;
+      },
+      get size() {
+        return behaviors.length;
+      }
+    };
+
+    try {
+      await run(tx);
+    } finally {
+      open = false;
+    }
+
+    if (behaviors.length === 0) {
+      return this.unchangedResult();
+    }
+
+    this.logger.debug(`Committing transaction of ${behaviors.length} behaviors`, {
+      toHeight: behaviors[behaviors.length - 1]!.targetHeight
+    });
+    return this.adjustHeight(mergeBehaviors(behaviors), {
+      ...options,
+      failurePolicy: options.failurePolicy ?? 'rollback'
+    });
   }
 
   /**
@@ -86,69 +532,885 @@ export class CoreHeightController implements HeightController {
     this.executing = true;
     
     while (this.behaviorQueue.length > 0) {
-      const behavior = this.behaviorQueue.shift()!;
-      
-      if (this.debug) {
-        console.log(`[${this.debugId}] Processing height adjustment: ${this.currentHeight}px → ${behavior.targetHeight}px`);
+      if (this.paused) {
+        await new Promise<void>(resolve => { this.resumeQueue = resolve; });
+        if (this._isDisposed) {
+          break;
+        }
+        continue;
       }
-      
+
+      if (this.queuePolicy === 'coalesce-by-window') {
+        await this.waitForCoalesceWindow();
+        if (this._isDisposed) {
+          break;
+        }
+        // 每个优先级只保留最后一个行为；租约与内容行为互不取代，否则会丢失内容高度
+        this.supersedePending((entry, index, queue) =>
+          queue.some((later, laterIndex) =>
+            laterIndex > index
+            && later.lease === entry.lease
+            && priorityOf(later.behavior) === priorityOf(entry.behavior)));
+      }
+
+      const entry = this.behaviorQueue.shift()!;
+      const requestedHeight = entry.behavior.targetHeight;
+      this.inFlight = entry;
       try {
-        // 自动识别扩展还是收缩
-        const isExpanding = behavior.targetHeight > this.currentHeight;
-        
-        if (isExpanding) {
-          // 扩展：组件先变，UI后填
-          await this.bridge.updateHeight(behavior.targetHeight);
-          if (behavior.onUIChange) {
-            behavior.onUIChange();
-          }
-          if (behavior.onUIComplete) {
-            await behavior.onUIComplete();
-          }
-        } else {
-          // 收缩：UI先变，组件后随
-          if (behavior.onUIChange) {
-            behavior.onUIChange();
-          }
-          if (behavior.onUIComplete) {
-            await behavior.onUIComplete();
-          }
-          await this.bridge.updateHeight(behavior.targetHeight);
+        const result = await this.executeBehavior(entry);
+        // 完成，或 keep-ui 失败时界面保持在目标，内容高度即为请求的高度
+        const keptUI = result.status === 'failed' && (entry.options.failurePolicy ?? this.failurePolicy) === 'keep-ui';
+        if (!entry.lease && (result.status === 'completed' || keptUI)) {
+          this.contentHeight = requestedHeight;
         }
-        
-        // 更新当前高度
-        this.currentHeight = behavior.targetHeight;
-        
-        if (this.debug) {
-          console.log(`[${this.debugId}] Height adjustment completed: ${this.currentHeight}px`);
+        this.settle(entry, result);
+      } catch (error) {
+        this.fail(entry, error);
+      } finally {
+        this.inFlight = undefined;
+      }
+
+      if (this._isDisposed) {
+        break;
+      }
+    }
+    
+    this.executing = false;
+  }
+
+  /**
+   * AbortSignal 触发：排队中的直接移除；执行中的在下一个阶段边界停止
+   */
+  private handleAbort(entry: PendingAdjustment): void {
+    const index = this.behaviorQueue.indexOf(entry);
+    if (index === -1) {
+      // 执行中的行为：唤醒过渡等待，在下一个检查点停止
+      if (entry === this.inFlight) {
+        this.interruptTransition?.();
+      }
+      return;
+    }
+
+    this.behaviorQueue.splice(index, 1);
+    this.logger.debug(`Aborted queued adjustment to ${entry.behavior.targetHeight}px`, {
+      toHeight: entry.behavior.targetHeight
+    });
+    this.fail(entry, new AdjustmentCancelledError(entry.behavior.targetHeight, 'aborted'));
+  }
+
+  /**
+   * 阶段边界检查：已取消或已销毁时停止执行
+   */
+  private checkpoint(entry: PendingAdjustment): void {
+    if (this._isDisposed) {
+      throw new AdjustmentCancelledError(entry.behavior.targetHeight, 'disposed');
+    }
+    if (entry.options.signal?.aborted) {
+      throw new AdjustmentCancelledError(entry.behavior.targetHeight, 'aborted');
+    }
+  }
+
+  /**
+   * 向调用方交付结果（只生效一次）
+   */
+  private settle(entry: PendingAdjustment, result: AdjustmentResult): void {
+    if (entry.settled) {
+      return;
+    }
+    entry.settled = true;
+    entry.detach?.();
+    this.pendingCount--;
+    entry.resolve(entry.overtaken > 0 ? { ...result, overtakenBy: entry.overtaken } : result);
+
+    if (result.status === 'completed' || result.status === 'superseded') {
+      this.events.emit(result.status, result);
+    }
+    this.events.emit('pending-changed', { pendingCount: this.pendingCount });
+  }
+
+  /**
+   * 以错误结束调用方的 Promise（只生效一次）
+   */
+  private fail(entry: PendingAdjustment, error: unknown): void {
+    if (entry.settled) {
+      return;
+    }
+    entry.settled = true;
+    entry.detach?.();
+    this.pendingCount--;
+    entry.reject(error);
+
+    if (error instanceof AdjustmentCancelledError) {
+      this.events.emit('cancelled', { targetHeight: error.targetHeight, reason: error.reason });
+    }
+    this.events.emit('pending-changed', { pendingCount: this.pendingCount });
+  }
+
+  /**
+   * coalesce-by-window：从队首入队起等待一个窗口，收集同一波突发调用
+   */
+  private async waitForCoalesceWindow(): Promise<void> {
+    const head = this.behaviorQueue[0];
+    if (!head) {
+      return;
+    }
+
+    const windowMs = this.coalesceWindowMs
+      ?? (this.resolvedCapabilities ?? await this.getCapabilities()).preferredUpdateIntervalMs
+      ?? DEFAULT_COALESCE_WINDOW_MS;
+    const remaining = head.enqueuedAt + windowMs - Date.now();
+    if (remaining > 0) {
+      await new Promise(resolve => setTimeout(resolve, remaining));
+    }
+  }
+
+  /**
+   * 取代队列中尚未开始且满足条件的行为
+   * 被取代的调用方收到 superseded 结果，而不是永远挂起
+   */
+  private supersedePending(
+    shouldSupersede: (entry: PendingAdjustment, index: number, queue: readonly PendingAdjustment[]) => boolean
+  ): void {
+    const queue = this.behaviorQueue;
+    const superseded = queue.filter((entry, index) => shouldSupersede(entry, index, queue));
+    this.behaviorQueue = queue.filter(entry => !superseded.includes(entry));
+
+    for (const entry of superseded) {
+      const { behavior } = entry;
+      this.logger.debug(`Superseded pending adjustment to ${behavior.targetHeight}px`, {
+        toHeight: behavior.targetHeight
+      });
+
+      this.settle(entry, {
+        status: 'superseded',
+        fromHeight: this.currentHeight,
+        toHeight: behavior.targetHeight,
+        duration: 0,
+        applied: false
+      });
+    }
+  }
+
+  /**
+   * 执行单个行为，并汇总为调整结果
+   */
+  private async executeBehavior(entry: PendingAdjustment): Promise<AdjustmentResult> {
+    const startedAt = Date.now();
+    const capabilities = this.resolvedCapabilities ?? await this.getCapabilities();
+    this.checkpoint(entry);
+
+    // 计入租约：租约行为按最新的内容高度重新计算，普通行为在其目标上叠加
+    const leasedHeight = entry.lease ? this.leaseTarget() : this.applyLeases(entry.behavior.targetHeight);
+    if (entry.lease && leasedHeight === 0) {
+      // 释放了最后一个租约，但从未有过内容高度：保持当前高度，不向平台发送 0
+      this.logger.debug(`No content height to restore, keeping ${this.currentHeight}px`);
+      return { ...this.unchangedResult(), duration: Date.now() - startedAt };
+    }
+    if (leasedHeight !== entry.behavior.targetHeight) {
+      this.logger.debug(`Leases raise target height ${entry.behavior.targetHeight}px to ${leasedHeight}px`, {
+        toHeight: leasedHeight,
+        requestedHeight: entry.behavior.targetHeight
+      });
+      entry.behavior = { ...entry.behavior, targetHeight: leasedHeight };
+    }
+    if (entry.lease) {
+      // 租约目标未经 adjustHeight 校验（例如 extraPx 叠加后超出合理范围）
+      validateHeightBehavior(entry.behavior);
+    }
+
+    // 按平台限制修正目标高度，之后各阶段都使用修正后的高度
+    const requestedHeight = entry.behavior.targetHeight;
+    const clampedHeight = clampToCapabilities(entry.behavior.targetHeight, capabilities);
+    if (clampedHeight !== entry.behavior.targetHeight) {
+      this.logger.debug(`Clamped target height ${entry.behavior.targetHeight}px to ${clampedHeight}px`, {
+        toHeight: clampedHeight,
+        requestedHeight: entry.behavior.targetHeight
+      });
+      entry.behavior = { ...entry.behavior, targetHeight: clampedHeight };
+    }
+
+    const { behavior } = entry;
+    const execution: ExecutionState = {
+      fromHeight: this.currentHeight,
+      startedAt,
+      phase: 'bridge',
+      applied: false,
+      requestedHeight,
+      appliedHeight: undefined,
+      uiChanged: false,
+      dynamicHeight: capabilities.dynamicHeight,
+      transition: this.resolveTransition(behavior, capabilities)
+    };
+
+    this.logger.debug(`Processing height adjustment: ${execution.fromHeight}px → ${behavior.targetHeight}px`, {
+      fromHeight: execution.fromHeight,
+      toHeight: behavior.targetHeight
+    });
+
+    this.events.emit('started', {
+      fromHeight: execution.fromHeight,
+      toHeight: behavior.targetHeight,
+      direction: behavior.targetHeight > execution.fromHeight ? 'expand' : 'shrink'
+    });
+    
+    // 时序策略决定步骤顺序；并行步骤中以最先失败的阶段为准
+    const strategy = behavior.timing !== undefined ? resolveTimingStrategy(behavior.timing) : this.timing;
+    let failedPhase: AdjustmentPhase | undefined;
+    const step = (phase: AdjustmentPhase, run: () => Promise<unknown>) => {
+      let started = false;
+      return async (): Promise<void> => {
+        if (started) {
+          return;
         }
-        
+        started = true;
+        try {
+          await run();
+        } catch (error) {
+          failedPhase ??= phase;
+          throw error;
+        }
+      };
+    };
+    
+    try {
+      await strategy.run({
+        fromHeight: execution.fromHeight,
+        toHeight: behavior.targetHeight,
+        direction: behavior.targetHeight > execution.fromHeight ? 'expand' : 'shrink',
+        bridge: step('bridge', () => this.runBridgePhase(entry, execution)),
+        uiChange: step('ui-change', () => this.runUIPhase('ui-change', behavior, execution)),
+        uiComplete: step('ui-complete', () => this.runUIPhase('ui-complete', behavior, execution)),
+        updateHeight: async height => {
+          this.checkpoint(entry);
+          let applied: number | undefined;
+          await step('bridge', async () => {
+            execution.phase = 'bridge';
+            applied = await this.applyBridgeHeight(entry, execution, height, height);
+          })();
+          this.setCurrentHeight(applied!);
+          return applied!;
+        },
+        checkpoint: () => this.checkpoint(entry)
+      });
+      
+      // 更新当前高度：以平台实际应用的高度为准
+      this.setCurrentHeight(execution.appliedHeight ?? behavior.targetHeight);
+      
+      this.logger.debug(`Height adjustment completed: ${this.currentHeight}px`, {
+        fromHeight: execution.fromHeight,
+        toHeight: behavior.targetHeight,
+        durationMs: Date.now() - execution.startedAt
+      });
+
+      return this.createResult('completed', behavior, execution);
+    } catch (error) {
+      // 取消：不做容错补偿，只记录平台已生效的高度
+      if (error instanceof AdjustmentCancelledError) {
+        if (execution.applied) {
+          this.setCurrentHeight(execution.appliedHeight ?? behavior.targetHeight);
+        }
+        this.logger.debug(`Height adjustment cancelled (${error.reason}) at ${this.currentHeight}px`, {
+          fromHeight: execution.fromHeight,
+          toHeight: behavior.targetHeight,
+          phase: execution.phase
+        });
+        throw error;
+      }
+
+      // 过渡被新行为打断：停在中间高度，由新行为接着调整
+      if (error instanceof TransitionInterrupted) {
+        this.logger.debug(`Transition interrupted at ${this.currentHeight}px`, {
+          fromHeight: execution.fromHeight,
+          toHeight: behavior.targetHeight
+        });
+        return this.createResult('superseded', behavior, execution);
+      }
+
+      if (failedPhase) {
+        execution.phase = failedPhase;
+      }
+      return this.recover(entry, execution, error instanceof DMAppFrameError
+        ? error
+        : new HeightControllerError(
+          `Timing strategy "${strategy.name}" failed: ${error instanceof Error ? error.message : String(error)}`
+        ));
+    }
+  }
+
+  /**
+   * 解析过渡：减少动态效果、平台不支持动态高度或起始高度未知时降级为瞬时变化
+   */
+  private resolveTransition(
+    behavior: HeightAdjustmentBehavior,
+    capabilities: BridgeCapabilities
+  ): ResolvedTransition | undefined {
+    const { transition, targetHeight } = behavior;
+    if (!transition || transition.durationMs <= 0 || this.currentHeight <= 0 || this.currentHeight === targetHeight) {
+      return undefined;
+    }
+
+    if (!capabilities.dynamicHeight || prefersReducedMotion()) {
+      this.logger.debug('Transition skipped: reduced motion or no dynamic height support', {
+        toHeight: targetHeight
+      });
+      return undefined;
+    }
+
+    return {
+      durationMs: transition.durationMs,
+      mode: transition.mode ?? 'bridge',
+      // 不超过平台建议的更新频率
+      stepMs: Math.max(transition.stepMs ?? DEFAULT_TRANSITION_STEP_MS, capabilities.preferredUpdateIntervalMs ?? 0),
+      ease: resolveEasing(transition.easing)
+    };
+  }
+
+  /**
+   * 等待一段过渡时间
+   * @returns false when woken early by a newer adjustment, an abort or dispose
+   */
+  private waitTransition(ms: number): Promise<boolean> {
+    if (this.behaviorQueue.length > 0) {
+      return Promise.resolve(false);
+    }
+
+    return new Promise(resolve => {
+      const timer = setTimeout(() => {
+        this.interruptTransition = undefined;
+        resolve(true);
+      }, ms);
+      this.interruptTransition = () => {
+        clearTimeout(timer);
+        this.interruptTransition = undefined;
+        resolve(false);
+      };
+    });
+  }
+
+  /**
+   * 桥接驱动的过渡：按步长向平台发送中间高度
+   * 新行为到达时，serial 策略直接跳到目标，其他策略停在当前高度
+   */
+  private async animateBridge(entry: PendingAdjustment, execution: ExecutionState): Promise<void> {
+    const { durationMs, stepMs, ease } = execution.transition!;
+    const { fromHeight } = execution;
+    const { targetHeight } = entry.behavior;
+
+    for (let elapsed = 0; elapsed < durationMs;) {
+      const wait = Math.min(stepMs, durationMs - elapsed);
+      const completed = await this.waitTransition(wait);
+      this.checkpoint(entry);
+
+      if (!completed) {
+        if (this.queuePolicy === 'serial') {
+          return;
+        }
+        throw new TransitionInterrupted();
+      }
+
+      elapsed += wait;
+      if (elapsed >= durationMs) {
+        return;
+      }
+
+      const height = Math.round(fromHeight + (targetHeight - fromHeight) * ease(elapsed / durationMs));
+      this.setCurrentHeight(await this.callBridge(height));
+    }
+  }
+
+  /**
+   * 平台阶段：桥接错误统一包装为 PlatformBridgeError
+   */
+  private async runBridgePhase(entry: PendingAdjustment, execution: ExecutionState): Promise<void> {
+    const { targetHeight } = entry.behavior;
+    execution.phase = 'bridge';
+    if (!execution.dynamicHeight) {
+      this.logger.debug('Bridge has no dynamic height support, skipping bridge call', {
+        toHeight: targetHeight
+      });
+      // 不调用桥接，但按能力修正过的目标同样需要通知界面
+      if (targetHeight !== execution.requestedHeight) {
+        execution.appliedHeight = targetHeight;
+        await this.notifyClamped(entry.behavior, execution.requestedHeight, targetHeight);
+      }
+      return;
+    }
+
+    if (execution.transition?.mode === 'bridge') {
+      await this.animateBridge(entry, execution);
+    }
+
+    await this.applyBridgeHeight(entry, execution, targetHeight, execution.requestedHeight);
+  }
+
+  /**
+   * 向平台发送高度并记录实际应用的高度
+   * 默认桥接阶段与时序策略的 updateHeight 共用：实际高度与发送的不同时记录警告，
+   * 与要求的不同时（平台或能力修正）通知 onHeightClamped
+   */
+  private async applyBridgeHeight(
+    entry: PendingAdjustment,
+    execution: ExecutionState,
+    targetHeight: number,
+    requestedHeight: number
+  ): Promise<number> {
+    const appliedHeight = await this.callBridge(targetHeight);
+    execution.applied = true;
+    execution.appliedHeight = appliedHeight;
+
+    this.events.emit('bridge-applied', {
+      fromHeight: execution.fromHeight,
+      toHeight: targetHeight,
+      appliedHeight
+    });
+
+    if (appliedHeight !== targetHeight) {
+      this.logger.warn(`Platform applied ${appliedHeight}px instead of ${targetHeight}px`, {
+        toHeight: targetHeight,
+        appliedHeight
+      });
+    }
+    if (appliedHeight !== requestedHeight) {
+      await this.notifyClamped(entry.behavior, requestedHeight, appliedHeight);
+    }
+    return appliedHeight;
+  }
+
+  /**
+   * 平台应用的高度与要求不同：通知界面适配（例如开启内部滚动）
+   * 平台已生效，回调异常只记录，不使调整失败
+   */
+  private async notifyClamped(
+    behavior: HeightAdjustmentBehavior,
+    requestedHeight: number,
+    appliedHeight: number
+  ): Promise<void> {
+    if (!behavior.onHeightClamped) {
+      return;
+    }
+    try {
+      await behavior.onHeightClamped(appliedHeight, requestedHeight);
+    } catch (error) {
+      this.logger.error('onHeightClamped threw', { toHeight: requestedHeight, appliedHeight, error });
+    }
+  }
+
+  /**
+   * 调用桥接；不返回有效高度的桥接（旧实现）视为按要求应用
+   */
+  private async callBridge(targetHeight: number): Promise<number> {
+    let appliedHeight: unknown;
+    try {
+      appliedHeight = await withTimeout(
+        this.bridge.updateHeight(targetHeight),
+        this.bridgeTimeoutMs,
+        `updateHeight(${targetHeight})`
+      );
+    } catch (error) {
+      throw toPlatformBridgeError(error, targetHeight);
+    }
+    return typeof appliedHeight === 'number' && Number.isFinite(appliedHeight) ? appliedHeight : targetHeight;
+  }
+
+  /**
+   * UI 阶段：用户回调错误包装为 UICallbackError，与桥接错误区分
+   */
+  private async runUIPhase(
+    phase: 'ui-change' | 'ui-complete',
+    behavior: HeightAdjustmentBehavior,
+    execution: ExecutionState
+  ): Promise<void> {
+    execution.phase = phase;
+    const callback = phase === 'ui-change' ? behavior.onUIChange : behavior.onUIComplete;
+
+    if (callback) {
+      if (phase === 'ui-change') {
+        // 无论成功与否都视为已触发，容错时不会重复调用
+        execution.uiChanged = true;
+      }
+
+      try {
+        // onUIComplete 可设超时，避免卡住的动画回调永久阻塞队列
+        const timeoutMs = phase === 'ui-complete' ? this.uiCompleteTimeoutMs : undefined;
+        await withTimeout(callback(), timeoutMs, phase);
       } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        if (this.debug) {
-          console.error(`[${this.debugId}] Height adjustment failed:`, errorMessage);
+        throw error instanceof TimeoutError ? error : new UICallbackError(phase, error);
+      }
+    }
+
+    // CSS 驱动的过渡：等待 UI 完成动画（可被新行为打断）
+    if (phase === 'ui-change' && execution.transition?.mode === 'css') {
+      await this.waitTransition(execution.transition.durationMs);
+    }
+
+    if (phase === 'ui-change') {
+      this.events.emit('ui-changed', {
+        fromHeight: execution.fromHeight,
+        toHeight: behavior.targetHeight
+      });
+    }
+  }
+
+  /**
+   * 失败处理：按失败策略补偿，并通知 onError
+   * - keep-ui：保持界面，未触发过 onUIChange 时补触发一次
+   * - rollback：恢复到调整前的高度，通知 onRollback
+   * - throw：不做补偿，以错误结束调用方的 Promise
+   */
+  private async recover(
+    entry: PendingAdjustment,
+    execution: ExecutionState,
+    error: DMAppFrameError
+  ): Promise<AdjustmentResult> {
+    const { behavior } = entry;
+    const policy = entry.options.failurePolicy ?? this.failurePolicy;
+
+    this.logger.error(`Height adjustment failed in ${execution.phase} phase: ${error.message}`, {
+      fromHeight: execution.fromHeight,
+      toHeight: behavior.targetHeight,
+      phase: execution.phase,
+      policy,
+      code: error.code
+    });
+
+    const context: AdjustmentErrorContext = {
+      phase: execution.phase,
+      fromHeight: execution.fromHeight,
+      toHeight: behavior.targetHeight,
+      policy
+    };
+    this.reportError(error, context);
+    this.events.emit('failed', { ...context, error });
+
+    switch (policy) {
+      case 'throw':
+        // 未应用目标时保留平台实际高度（过渡中可能停在中间高度）
+        if (execution.applied) {
+          this.setCurrentHeight(execution.appliedHeight ?? behavior.targetHeight);
         }
-        
+        throw error;
+
+      case 'rollback':
+        return this.rollback(behavior, execution, error);
+
+      case 'keep-ui':
+      default:
         // 容错：确保UI状态正确（第一性原理：不回滚已展示的界面）
-        if (behavior.onUIChange) {
-          behavior.onUIChange();
+        if (!execution.uiChanged && behavior.onUIChange) {
+          execution.uiChanged = true;
+          try {
+            await behavior.onUIChange();
+          } catch (fallbackError) {
+            this.reportError(new UICallbackError('ui-change', fallbackError), {
+              phase: 'ui-change',
+              fromHeight: execution.fromHeight,
+              toHeight: behavior.targetHeight,
+              policy
+            });
+          }
         }
-        this.currentHeight = behavior.targetHeight;
+        // 平台已应用时以实际高度为准，否则跟随界面
+        this.setCurrentHeight(execution.appliedHeight ?? behavior.targetHeight);
         
         // 继续处理队列，不因单个失败而中断
+        return this.createResult('failed', behavior, execution, error);
+    }
+  }
+
+  /**
+   * 回滚到调整前的高度：平台已生效则恢复平台高度，UI 已变化则通知 onRollback
+   */
+  private async rollback(
+    behavior: HeightAdjustmentBehavior,
+    execution: ExecutionState,
+    error: DMAppFrameError
+  ): Promise<AdjustmentResult> {
+    const { fromHeight } = execution;
+    let restored = true;
+    let restoredHeight = fromHeight;
+
+    // 过渡中失败时平台可能停在中间高度，同样需要恢复；与正常调用一样施加超时与重试
+    if ((execution.applied || this.currentHeight !== fromHeight) && fromHeight > 0) {
+      try {
+        restoredHeight = await this.callBridge(fromHeight);
+      } catch (rollbackError) {
+        restored = false;
+        this.reportError(toPlatformBridgeError(rollbackError, fromHeight), {
+          phase: 'rollback',
+          fromHeight: behavior.targetHeight,
+          toHeight: fromHeight,
+          policy: 'rollback'
+        });
       }
     }
-    
-    this.executing = false;
+
+    if (execution.uiChanged && behavior.onRollback) {
+      try {
+        await behavior.onRollback(fromHeight);
+      } catch (rollbackError) {
+        this.reportError(new UICallbackError('rollback', rollbackError), {
+          phase: 'rollback',
+          fromHeight: behavior.targetHeight,
+          toHeight: fromHeight,
+          policy: 'rollback'
+        });
+      }
+    }
+
+    this.setCurrentHeight(restored ? restoredHeight : behavior.targetHeight);
+
+    this.logger.info(`Rolled back to ${this.currentHeight}px`, {
+      fromHeight: behavior.targetHeight,
+      toHeight: this.currentHeight,
+      phase: 'rollback',
+      restored
+    });
+
+    return this.createResult(restored ? 'rolled-back' : 'failed', behavior, execution, error);
   }
 
   /**
-   * 获取当前高度（调试用）
+   * 通知 onError 钩子；钩子本身的异常不影响队列
+   */
+  private reportError(error: DMAppFrameError, context: AdjustmentErrorContext): void {
+    if (!this.onError) {
+      return;
+    }
+    try {
+      this.onError(error, context);
+    } catch (hookError) {
+      this.logger.error('onError hook threw', { error: hookError });
+    }
+  }
+
+  private createResult(
+    status: AdjustmentStatus,
+    behavior: HeightAdjustmentBehavior,
+    execution: ExecutionState,
+    error?: unknown
+  ): AdjustmentResult {
+    return {
+      status,
+      fromHeight: execution.fromHeight,
+      toHeight: behavior.targetHeight,
+      duration: Date.now() - execution.startedAt,
+      applied: execution.applied,
+      ...(execution.appliedHeight !== undefined && execution.appliedHeight !== execution.requestedHeight && {
+        requestedHeight: execution.requestedHeight,
+        appliedHeight: execution.appliedHeight
+      }),
+      ...(error !== undefined && { error })
+    };
+  }
+
+  /**
+   * 自动高度模式：观察元素尺寸变化并自动调整高度
+   * 测量结果经过防抖后进入同一串行队列，遵循扩展/收缩时序
+   * 
+   * @param element - Element whose size drives the frame height
+   * @param options - Bounds, box model and debounce configuration
+   * @returns Handle to stop observing
+   * 
+   * @throws {HeightControllerError} When controller is disposed or bounds are invalid
+   * 
+   * @example
+   * ```typescript
+   * const handle = controller.observe(document.getElementById('app')!, {
+   *   minHeight: 200,
+   *   maxHeight: 1200,
+   *   debounceMs: 100
+   * });
+   * 
+   * // Stop auto height
+   * handle.disconnect();
+   * ```
+   */
+  observe(element: Element, options: AutoHeightOptions = {}): AutoHeightHandle {
+    this.ensureNotDisposed();
+
+    this.logger.debug('Observing element for auto height');
+
+    const handle = observeElementHeight(this, element, options);
+    const disconnect = handle.disconnect.bind(handle);
+    const tracked: AutoHeightHandle = {
+      disconnect: () => {
+        this.observers.delete(tracked);
+        disconnect();
+      },
+      remeasure: () => handle.remeasure(),
+      get isObserving() {
+        return handle.isObserving;
+      }
+    };
+
+    this.observers.add(tracked);
+    return tracked;
+  }
+
+  /**
+   * 获取当前高度
    */
   getCurrentHeight(): number {
     return this.currentHeight;
   }
 
+  /**
+   * 不含租约的高度：持有租约时为内容高度（尚无内容高度时为取得租约前的高度），否则即当前高度
+   */
+  getContentHeight(): number {
+    return this.leases.size > 0 ? this.contentHeight || this.leaseBaseHeight : this.currentHeight;
+  }
+
+  /**
+   * 尚未结算的调用数（排队中 + 执行中）
+   */
+  getPendingCount(): number {
+    return this.pendingCount;
+  }
+
+  /**
+   * 尚未结算的调用快照：执行中的在前，其后按队列顺序
+   */
+  getQueueSnapshot(): QueuedAdjustment[] {
+    const snapshot = (entry: PendingAdjustment, running: boolean): QueuedAdjustment => ({
+      targetHeight: entry.behavior.targetHeight,
+      priority: priorityOf(entry.behavior),
+      enqueuedAt: entry.enqueuedAt,
+      running
+    });
+    return [
+      ...(this.inFlight ? [snapshot(this.inFlight, true)] : []),
+      ...this.behaviorQueue.map(entry => snapshot(entry, false))
+    ];
+  }
+
+  /**
+   * 暂停队列：执行中的行为照常完成，之后的行为保持排队直到 resume
+   * 用于调试（见 attachDevtools），排队中的行为仍可被中止或取代
+   */
+  pause(): void {
+    this.ensureNotDisposed();
+    this.paused = true;
+    this.logger.debug('Queue paused', { queueLength: this.behaviorQueue.length });
+  }
+
+  /**
+   * 恢复暂停的队列
+   */
+  resume(): void {
+    if (!this.paused) {
+      return;
+    }
+    this.paused = false;
+    this.logger.debug('Queue resumed', { queueLength: this.behaviorQueue.length });
+    this.resumeQueue?.();
+    this.resumeQueue = undefined;
+  }
+
+  /**
+   * Whether the queue is paused
+   */
+  get isPaused(): boolean {
+    return this.paused;
+  }
+
+  /**
+   * 平台桥接能力（首次调用时查询并缓存）
+   * 桥接未实现 getCapabilities 或查询失败时，视为支持动态高度且没有限制
+   * 
+   * @example
+   * ```typescript
+   * const { dynamicHeight } = await controller.getCapabilities();
+   * if (!dynamicHeight) {
+   *   enableScrollingLayout();
+   * }
+   * ```
+   */
+  getCapabilities(): Promise<BridgeCapabilities> {
+    this.capabilities ??= this.resolvedCapabilities
+      ? Promise.resolve(this.resolvedCapabilities)
+      : this.loadCapabilities();
+    return this.capabilities;
+  }
+
+  private async loadCapabilities(): Promise<BridgeCapabilities> {
+    let capabilities = DEFAULT_CAPABILITIES;
+    try {
+      capabilities = { ...DEFAULT_CAPABILITIES, ...(await this.bridge.getCapabilities?.()) };
+      this.logger.debug('Bridge capabilities resolved', { ...capabilities });
+    } catch (error) {
+      this.logger.warn('Failed to query bridge capabilities, assuming defaults', { error });
+    }
+
+    this.resolvedCapabilities = capabilities;
+    return capabilities;
+  }
+
+  /**
+   * 持久化高度的恢复结果（未配置 persistence 或没有可用记录时为 undefined）
+   * 
+   * @example
+   * ```typescript
+   * const controller = new CoreHeightController(bridge, {
+   *   persistence: { storage: createLocalHeightStorage(), key: blockId }
+   * });
+   * const restored = await controller.whenRestored();
+   * ```
+   */
+  whenRestored(): Promise<number | undefined> {
+    return this.persistence?.restored ?? Promise.resolve(undefined);
+  }
+
+  /**
+   * 订阅生命周期事件
+   * 
+   * @param event - Event name
+   * @param handler - Receives the event payload; exceptions are isolated from the queue
+   * @returns Function removing the handler
+   * 
+   * @example
+   * ```typescript
+   * const off = controller.on('failed', ({ error, phase }) => analytics.track('height_failed', { phase }));
+   * ```
+   */
+  on<K extends keyof HeightControllerEvents>(
+    event: K,
+    handler: (payload: HeightControllerEvents[K]) => void
+  ): () => void {
+    return this.events.on(event, handler);
+  }
+
+  /**
+   * 订阅当前高度变化（兼容 useSyncExternalStore：不会立即回调，配合 getCurrentHeight 取快照）
+   * 
+   * @param listener - Called with the new height whenever it changes
+   * @returns Function removing the listener
+   */
+  subscribe(listener: (height: number) => void): () => void {
+    this.heightListeners.add(listener);
+    return () => {
+      this.heightListeners.delete(listener);
+    };
+  }
+
+  /**
+   * 更新当前高度并通知订阅者
+   */
+  private setCurrentHeight(height: number): void {
+    if (height === this.currentHeight) {
+      return;
+    }
+    this.currentHeight = height;
+
+    for (const listener of [...this.heightListeners]) {
+      try {
+        listener(height);
+      } catch (error) {
+        this.logger.error('Height listener threw', { error });
+      }
+    }
+  }
+
   /**
    * 清理资源
    */
@@ -157,13 +1419,26 @@ export class CoreHeightController implements HeightController {
       return;
     }
 
-    if (this.debug) {
-      console.log(`[${this.debugId}] Disposing controller`);
-    }
+    this.logger.debug('Disposing controller', { height: this.currentHeight });
+
+    this._isDisposed = true;
+    this.interruptTransition?.();
+    this.resumeQueue?.();
+    this.persistence?.disconnect();
+    this.leases.clear();
+    this.observers.forEach(observer => observer.disconnect());
 
+    // 所有未完成的调用方都收到类型化的取消错误，而不是永远挂起
+    const outstanding = this.inFlight ? [this.inFlight, ...this.behaviorQueue] : [...this.behaviorQueue];
     this.behaviorQueue.length = 0;
     this.executing = false;
-    this._isDisposed = true;
+    for (const entry of outstanding) {
+      this.fail(entry, new AdjustmentCancelledError(entry.behavior.targetHeight, 'disposed'));
+    }
+
+    this.events.emit('disposed', { height: this.currentHeight });
+    this.events.clear();
+    this.heightListeners.clear();
   }
 
   /**
@@ -181,58 +1456,179 @@ export class CoreHeightController implements HeightController {
       throw new HeightControllerError('Controller has been disposed');
     }
   }
+}
 
-  /**
-   * 严格验证高度行为参数
-   * 基于第一性原理：确保所有输入都是安全和有效的
-   */
-  private validateHeightBehavior(behavior: HeightAdjustmentBehavior): void {
-    // 验证行为对象本身
-    if (!behavior || typeof behavior !== 'object') {
-      throw new HeightControllerError(
-        'Invalid behavior: Expected a valid HeightAdjustmentBehavior object'
-      );
-    }
+/**
+ * 将事务中的行为合并为一个：最后的目标高度与过渡生效，回调按顺序串联，回滚按相反顺序
+ */
+function mergeBehaviors(behaviors: readonly HeightAdjustmentBehavior[]): HeightAdjustmentBehavior {
+  const last = behaviors[behaviors.length - 1]!;
+  const transition = [...behaviors].reverse().find(behavior => behavior.transition)?.transition;
+  const timing = [...behaviors].reverse().find(behavior => behavior.timing)?.timing;
+  const priority = behaviors.reduce<HeightAdjustmentBehavior>(
+    (highest, behavior) => priorityRank(behavior) > priorityRank(highest) ? behavior : highest,
+    last
+  ).priority;
+  const sequence = (callbacks: Array<(() => void | Promise<void>) | undefined>) =>
+    async (): Promise<void> => {
+      for (const callback of callbacks) {
+        await callback?.();
+      }
+    };
 
-    // 验证目标高度
-    const { targetHeight } = behavior;
-    if (typeof targetHeight !== 'number') {
-      throw new HeightControllerError(
-        `Invalid targetHeight: Expected number, got ${typeof targetHeight}`
-      );
-    }
+  return {
+    targetHeight: last.targetHeight,
+    onUIChange: sequence(behaviors.map(behavior => behavior.onUIChange)),
+    onUIComplete: sequence(behaviors.map(behavior => behavior.onUIComplete)),
+    onHeightClamped: async (appliedHeight, requestedHeight) => {
+      for (const behavior of behaviors) {
+        await behavior.onHeightClamped?.(appliedHeight, requestedHeight);
+      }
+    },
+    onRollback: async previousHeight => {
+      for (const behavior of [...behaviors].reverse()) {
+        await behavior.onRollback?.(previousHeight);
+      }
+    },
+    ...(transition && { transition }),
+    ...(timing && { timing }),
+    ...(priority && { priority })
+  };
+}
 
-    if (!Number.isFinite(targetHeight)) {
-      throw new HeightControllerError(
-        `Invalid targetHeight: ${targetHeight}. Must be a finite number`
-      );
+/**
+ * 校验租约请求
+ */
+function validateLeaseRequest(request: HeightLeaseRequest): void {
+  if (!request || typeof request !== 'object') {
+    throw new HeightControllerError('Invalid lease: Expected { extraPx } or { minHeight }');
+  }
+  if ('extraPx' in request) {
+    if (!(Number.isFinite(request.extraPx) && request.extraPx > 0)) {
+      throw new HeightControllerError(`Invalid lease extraPx: ${request.extraPx}. Must be a positive finite number`);
     }
-
-    if (targetHeight < FRAMEWORK_CONSTANTS.MIN_REASONABLE_HEIGHT) {
+  } else if ('minHeight' in request) {
+    if (!isReasonableHeight(request.minHeight)) {
       throw new HeightControllerError(
-        `Invalid targetHeight: ${targetHeight}. Must be at least ${FRAMEWORK_CONSTANTS.MIN_REASONABLE_HEIGHT}px`
+        `Invalid lease minHeight: ${request.minHeight}. Must be within reasonable range (${FRAMEWORK_CONSTANTS.MIN_REASONABLE_HEIGHT}-${FRAMEWORK_CONSTANTS.MAX_REASONABLE_HEIGHT}px)`
       );
     }
+  } else {
+    throw new HeightControllerError('Invalid lease: Expected { extraPx } or { minHeight }');
+  }
+}
 
-    // 业务逻辑边界：使用统一的合理高度检查
-    if (!isReasonableHeight(targetHeight)) {
-      throw new HeightControllerError(
-        `Invalid targetHeight: ${targetHeight}. Must be within reasonable range (${FRAMEWORK_CONSTANTS.MIN_REASONABLE_HEIGHT}-${FRAMEWORK_CONSTANTS.MAX_REASONABLE_HEIGHT}px)`
-      );
-    }
+/**
+ * 优先级序号：数值越大越先执行
+ */
+const PRIORITY_RANKS: Readonly<Record<AdjustmentPriority, number>> = {
+  'user-blocking': 2,
+  normal: 1,
+  background: 0
+};
 
-    // 验证可选回调函数
-    const { onUIChange, onUIComplete } = behavior;
-    if (onUIChange !== undefined && typeof onUIChange !== 'function') {
-      throw new HeightControllerError(
-        `Invalid onUIChange: Expected function or undefined, got ${typeof onUIChange}`
-      );
-    }
+function priorityOf(behavior: { readonly priority?: AdjustmentPriority | undefined }): AdjustmentPriority {
+  return behavior.priority ?? 'normal';
+}
 
-    if (onUIComplete !== undefined && typeof onUIComplete !== 'function') {
+export function priorityRank(behavior: { readonly priority?: AdjustmentPriority | undefined }): number {
+  return PRIORITY_RANKS[priorityOf(behavior)];
+}
+
+/**
+ * 严格验证高度行为参数
+ * 基于第一性原理：确保所有输入都是安全和有效的
+ */
+export function validateHeightBehavior(behavior: HeightAdjustmentBehavior): void {
+  // 验证行为对象本身
+  if (!behavior || typeof behavior !== 'object') {
+    throw new HeightControllerError(
+      'Invalid behavior: Expected a valid HeightAdjustmentBehavior object'
+    );
+  }
+
+  // 验证目标高度
+  const { targetHeight } = behavior;
+  if (typeof targetHeight !== 'number') {
+    throw new HeightControllerError(
+      `Invalid targetHeight: Expected number, got ${typeof targetHeight}`
+    );
+  }
+
+  if (!Number.isFinite(targetHeight)) {
+    throw new HeightControllerError(
+      `Invalid targetHeight: ${targetHeight}. Must be a finite number`
+    );
+  }
+
+  if (targetHeight < FRAMEWORK_CONSTANTS.MIN_REASONABLE_HEIGHT) {
+    throw new HeightControllerError(
+      `Invalid targetHeight: ${targetHeight}. Must be at least ${FRAMEWORK_CONSTANTS.MIN_REASONABLE_HEIGHT}px`
+    );
+  }
+
+  // 业务逻辑边界：使用统一的合理高度检查
+  if (!isReasonableHeight(targetHeight)) {
+    throw new HeightControllerError(
+      `Invalid targetHeight: ${targetHeight}. Must be within reasonable range (${FRAMEWORK_CONSTANTS.MIN_REASONABLE_HEIGHT}-${FRAMEWORK_CONSTANTS.MAX_REASONABLE_HEIGHT}px)`
+    );
+  }
+
+  // 验证可选回调函数
+  const { onUIChange, onUIComplete, onRollback, onHeightClamped } = behavior;
+  if (onUIChange !== undefined && typeof onUIChange !== 'function') {
+    throw new HeightControllerError(
+      `Invalid onUIChange: Expected function or undefined, got ${typeof onUIChange}`
+    );
+  }
+
+  if (onUIComplete !== undefined && typeof onUIComplete !== 'function') {
+    throw new HeightControllerError(
+      `Invalid onUIComplete: Expected function or undefined, got ${typeof onUIComplete}`
+    );
+  }
+
+  if (onRollback !== undefined && typeof onRollback !== 'function') {
+    throw new HeightControllerError(
+      `Invalid onRollback: Expected function or undefined, got ${typeof onRollback}`
+    );
+  }
+
+  if (onHeightClamped !== undefined && typeof onHeightClamped !== 'function') {
+    throw new HeightControllerError(
+      `Invalid onHeightClamped: Expected function or undefined, got ${typeof onHeightClamped}`
+    );
+  }
+
+  // 验证可选过渡参数
+  const { transition } = behavior;
+  if (transition !== undefined) {
+    if (!transition || typeof transition !== 'object') {
+      throw new HeightControllerError('Invalid transition: Expected an object');
+    }
+    if (typeof transition.durationMs !== 'number' || !Number.isFinite(transition.durationMs) || transition.durationMs < 0) {
       throw new HeightControllerError(
-        `Invalid onUIComplete: Expected function or undefined, got ${typeof onUIComplete}`
+        `Invalid transition.durationMs: ${transition.durationMs}. Must be a non-negative finite number`
       );
     }
+    if (transition.stepMs !== undefined && !(transition.stepMs > 0)) {
+      throw new HeightControllerError(`Invalid transition.stepMs: ${transition.stepMs}. Must be positive`);
+    }
+    if (transition.mode !== undefined && transition.mode !== 'bridge' && transition.mode !== 'css') {
+      throw new HeightControllerError(`Invalid transition.mode: ${String(transition.mode)}. Expected 'bridge' or 'css'`);
+    }
+  }
+
+  // 验证可选时序策略
+  if (behavior.timing !== undefined) {
+    resolveTimingStrategy(behavior.timing);
+  }
+
+  // 验证可选优先级
+  const { priority } = behavior;
+  if (priority !== undefined && !Object.prototype.hasOwnProperty.call(PRIORITY_RANKS, priority)) {
+    throw new HeightControllerError(
+      `Invalid priority: ${String(priority)}. Expected 'user-blocking', 'normal' or 'background'`
+    );
   }
-}
\ No newline at end of file
+}
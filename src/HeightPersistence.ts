@@ -0,0 +1,240 @@
+/**
+ * DMAppFrame - Height Persistence
+ * 按 block / 文档保存最后一次稳定的高度，重新打开时先恢复到该高度，避免从 initialHeight 跳变
+ */
+
+import type {
+  ObservableHeightController,
+  HeightPersistenceHandle,
+  HeightPersistenceOptions,
+  HeightStorage,
+  Logger
+} from './types.js';
+import { HeightControllerError, isReasonableHeight } from './types.js';
+import { createSilentLogger } from './Logger.js';
+
+/** Default storage key prefix */
+const DEFAULT_NAMESPACE = 'dma-frame:height';
+
+/** Default lifetime of a persisted height */
+const DEFAULT_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * 存储中的记录格式
+ */
+interface PersistedHeight {
+  readonly version: number;
+  readonly height: number;
+  readonly savedAt: number;
+}
+
+/**
+ * In-memory storage, useful for tests and for sharing heights within one page
+ */
+export function createMemoryHeightStorage(): HeightStorage {
+  const values = new Map<string, string>();
+  return {
+    getItem: key => values.get(key) ?? null,
+    setItem: (key, value) => { values.set(key, value); },
+    removeItem: key => { values.delete(key); }
+  };
+}
+
+/**
+ * Storage backed by `localStorage` (or any Web Storage)
+ * 隐私模式或配额不足时 Web Storage 会抛错，这里降级为“没有记录”
+ *
+ * @param storage - Web Storage to use (default: `globalThis.localStorage`)
+ */
+export function createLocalHeightStorage(storage?: Storage): HeightStorage {
+  const resolve = (): Storage | undefined => {
+    try {
+      return storage ?? globalThis.localStorage;
+    } catch {
+      // 某些沙箱中访问 localStorage 本身就会抛出 SecurityError
+      return undefined;
+    }
+  };
+
+  return {
+    getItem: key => {
+      try {
+        return resolve()?.getItem(key) ?? null;
+      } catch {
+        return null;
+      }
+    },
+    setItem: (key, value) => {
+      try {
+        resolve()?.setItem(key, value);
+      } catch {
+        // 写入失败只意味着下次无法恢复
+      }
+    },
+    removeItem: key => {
+      try {
+        resolve()?.removeItem(key);
+      } catch {
+        // 同上
+      }
+    }
+  };
+}
+
+/**
+ * 校验持久化配置
+ */
+function validatePersistenceOptions(options: HeightPersistenceOptions): void {
+  if (!options.key) {
+    throw new HeightControllerError('Invalid persistence key: must be a non-empty string');
+  }
+  if (options.ttlMs !== undefined && !(options.ttlMs > 0)) {
+    throw new HeightControllerError(`Invalid persistence ttlMs: ${options.ttlMs}. Must be positive.`);
+  }
+  if (options.version !== undefined && !Number.isInteger(options.version)) {
+    throw new HeightControllerError(`Invalid persistence version: ${options.version}. Must be an integer.`);
+  }
+}
+
+/**
+ * 解析记录；格式错误、版本不符、过期或高度不合理时返回 undefined
+ */
+function parsePersistedHeight(
+  raw: string,
+  version: number,
+  ttlMs: number,
+  now: number
+): number | undefined {
+  let record: Partial<PersistedHeight>;
+  try {
+    record = JSON.parse(raw);
+  } catch {
+    return undefined;
+  }
+
+  if (typeof record !== 'object' || record === null ||
+      record.version !== version ||
+      typeof record.height !== 'number' || !isReasonableHeight(record.height) ||
+      typeof record.savedAt !== 'number' || now - record.savedAt > ttlMs) {
+    return undefined;
+  }
+  return record.height;
+}
+
+/**
+ * Persist the settled height of a controller and restore it once
+ * 创建后立即读取记录并（在没有其它调整时）恢复高度；之后每当队列清空就保存不含租约的高度
+ *
+ * Restoring goes through `controller.adjustHeight`, so capability clamping and
+ * queueing apply. A stored height is only restored while the controller has
+ * neither a height nor pending adjustments: real content always wins. Stale
+ * records (expired, other schema version, malformed) are removed instead.
+ *
+ * @param controller - Controller whose height is persisted
+ * @param options - Storage, key, TTL and schema version
+ * @param logger - Logger for storage failures (default: silent)
+ * @returns Handle exposing the restored height
+ *
+ * @throws {HeightControllerError} When options are invalid
+ *
+ * @example
+ * ```typescript
+ * const handle = persistHeight(controller, {
+ *   storage: createLocalHeightStorage(),
+ *   key: blockId
+ * });
+ *
+ * const restored = await handle.restored; // e.g. 640, or undefined on first open
+ * ```
+ */
+export function persistHeight(
+  controller: ObservableHeightController,
+  options: HeightPersistenceOptions,
+  logger: Logger = createSilentLogger()
+): HeightPersistenceHandle {
+  validatePersistenceOptions(options);
+
+  const {
+    storage,
+    namespace = DEFAULT_NAMESPACE,
+    ttlMs = DEFAULT_TTL_MS,
+    version = 1
+  } = options;
+  const storageKey = `${namespace}:${options.key}`;
+
+  let connected = true;
+  let lastSaved: number | undefined;
+
+  const discard = async (): Promise<void> => {
+    try {
+      await storage.removeItem(storageKey);
+    } catch (error) {
+      logger.warn('Failed to remove persisted height', { key: storageKey, error });
+    }
+  };
+
+  const restore = (raw: string | null): number | undefined => {
+    if (raw === null) {
+      return undefined;
+    }
+
+    const height = parsePersistedHeight(raw, version, ttlMs, Date.now());
+    if (height === undefined) {
+      logger.debug('Discarding stale persisted height', { key: storageKey });
+      void discard();
+      return undefined;
+    }
+
+    // 不记为已保存：恢复的高度稳定后重新保存一次，刷新 savedAt，常被打开的 block 不会在 TTL 后丢失高度
+    if (!connected || controller.isDisposed ||
+        controller.getCurrentHeight() > 0 || controller.getPendingCount() > 0) {
+      return undefined;
+    }
+
+    logger.debug(`Restoring persisted height ${height}px`, { key: storageKey, toHeight: height });
+    controller.adjustHeight({ targetHeight: height }).catch(() => {
+      // 恢复被取消（例如控制器已销毁）不影响使用
+    });
+    return height;
+  };
+
+  const save = async (height: number): Promise<void> => {
+    const record: PersistedHeight = { version, height, savedAt: Date.now() };
+    try {
+      await storage.setItem(storageKey, JSON.stringify(record));
+    } catch (error) {
+      logger.warn('Failed to persist height', { key: storageKey, error });
+    }
+  };
+
+  // 同步存储（如 localStorage）立即恢复，保证恢复排在其它调整之前
+  let restored: Promise<number | undefined>;
+  try {
+    const raw = storage.getItem(storageKey);
+    restored = raw instanceof Promise ? raw.then(restore) : Promise.resolve(restore(raw));
+  } catch (error) {
+    restored = Promise.reject(error);
+  }
+  restored = restored.catch(error => {
+    logger.warn('Failed to read persisted height', { key: storageKey, error });
+    return undefined;
+  });
+
+  // 队列清空时的高度即为稳定高度；租约只是临时抬高，不计入
+  const unsubscribe = controller.on('pending-changed', ({ pendingCount }) => {
+    const height = controller.getContentHeight?.() ?? controller.getCurrentHeight();
+    if (pendingCount > 0 || height <= 0 || height === lastSaved) {
+      return;
+    }
+    lastSaved = height;
+    void save(height);
+  });
+
+  return {
+    restored,
+    disconnect(): void {
+      connected = false;
+      unsubscribe();
+    }
+  };
+}
@@ -0,0 +1,157 @@
+/**
+ * DMAppFrame - Loggers
+ * 可注入的日志实现：控制台、静默、内存（测试断言用）
+ */
+
+import type { LogEntry, LogFields, Logger, LogLevel } from './types.js';
+
+const LEVEL_ORDER: Record<LogLevel, number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3
+};
+
+/**
+ * Console logger options
+ */
+export interface ConsoleLoggerOptions {
+  /** Lowest level that is written (default: 'debug') */
+  minLevel?: LogLevel;
+
+  /** Prefix used when no debugId field is present (default: 'DMAppFrame') */
+  prefix?: string;
+
+  /** Console implementation (default: global console) */
+  console?: Pick<Console, 'log' | 'warn' | 'error'>;
+}
+
+/**
+ * Create a logger writing to the console
+ * 输出格式：`[debugId] message`，其余结构化字段作为第二个参数
+ *
+ * @example
+ * ```typescript
+ * const controller = new CoreHeightController(bridge, {
+ *   logger: createConsoleLogger({ minLevel: 'info' })
+ * });
+ * ```
+ */
+export function createConsoleLogger(options: ConsoleLoggerOptions = {}): Logger {
+  const { minLevel = 'debug', prefix = 'DMAppFrame' } = options;
+  const target = options.console ?? console;
+
+  const write = (level: LogLevel, message: string, fields?: LogFields): void => {
+    if (LEVEL_ORDER[level] < LEVEL_ORDER[minLevel]) {
+      return;
+    }
+
+    const { debugId, ...rest } = fields ?? {};
+    const line = `[${debugId ?? prefix}] ${message}`;
+    const method = level === 'error' ? target.error : level === 'warn' ? target.warn : target.log;
+
+    if (Object.keys(rest).length > 0) {
+      method.call(target, line, rest);
+    } else {
+      method.call(target, line);
+    }
+  };
+
+  return {
+    debug: (message, fields) => write('debug', message, fields),
+    info: (message, fields) => write('info', message, fields),
+    warn: (message, fields) => write('warn', message, fields),
+    error: (message, fields) => write('error', message, fields)
+  };
+}
+
+/**
+ * Create a logger that discards everything
+ */
+export function createSilentLogger(): Logger {
+  const noop = (): void => {};
+  return { debug: noop, info: noop, warn: noop, error: noop };
+}
+
+/**
+ * Logger keeping entries in memory, for tests and in-app log viewers
+ *
+ * @example
+ * ```typescript
+ * const logger = new MemoryLogger();
+ * const controller = new CoreHeightController(bridge, { logger });
+ * await controller.adjustHeight({ targetHeight: 400 });
+ * expect(logger.find('Height adjustment completed')?.fields.toHeight).toBe(400);
+ * ```
+ */
+export class MemoryLogger implements Logger {
+  readonly entries: LogEntry[] = [];
+
+  /**
+   * @param limit - Maximum number of entries kept; oldest are dropped first (default: unlimited)
+   */
+  constructor(private readonly limit = Infinity) {}
+
+  debug(message: string, fields?: LogFields): void {
+    this.record('debug', message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.record('info', message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.record('warn', message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.record('error', message, fields);
+  }
+
+  /**
+   * First entry whose message contains the given text
+   */
+  find(text: string): LogEntry | undefined {
+    return this.entries.find(entry => entry.message.includes(text));
+  }
+
+  /**
+   * Entries of a given level
+   */
+  byLevel(level: LogLevel): LogEntry[] {
+    return this.entries.filter(entry => entry.level === level);
+  }
+
+  clear(): void {
+    this.entries.length = 0;
+  }
+
+  private record(level: LogLevel, message: string, fields?: LogFields): void {
+    this.entries.push({ level, message, fields: { ...fields }, timestamp: Date.now() });
+    if (this.entries.length > this.limit) {
+      this.entries.shift();
+    }
+  }
+}
+
+/**
+ * Bind fields (e.g. debugId) to every entry written through a logger
+ */
+export function withLogFields(logger: Logger, fields: LogFields): Logger {
+  return {
+    debug: (message, extra) => logger.debug(message, { ...fields, ...extra }),
+    info: (message, extra) => logger.info(message, { ...fields, ...extra }),
+    warn: (message, extra) => logger.warn(message, { ...fields, ...extra }),
+    error: (message, extra) => logger.error(message, { ...fields, ...extra })
+  };
+}
+
+/**
+ * 解析日志配置：显式 logger 优先，其次 debug 开关决定控制台或静默
+ */
+export function resolveLogger(options: { debug?: boolean; logger?: Logger }): Logger {
+  if (options.logger) {
+    return options.logger;
+  }
+  return options.debug ? createConsoleLogger() : createSilentLogger();
+}
@@ -0,0 +1,199 @@
+/**
+ * DMAppFrame - postMessage Platform Bridge
+ * 嵌入页（guest）侧桥接器：通过 postMessage 请求宿主页调整 iframe 高度
+ */
+
+import type { BridgeCapabilities, Logger, PlatformBridge } from './types.js';
+import { PlatformBridgeError, TimeoutError, generateDebugId } from './types.js';
+import { resolveLogger, withLogFields } from './Logger.js';
+import {
+  createFrameMessage,
+  isFrameMessage,
+  type FrameCapabilitiesRequest,
+  type FrameHeightRequest,
+  type FrameReply,
+  type FrameRequest
+} from './FrameProtocol.js';
+
+/** Default time to wait for a host reply */
+const DEFAULT_REPLY_TIMEOUT_MS = 3000;
+
+/**
+ * postMessage bridge options
+ */
+export interface PostMessageBridgeOptions {
+  /** Origin of the host page; replies from other origins are ignored ('*' disables the check) */
+  targetOrigin: string;
+
+  /** Window the guest runs in (default: global window) */
+  window?: Window;
+
+  /** Window receiving requests (default: parent of `window`) */
+  target?: Window;
+
+  /** Time to wait for each host reply in milliseconds (default: 3000) */
+  timeoutMs?: number;
+
+  /** Enable debug logging to the console (ignored when `logger` is set) */
+  debug?: boolean;
+
+  /** Logger receiving structured log entries */
+  logger?: Logger;
+}
+
+/**
+ * 等待宿主回复的请求
+ */
+interface PendingRequest {
+  readonly request: FrameRequest;
+  readonly resolve: (reply: FrameReply) => void;
+  readonly reject: (error: unknown) => void;
+  readonly timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * postMessage 桥接器
+ * 每个请求携带关联 id，宿主以 ack / error 回复；只接受来自目标窗口与目标源的回复
+ *
+ * @example
+ * ```typescript
+ * const bridge = new PostMessageBridge({ targetOrigin: 'https://portal.example.com' });
+ * const controller = new CoreHeightController(bridge);
+ * ```
+ */
+export class PostMessageBridge implements PlatformBridge {
+  private readonly debugId = generateDebugId('PostMessageBridge');
+  private readonly logger: Logger;
+  private readonly window: Window;
+  private readonly target: Window;
+  private readonly targetOrigin: string;
+  private readonly timeoutMs: number;
+  private readonly pending = new Map<string, PendingRequest>();
+  private sequence = 0;
+  private _isDisposed = false;
+
+  /**
+   * @throws {PlatformBridgeError} When there is no host window to talk to
+   */
+  constructor(options: PostMessageBridgeOptions) {
+    this.logger = withLogFields(resolveLogger(options), { debugId: this.debugId, platform: 'postmessage' });
+    this.window = options.window ?? window;
+    this.targetOrigin = options.targetOrigin;
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_REPLY_TIMEOUT_MS;
+
+    const target = options.target ?? this.window.parent;
+    if (!target || target === this.window) {
+      throw new PlatformBridgeError('PostMessageBridge requires a host window (not running inside an iframe?)', 'postmessage');
+    }
+    this.target = target;
+
+    this.window.addEventListener('message', this.handleMessage);
+    this.logger.debug('postMessage bridge initialized', { targetOrigin: this.targetOrigin });
+  }
+
+  /**
+   * 请求宿主调整 iframe 高度
+   * @returns Height applied by the host (may differ from the request when the host clamps it)
+   * @throws {PlatformBridgeError} When the host rejects the request or the bridge is disposed
+   * @throws {TimeoutError} When the host does not reply in time
+   */
+  async updateHeight(targetHeight: number): Promise<number> {
+    const reply = await this.request<FrameHeightRequest>({ type: 'height-request', height: targetHeight });
+
+    if (reply.type !== 'height-ack') {
+      throw new PlatformBridgeError(`Unexpected reply '${reply.type}' to height request`, 'postmessage');
+    }
+
+    this.logger.debug(`Host applied ${reply.appliedHeight}px`, {
+      toHeight: targetHeight,
+      appliedHeight: reply.appliedHeight
+    });
+    return reply.appliedHeight;
+  }
+
+  /**
+   * 查询宿主能力（高度限制等）
+   */
+  async getCapabilities(): Promise<BridgeCapabilities> {
+    const reply = await this.request<FrameCapabilitiesRequest>({ type: 'capabilities-request' });
+
+    if (reply.type !== 'capabilities') {
+      throw new PlatformBridgeError(`Unexpected reply '${reply.type}' to capabilities request`, 'postmessage');
+    }
+    return reply.capabilities;
+  }
+
+  /**
+   * 停止监听消息，未完成的请求以 PlatformBridgeError 结束
+   */
+  dispose(): void {
+    if (this._isDisposed) {
+      return;
+    }
+    this._isDisposed = true;
+    this.window.removeEventListener('message', this.handleMessage);
+
+    for (const entry of this.pending.values()) {
+      clearTimeout(entry.timer);
+      entry.reject(new PlatformBridgeError('PostMessageBridge has been disposed', 'postmessage'));
+    }
+    this.pending.clear();
+  }
+
+  get isDisposed(): boolean {
+    return this._isDisposed;
+  }
+
+  private request<T extends FrameRequest>(body: Omit<T, 'protocol' | 'version' | 'id'>): Promise<FrameReply> {
+    if (this._isDisposed) {
+      return Promise.reject(new PlatformBridgeError('PostMessageBridge has been disposed', 'postmessage'));
+    }
+
+    const id = `${this.debugId}-${++this.sequence}`;
+    const request = createFrameMessage<FrameRequest>(id, body as never);
+
+    return new Promise<FrameReply>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new TimeoutError(request.type, this.timeoutMs, 'postmessage'));
+      }, this.timeoutMs);
+
+      this.pending.set(id, { request, resolve, reject, timer });
+      this.target.postMessage(request, this.targetOrigin);
+    });
+  }
+
+  /**
+   * 处理宿主回复：校验来源窗口、来源与关联 id
+   */
+  private readonly handleMessage = (event: MessageEvent): void => {
+    if (event.source !== this.target || !isFrameMessage(event.data)) {
+      return;
+    }
+    if (this.targetOrigin !== '*' && event.origin !== this.targetOrigin) {
+      this.logger.warn('Ignored reply from unexpected origin', { origin: event.origin });
+      return;
+    }
+
+    const reply = event.data as FrameReply;
+    const entry = this.pending.get(reply.id);
+    if (!entry) {
+      return;
+    }
+
+    this.pending.delete(reply.id);
+    clearTimeout(entry.timer);
+
+    if (reply.type === 'error') {
+      this.logger.warn(`Host rejected ${entry.request.type}: ${reply.message}`, { code: reply.code });
+      entry.reject(new PlatformBridgeError(
+        `Host rejected ${entry.request.type}: ${reply.message}`,
+        'postmessage',
+        reply
+      ));
+      return;
+    }
+
+    entry.resolve(reply);
+  };
+}
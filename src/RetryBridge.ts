@@ -0,0 +1,115 @@
+/**
+ * DMAppFrame - Retry Bridge
+ * 桥接重试：指数退避 + 抖动 + 单次调用超时
+ */
+
+import type { FrameBridge, PlatformBridge, RetryOptions } from './types.js';
+import { PlatformBridgeError, TimeoutError, withTimeout } from './types.js';
+
+/** Default retry configuration */
+const DEFAULT_RETRY: Required<Omit<RetryOptions, 'retryOn' | 'onRetry' | 'timeoutMs'>> = {
+  maxAttempts: 3,
+  baseDelayMs: 100,
+  maxDelayMs: 2000,
+  factor: 2,
+  jitter: 0.5
+};
+
+/**
+ * 默认重试判定：只重试平台桥接错误与超时
+ */
+export function isRetryableBridgeError(error: unknown): boolean {
+  return error instanceof PlatformBridgeError || error instanceof TimeoutError;
+}
+
+/**
+ * Compute the backoff delay before the next attempt
+ * 指数退避：base * factor^(attempt-1)，上限 maxDelay，再按 jitter 比例随机缩减
+ *
+ * @param attempt - The attempt that just failed (1-based)
+ * @param options - Retry options
+ * @param random - Random source in [0, 1) (injectable for tests)
+ * @returns Delay in milliseconds
+ */
+export function computeBackoffDelay(
+  attempt: number,
+  options: RetryOptions = {},
+  random: () => number = Math.random
+): number {
+  const {
+    baseDelayMs = DEFAULT_RETRY.baseDelayMs,
+    maxDelayMs = DEFAULT_RETRY.maxDelayMs,
+    factor = DEFAULT_RETRY.factor,
+    jitter = DEFAULT_RETRY.jitter
+  } = options;
+
+  const exponential = Math.min(maxDelayMs, baseDelayMs * Math.pow(factor, attempt - 1));
+  const ratio = Math.min(Math.max(jitter, 0), 1);
+  return Math.round(exponential * (1 - ratio * random()));
+}
+
+/**
+ * Wrap a bridge with retries and per-attempt timeouts
+ * 包装平台桥接器：失败或超时后按退避策略重试，保持 PlatformBridge 契约不变
+ * FrameBridge 的 updateWidth / updateMode 按同样的策略重试，其它方法原样保留
+ *
+ * @param bridge - Bridge to wrap
+ * @param options - Retry and timeout configuration
+ * @returns A bridge of the same shape retrying failed update calls
+ *
+ * @example
+ * ```typescript
+ * const bridge = withRetry(await createFeishuBridge(), {
+ *   maxAttempts: 4,
+ *   baseDelayMs: 200,
+ *   timeoutMs: 3000
+ * });
+ * const controller = new CoreHeightController(bridge);
+ * ```
+ */
+export function withRetry<T extends PlatformBridge>(bridge: T, options: RetryOptions = {}): T {
+  const {
+    maxAttempts = DEFAULT_RETRY.maxAttempts,
+    retryOn = isRetryableBridgeError,
+    timeoutMs,
+    onRetry
+  } = options;
+
+  const attemptsLimit = Math.max(1, Math.floor(maxAttempts));
+
+  const retrying = async <R>(operation: string, call: () => Promise<R>): Promise<R> => {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await withTimeout(call(), timeoutMs, operation);
+      } catch (error) {
+        if (attempt >= attemptsLimit || !retryOn(error, attempt)) {
+          throw error;
+        }
+
+        const delayMs = computeBackoffDelay(attempt, options);
+        onRetry?.(error, attempt, delayMs);
+        await new Promise(resolve => setTimeout(resolve, delayMs));
+      }
+    }
+  };
+
+  const frame: FrameBridge = bridge;
+  const retried: Partial<FrameBridge> = {
+    updateHeight: targetHeight =>
+      retrying(`updateHeight(${targetHeight})`, () => bridge.updateHeight(targetHeight)),
+    ...(frame.updateWidth && {
+      updateWidth: targetWidth => retrying(`updateWidth(${targetWidth})`, () => frame.updateWidth!(targetWidth))
+    }),
+    ...(frame.updateMode && {
+      updateMode: mode => retrying(`updateMode(${mode})`, () => frame.updateMode!(mode))
+    })
+  };
+
+  // 能力查询等其它方法原样透传，不参与重试
+  return new Proxy(bridge, {
+    get: (target, property, receiver) =>
+      Object.prototype.hasOwnProperty.call(retried, property)
+        ? retried[property as keyof FrameBridge]
+        : Reflect.get(target, property, receiver)
+  });
+}
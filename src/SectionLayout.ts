@@ -0,0 +1,407 @@
+/**
+ * DMAppFrame - Section Layout
+ * 区块布局：header / body / toolbar / footer 等区块各自登记测量高度，由布局层统一计算并入队框架高度
+ *
+ * 同一轮中的多次区块变化合并为一次 adjustHeight，区块分配的高度在该调整的 onUIChange 中交付，
+ * 因此区块尺寸的变化同样遵循扩展 / 收缩时序
+ */
+
+import type {
+  AdjustmentPriority,
+  AutoHeightOptions,
+  HeightController,
+  HeightTransition
+} from './types.js';
+import { FRAMEWORK_CONSTANTS, HeightControllerError } from './types.js';
+import { measureElementHeight } from './AutoHeight.js';
+
+/**
+ * Options of one registered region
+ */
+export interface SectionOptions {
+  /** Smallest height allocated while the region is visible */
+  readonly minHeight?: number;
+
+  /** Largest height allocated; taller content scrolls inside the region */
+  readonly maxHeight?: number;
+
+  /** Shrink this region (down to minHeight) when the frame would exceed the layout maxHeight */
+  readonly absorbOverflow?: boolean;
+}
+
+/**
+ * Options of a section layout
+ */
+export interface SectionLayoutOptions {
+  /** Space between visible regions in pixels (default: 0) */
+  readonly gap?: number;
+
+  /** Space above the first and below the last region in pixels (default: 0) */
+  readonly padding?: number;
+
+  /** Lower bound of the frame height */
+  readonly minHeight?: number;
+
+  /** Upper bound of the frame height; absorbing regions shrink to fit it */
+  readonly maxHeight?: number;
+
+  /** Wait this long for further changes before queueing (default: 0, batches changes of one task) */
+  readonly debounceMs?: number;
+
+  /** Priority of the queued adjustments */
+  readonly priority?: AdjustmentPriority;
+
+  /** Transition of the queued adjustments */
+  readonly transition?: HeightTransition;
+
+  /** Called with the new allocation when the frame is ready for it (in onUIChange) */
+  readonly onLayout?: (layout: SectionLayoutSnapshot) => void | Promise<void>;
+}
+
+/**
+ * Height allocated to one region
+ */
+export interface SectionAllocation {
+  /** Height the region reported */
+  readonly measuredHeight: number;
+
+  /** Height the region gets in the frame */
+  readonly height: number;
+
+  /** Whether the region must scroll because it got less than it measured */
+  readonly scrolls: boolean;
+}
+
+/**
+ * Result of a layout pass
+ */
+export interface SectionLayoutSnapshot {
+  /** Overall frame height */
+  readonly height: number;
+
+  /** Allocation per visible region, in registration order */
+  readonly sections: Readonly<Record<string, SectionAllocation>>;
+}
+
+/**
+ * Handle of a registered region
+ */
+export interface SectionHandle {
+  readonly name: string;
+
+  /** Report the region's measured height; 0 hides it */
+  update(measuredHeight: number): void;
+
+  /**
+   * Measure an element now and whenever it resizes
+   * @returns Function that stops observing
+   */
+  observe(element: Element, box?: AutoHeightOptions['box']): () => void;
+
+  /** Allocation of the last computed layout (undefined while hidden) */
+  readonly allocation: SectionAllocation | undefined;
+
+  /** Unregister the region */
+  remove(): void;
+}
+
+/**
+ * 已登记区块的状态
+ */
+interface Section {
+  readonly name: string;
+  readonly options: SectionOptions;
+  measuredHeight: number;
+  stopObserving: (() => void) | undefined;
+}
+
+/**
+ * 校验上下界
+ */
+function validateBounds(label: string, minHeight: number | undefined, maxHeight: number | undefined): void {
+  for (const [name, value] of [['minHeight', minHeight], ['maxHeight', maxHeight]] as const) {
+    if (value !== undefined && !(Number.isFinite(value) && value >= 0)) {
+      throw new HeightControllerError(`Invalid ${label} ${name}: ${value}. Must be a non-negative finite number`);
+    }
+  }
+  if (minHeight !== undefined && maxHeight !== undefined && minHeight > maxHeight) {
+    throw new HeightControllerError(
+      `Invalid ${label} bounds: minHeight ${minHeight} exceeds maxHeight ${maxHeight}`
+    );
+  }
+}
+
+const clamp = (value: number, min = 0, max = Infinity): number => Math.min(Math.max(value, min), max);
+
+/**
+ * Layout layer computing the frame height from registered regions
+ * 各区块只登记自己的测量高度；布局层按间距、区块上下界与溢出吸收规则算出整体高度，
+ * 任一区块变化时只入队一次整体调整
+ *
+ * @example
+ * ```typescript
+ * const layout = new SectionLayout(controller, {
+ *   gap: 8,
+ *   maxHeight: 900,
+ *   onLayout: ({ sections }) => {
+ *     body.style.height = `${sections.body?.height}px`;
+ *     body.style.overflowY = sections.body?.scrolls ? 'auto' : 'hidden';
+ *   }
+ * });
+ *
+ * layout.register('header').observe(headerElement);
+ * layout.register('body', { minHeight: 120, maxHeight: 600, absorbOverflow: true }).observe(bodyElement);
+ * layout.register('toolbar').update(48);
+ * ```
+ */
+export class SectionLayout {
+  private readonly sections = new Map<string, Section>();
+  private readonly options: SectionLayoutOptions;
+  private readonly controller: HeightController;
+  private current: SectionLayoutSnapshot | undefined;
+  /** 最近一次入队的分配，用于跳过未变化的布局 */
+  private lastQueued: string | undefined;
+  private scheduled = false;
+  private timer: ReturnType<typeof setTimeout> | undefined;
+  private disposed = false;
+
+  /**
+   * @param controller - Controller receiving the overall height
+   * @param options - Spacing, frame bounds and queueing options
+   *
+   * @throws {HeightControllerError} When spacing or bounds are invalid
+   */
+  constructor(controller: HeightController, options: SectionLayoutOptions = {}) {
+    for (const [name, value] of [['gap', options.gap], ['padding', options.padding], ['debounceMs', options.debounceMs]] as const) {
+      if (value !== undefined && !(Number.isFinite(value) && value >= 0)) {
+        throw new HeightControllerError(`Invalid layout ${name}: ${value}. Must be a non-negative finite number`);
+      }
+    }
+    validateBounds('layout', options.minHeight, options.maxHeight);
+
+    this.controller = controller;
+    this.options = options;
+  }
+
+  /**
+   * Register a region; it stays hidden until it reports a height
+   *
+   * @throws {HeightControllerError} When the name is taken, the bounds are invalid or the layout is disposed
+   */
+  register(name: string, options: SectionOptions = {}): SectionHandle {
+    if (this.disposed) {
+      throw new HeightControllerError('Section layout has been disposed');
+    }
+    if (this.sections.has(name)) {
+      throw new HeightControllerError(`Section already registered: ${name}`);
+    }
+    validateBounds(`section "${name}"`, options.minHeight, options.maxHeight);
+
+    const section: Section = { name, options, measuredHeight: 0, stopObserving: undefined };
+    this.sections.set(name, section);
+
+    const allocation = (): SectionAllocation | undefined => this.current?.sections[name];
+    const update = (measuredHeight: number): void => {
+      if (!Number.isFinite(measuredHeight) || measuredHeight < 0) {
+        throw new HeightControllerError(
+          `Invalid height for section "${name}": ${measuredHeight}. Must be a non-negative finite number`
+        );
+      }
+      if (this.sections.get(name) !== section || measuredHeight === section.measuredHeight) {
+        return;
+      }
+      section.measuredHeight = measuredHeight;
+      this.schedule();
+    };
+
+    return {
+      name,
+      update,
+
+      observe: (element, box = 'margin-box') => {
+        section.stopObserving?.();
+        const measure = (): void => update(measureElementHeight(element, box));
+        const view = element.ownerDocument?.defaultView;
+        const ResizeObserverCtor = view?.ResizeObserver ?? globalThis.ResizeObserver;
+        const observer = ResizeObserverCtor ? new ResizeObserverCtor(measure) : undefined;
+        observer?.observe(element);
+
+        const stop = (): void => {
+          observer?.disconnect();
+          if (section.stopObserving === stop) {
+            section.stopObserving = undefined;
+          }
+        };
+        section.stopObserving = stop;
+        measure();
+        return stop;
+      },
+
+      get allocation() {
+        return allocation();
+      },
+
+      remove: () => {
+        if (this.sections.get(name) !== section) {
+          return;
+        }
+        section.stopObserving?.();
+        this.sections.delete(name);
+        this.schedule();
+      }
+    };
+  }
+
+  /**
+   * Compute the layout from the current measurements without queueing it
+   * 可见区块（测量高度大于 0）先按自身上下界取值；整体超过 maxHeight 时，
+   * 吸收溢出的区块按登记顺序让出高度（不低于其 minHeight），让出的部分在区块内滚动
+   */
+  compute(): SectionLayoutSnapshot {
+    const { gap = 0, padding = 0, minHeight, maxHeight } = this.options;
+    const visible = [...this.sections.values()].filter(section => section.measuredHeight > 0);
+    const heights = visible.map(({ measuredHeight, options }) =>
+      clamp(measuredHeight, options.minHeight, options.maxHeight));
+
+    const total = (): number =>
+      heights.reduce((sum, height) => sum + height, 0) + gap * Math.max(0, visible.length - 1) + padding * 2;
+
+    let overflow = maxHeight === undefined ? 0 : total() - maxHeight;
+    visible.forEach((section, index) => {
+      if (overflow <= 0 || !section.options.absorbOverflow) {
+        return;
+      }
+      const height = heights[index]!;
+      const absorbed = Math.min(overflow, height - (section.options.minHeight ?? 0));
+      if (absorbed > 0) {
+        heights[index] = height - absorbed;
+        overflow -= absorbed;
+      }
+    });
+
+    const sections: Record<string, SectionAllocation> = {};
+    visible.forEach((section, index) => {
+      const height = heights[index]!;
+      sections[section.name] = {
+        measuredHeight: section.measuredHeight,
+        height,
+        scrolls: height < section.measuredHeight
+      };
+    });
+
+    const height = Math.ceil(clamp(
+      total(),
+      Math.max(minHeight ?? 0, FRAMEWORK_CONSTANTS.MIN_REASONABLE_HEIGHT),
+      Math.min(maxHeight ?? Infinity, FRAMEWORK_CONSTANTS.MAX_REASONABLE_HEIGHT)
+    ));
+    return { height, sections };
+  }
+
+  /** Layout delivered by the last applied adjustment (undefined before the first one) */
+  get layout(): SectionLayoutSnapshot | undefined {
+    return this.current;
+  }
+
+  /**
+   * Queue the current layout immediately instead of waiting for the batch
+   */
+  flush(): void {
+    if (this.timer !== undefined) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    this.scheduled = false;
+    if (this.disposed || this.controller.isDisposed) {
+      return;
+    }
+
+    const layout = this.compute();
+    // 没有可见区块且未配置 minHeight：不入队 1px 的占位高度，保留上一次的布局
+    if (Object.keys(layout.sections).length === 0 && !this.options.minHeight) {
+      return;
+    }
+
+    // 只比较分配结果：测量高度变化但分配不变时（例如已在滚动的区块继续变高）无需调整
+    const key = JSON.stringify([
+      layout.height,
+      Object.entries(layout.sections).map(([name, { height, scrolls }]) => [name, height, scrolls])
+    ]);
+    if (key === this.lastQueued) {
+      return;
+    }
+    this.lastQueued = key;
+
+    // 分配在该调整的 onUIChange 中生效，与框架高度遵循同一时序
+    const { priority, transition, onLayout } = this.options;
+    this.controller.adjustHeight({
+      targetHeight: layout.height,
+      ...(priority && { priority }),
+      ...(transition && { transition }),
+      onUIChange: () => {
+        this.current = layout;
+        return onLayout?.(layout);
+      }
+    }).then(
+      result => {
+        // 失败、回滚或被取代：该分配未生效，下一次 flush 需要重新入队
+        if (result.status !== 'completed') {
+          this.forget(key);
+        }
+      },
+      // 被中止或控制器已销毁：下一次变化会重新入队
+      () => this.forget(key)
+    );
+  }
+
+  /**
+   * Stop observing all regions and drop pending changes
+   */
+  dispose(): void {
+    if (this.disposed) {
+      return;
+    }
+    this.disposed = true;
+    if (this.timer !== undefined) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    this.sections.forEach(section => section.stopObserving?.());
+    this.sections.clear();
+  }
+
+  /**
+   * 合并同一轮的变化：默认在微任务中入队，配置 debounceMs 时等待静默窗口
+   */
+  private schedule(): void {
+    if (this.disposed) {
+      return;
+    }
+
+    const { debounceMs = 0 } = this.options;
+    if (debounceMs > 0) {
+      if (this.timer !== undefined) {
+        clearTimeout(this.timer);
+      }
+      this.timer = setTimeout(() => this.flush(), debounceMs);
+      return;
+    }
+
+    if (!this.scheduled) {
+      this.scheduled = true;
+      queueMicrotask(() => {
+        if (this.scheduled) {
+          this.flush();
+        }
+      });
+    }
+  }
+
+  /**
+   * 入队的分配未生效时清除去重记录
+   */
+  private forget(key: string): void {
+    if (this.lastQueued === key) {
+      this.lastQueued = undefined;
+    }
+  }
+}
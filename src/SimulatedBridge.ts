@@ -0,0 +1,238 @@
+/**
+ * DMAppFrame - Simulated Bridge
+ * 可编排的模拟桥接器：延迟分布、按序号或概率注入失败、平台高度限制、永不返回的调用与调用记录
+ *
+ * 延迟为 0 时不经过定时器；有延迟时在调用时刻使用全局 setTimeout，因此与 Jest 假定时器配合确定可控
+ */
+
+import type { BridgeCapabilities, PlatformBridge } from './types.js';
+import { HeightControllerError, PlatformBridgeError } from './types.js';
+
+/**
+ * Latency of a simulated call in milliseconds
+ * - number: fixed latency
+ * - `{ min, max }`: uniformly distributed (uses `scenario.random`)
+ * - array: latency per call, the last value repeats
+ * - function: latency for a 1-based call index
+ */
+export type SimulatedLatency =
+  | number
+  | { readonly min: number; readonly max: number }
+  | readonly number[]
+  | ((call: number, targetHeight: number) => number);
+
+/**
+ * Scenario of a simulated bridge
+ */
+export interface BridgeScenario {
+  /** Latency of each call (default: 0, resolved without timers) */
+  readonly latencyMs?: SimulatedLatency;
+
+  /** 1-based call indices that fail */
+  readonly failOn?: readonly number[];
+
+  /** Probability (0-1) that any other call fails (default: 0) */
+  readonly failureRate?: number;
+
+  /** 1-based call indices that never settle */
+  readonly hangOn?: readonly number[];
+
+  /** Error thrown by failing calls (default: PlatformBridgeError) */
+  readonly error?: (call: number, targetHeight: number) => unknown;
+
+  /** Platform lower bound; applied heights are clamped and the bound is reported in capabilities */
+  readonly minHeight?: number;
+
+  /** Platform upper bound; applied heights are clamped and the bound is reported in capabilities */
+  readonly maxHeight?: number;
+
+  /** Height the platform applies for a request, after clamping (default: the clamped height) */
+  readonly appliedHeight?: (targetHeight: number, call: number) => number;
+
+  /** Additional capabilities reported by `getCapabilities` */
+  readonly capabilities?: Partial<BridgeCapabilities>;
+
+  /** Random source in [0, 1) for latency ranges and failure rates (default: Math.random) */
+  readonly random?: () => number;
+}
+
+/**
+ * A recorded call of a simulated bridge
+ */
+export interface SimulatedBridgeCall {
+  /** 1-based call index */
+  readonly index: number;
+
+  /** Height requested by the caller */
+  readonly targetHeight: number;
+
+  /** Latency applied to this call */
+  readonly latencyMs: number;
+
+  /** Outcome; `pending` until the latency elapsed, `hanging` forever */
+  readonly status: 'pending' | 'resolved' | 'rejected' | 'hanging';
+
+  /** Height reported back to the caller */
+  readonly appliedHeight?: number;
+
+  /** Error thrown to the caller */
+  readonly error?: unknown;
+}
+
+/**
+ * Simulated platform bridge
+ */
+export interface SimulatedBridge extends PlatformBridge {
+  /** Every call in order */
+  readonly calls: readonly SimulatedBridgeCall[];
+
+  /** Heights applied so far, in order */
+  readonly appliedHeights: readonly number[];
+
+  getCapabilities(): BridgeCapabilities;
+
+  /** Forget recorded calls and restart call numbering */
+  reset(): void;
+}
+
+/**
+ * 校验场景配置
+ */
+function validateScenario(scenario: BridgeScenario): void {
+  const { failureRate, minHeight, maxHeight, latencyMs } = scenario;
+  if (failureRate !== undefined && !(failureRate >= 0 && failureRate <= 1)) {
+    throw new HeightControllerError(`Invalid failureRate: ${failureRate}. Must be between 0 and 1.`);
+  }
+  if (minHeight !== undefined && maxHeight !== undefined && minHeight > maxHeight) {
+    throw new HeightControllerError(
+      `Invalid simulated bounds: minHeight ${minHeight} exceeds maxHeight ${maxHeight}`
+    );
+  }
+  if (typeof latencyMs === 'object' && !Array.isArray(latencyMs)) {
+    const { min, max } = latencyMs as { min: number; max: number };
+    if (!(min >= 0) || !(max >= min)) {
+      throw new HeightControllerError(`Invalid latency range: ${min}-${max}ms`);
+    }
+  }
+}
+
+/**
+ * Create a bridge that behaves as scripted
+ * 与 createMockBridge 不同，每个调用的延迟、成败与实际高度都由场景决定，并记录在 calls 中
+ *
+ * @param scenario - Latency, failures, limits and capabilities
+ * @returns A PlatformBridge that records its calls
+ *
+ * @throws {HeightControllerError} When the scenario is inconsistent
+ *
+ * @example
+ * ```typescript
+ * jest.useFakeTimers();
+ * const bridge = createSimulatedBridge({ latencyMs: [50, 200], failOn: [2], maxHeight: 800 });
+ * const controller = new CoreHeightController(bridge);
+ *
+ * const adjustment = controller.adjustHeight({ targetHeight: 1000 });
+ * await jest.advanceTimersByTimeAsync(50);
+ * await expect(adjustment).resolves.toMatchObject({ toHeight: 800 });
+ * expect(bridge.calls).toHaveLength(1);
+ * ```
+ */
+export function createSimulatedBridge(scenario: BridgeScenario = {}): SimulatedBridge {
+  validateScenario(scenario);
+
+  const {
+    latencyMs = 0,
+    failOn = [],
+    failureRate = 0,
+    hangOn = [],
+    minHeight,
+    maxHeight,
+    random = Math.random
+  } = scenario;
+
+  let calls: SimulatedBridgeCall[] = [];
+  let appliedHeights: number[] = [];
+
+  const latencyFor = (call: number, targetHeight: number): number => {
+    if (typeof latencyMs === 'number') {
+      return latencyMs;
+    }
+    if (typeof latencyMs === 'function') {
+      return latencyMs(call, targetHeight);
+    }
+    if (Array.isArray(latencyMs)) {
+      return latencyMs[Math.min(call, latencyMs.length) - 1] ?? 0;
+    }
+    const { min, max } = latencyMs as { min: number; max: number };
+    return Math.round(min + random() * (max - min));
+  };
+
+  const clamp = (height: number): number =>
+    Math.min(Math.max(height, minHeight ?? -Infinity), maxHeight ?? Infinity);
+
+  const update = (index: number, patch: Partial<SimulatedBridgeCall>): void => {
+    calls[index - 1] = { ...calls[index - 1]!, ...patch };
+  };
+
+  return {
+    async updateHeight(targetHeight: number): Promise<number> {
+      const index = calls.length + 1;
+      const latency = Math.max(0, latencyFor(index, targetHeight));
+      const hangs = hangOn.includes(index);
+      // 失败与否在调用时决定，保证随机源的消耗顺序与调用顺序一致
+      const fails = !hangs && (failOn.includes(index) || (failureRate > 0 && random() < failureRate));
+
+      calls.push({ index, targetHeight, latencyMs: latency, status: hangs ? 'hanging' : 'pending' });
+      const generation = calls;
+
+      if (hangs) {
+        return new Promise<number>(() => {});
+      }
+      if (latency > 0) {
+        await new Promise(resolve => setTimeout(resolve, latency));
+      }
+      // reset() 之后不再回写旧调用
+      const current = generation === calls;
+
+      if (fails) {
+        const error = scenario.error?.(index, targetHeight)
+          ?? new PlatformBridgeError(`Simulated failure on call ${index}`, 'simulated');
+        if (current) {
+          update(index, { status: 'rejected', error });
+        }
+        throw error;
+      }
+
+      const clamped = clamp(targetHeight);
+      const applied = scenario.appliedHeight?.(clamped, index) ?? clamped;
+      if (current) {
+        update(index, { status: 'resolved', appliedHeight: applied });
+        appliedHeights.push(applied);
+      }
+      return applied;
+    },
+
+    getCapabilities(): BridgeCapabilities {
+      return {
+        dynamicHeight: true,
+        resizableWidth: false,
+        ...(minHeight !== undefined && { minHeight }),
+        ...(maxHeight !== undefined && { maxHeight }),
+        ...scenario.capabilities
+      };
+    },
+
+    get calls(): readonly SimulatedBridgeCall[] {
+      return calls;
+    },
+
+    get appliedHeights(): readonly number[] {
+      return appliedHeights;
+    },
+
+    reset(): void {
+      calls = [];
+      appliedHeights = [];
+    }
+  };
+}
@@ -0,0 +1,101 @@
+/**
+ * DMAppFrame - Timing Strategies
+ * 单次调整内桥接调用与 UI 回调的编排方式：默认的扩展 / 收缩时序，以及并行、仅 UI、仅桥接
+ *
+ * 策略只决定步骤顺序；错误包装、失败策略与取消检查仍由控制器负责
+ */
+
+import type { TimingStrategy, TimingStrategyName } from './types.js';
+import { HeightControllerError } from './types.js';
+
+/**
+ * Bridge first when expanding (the frame has room before the UI grows),
+ * UI first when shrinking (the UI is gone before the frame shrinks)
+ */
+export const defaultTiming: TimingStrategy = {
+  name: 'default',
+  async run(step) {
+    if (step.direction === 'expand') {
+      // 扩展：组件先变，UI后填
+      await step.bridge();
+      step.checkpoint();
+      await step.uiChange();
+      step.checkpoint();
+      await step.uiComplete();
+    } else {
+      // 收缩：UI先变，组件后随
+      await step.uiChange();
+      step.checkpoint();
+      await step.uiComplete();
+      step.checkpoint();
+      await step.bridge();
+    }
+  }
+};
+
+/**
+ * Bridge call and onUIChange at the same time, then onUIComplete
+ * 两者都结束后才继续，失败时以最先失败的步骤为准，保证补偿时没有仍在执行的步骤
+ */
+export const parallelTiming: TimingStrategy = {
+  name: 'parallel',
+  async run(step) {
+    const failures: unknown[] = [];
+    await Promise.all([step.bridge(), step.uiChange()].map(run => run.catch(error => { failures.push(error); })));
+    if (failures.length > 0) {
+      throw failures[0];
+    }
+    step.checkpoint();
+    await step.uiComplete();
+  }
+};
+
+/**
+ * UI callbacks only, for hosts whose frame height is fixed
+ */
+export const uiOnlyTiming: TimingStrategy = {
+  name: 'ui-only',
+  async run(step) {
+    await step.uiChange();
+    step.checkpoint();
+    await step.uiComplete();
+  }
+};
+
+/**
+ * Bridge call only, for adjustments without UI work
+ */
+export const bridgeOnlyTiming: TimingStrategy = {
+  name: 'bridge-only',
+  async run(step) {
+    await step.bridge();
+  }
+};
+
+/** Built-in strategies by name */
+export const TIMING_STRATEGIES: Readonly<Record<TimingStrategyName, TimingStrategy>> = {
+  'default': defaultTiming,
+  'parallel': parallelTiming,
+  'ui-only': uiOnlyTiming,
+  'bridge-only': bridgeOnlyTiming
+};
+
+/**
+ * Resolve a timing option to a strategy (default: defaultTiming)
+ *
+ * @throws {HeightControllerError} When the name is unknown or the strategy has no run function
+ */
+export function resolveTimingStrategy(timing: TimingStrategyName | TimingStrategy = 'default'): TimingStrategy {
+  if (typeof timing === 'string') {
+    if (!Object.prototype.hasOwnProperty.call(TIMING_STRATEGIES, timing)) {
+      throw new HeightControllerError(
+        `Invalid timing: ${timing}. Expected ${Object.keys(TIMING_STRATEGIES).map(name => `'${name}'`).join(', ')} or a TimingStrategy`
+      );
+    }
+    return TIMING_STRATEGIES[timing];
+  }
+  if (!timing || typeof timing !== 'object' || typeof timing.run !== 'function') {
+    throw new HeightControllerError('Invalid timing: Expected a strategy name or an object with a run function');
+  }
+  return timing;
+}
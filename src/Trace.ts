@@ -0,0 +1,642 @@
+/**
+ * DMAppFrame - Adjustment Traces
+ * 记录 adjustHeight 调用、桥接延迟与失败、阶段事件为 JSON 轨迹，并在模拟桥接上回放以复现问题
+ */
+
+import type {
+  AdjustOptions,
+  AdjustmentPriority,
+  AdjustmentResult,
+  AdjustmentStatus,
+  AutoHeightHandle,
+  AutoHeightOptions,
+  BridgeCapabilities,
+  FailurePolicy,
+  HeightAdjustmentBehavior,
+  ObservableHeightController,
+  HeightControllerEvents,
+  HeightControllerOptions,
+  HeightTransition,
+  PlatformBridge,
+  TimingStrategy
+} from './types.js';
+import { DMAppFrameError, PlatformBridgeError } from './types.js';
+import { observeElementHeight } from './AutoHeight.js';
+import { CoreHeightController } from './HeightController.js';
+import { createSimulatedBridge } from './SimulatedBridge.js';
+import { TIMING_STRATEGIES } from './Timing.js';
+
+/** Trace format version */
+export const TRACE_VERSION = 1;
+
+/** Callback of a behavior */
+export type TraceCallback = 'ui-change' | 'ui-complete' | 'height-clamped';
+
+/** Lifecycle events captured in traces */
+export type TraceEventName = Exclude<keyof HeightControllerEvents, 'queued' | 'pending-changed'>;
+
+const TRACED_EVENTS: readonly TraceEventName[] = [
+  'started',
+  'bridge-applied',
+  'ui-changed',
+  'completed',
+  'failed',
+  'superseded',
+  'reordered',
+  'cancelled',
+  'disposed'
+];
+
+/**
+ * Error as stored in a trace
+ */
+export interface TraceError {
+  readonly name: string;
+  readonly message: string;
+  readonly code?: string;
+}
+
+/**
+ * One step of a trace; `at` is milliseconds since recording started
+ */
+export type TraceEntry =
+  | {
+      readonly type: 'adjust';
+      readonly at: number;
+      readonly id: number;
+      readonly targetHeight: number;
+      /** Callbacks the behavior provided */
+      readonly callbacks: readonly TraceCallback[];
+      readonly failurePolicy?: FailurePolicy;
+      readonly transition?: HeightTransition;
+      readonly priority?: AdjustmentPriority;
+      readonly supersedeLowerPriority?: boolean;
+      /** Timing strategy name (built-in name, or the `name` of a custom strategy) */
+      readonly timing?: string;
+    }
+  | {
+      readonly type: 'callback';
+      readonly at: number;
+      readonly id: number;
+      readonly callback: TraceCallback;
+      readonly durationMs: number;
+      readonly error?: TraceError;
+    }
+  | { readonly type: 'abort'; readonly at: number; readonly id: number }
+  | {
+      readonly type: 'result';
+      readonly at: number;
+      readonly id: number;
+      readonly status: AdjustmentStatus;
+      readonly fromHeight: number;
+      readonly toHeight: number;
+      readonly applied: boolean;
+      readonly duration: number;
+      readonly error?: TraceError;
+      /** Present only when the platform clamped the height */
+      readonly requestedHeight?: number;
+      readonly appliedHeight?: number;
+    }
+  | { readonly type: 'rejected'; readonly at: number; readonly id: number; readonly error: TraceError }
+  | { readonly type: 'bridge-call'; readonly at: number; readonly call: number; readonly height: number }
+  | {
+      readonly type: 'bridge-result';
+      readonly at: number;
+      readonly call: number;
+      readonly appliedHeight: number;
+      readonly durationMs: number;
+    }
+  | {
+      readonly type: 'bridge-error';
+      readonly at: number;
+      readonly call: number;
+      readonly durationMs: number;
+      readonly error: TraceError;
+    }
+  | { readonly type: 'event'; readonly at: number; readonly event: TraceEventName; readonly payload: unknown }
+  | { readonly type: 'height'; readonly at: number; readonly height: number }
+  | { readonly type: 'dispose'; readonly at: number };
+
+/**
+ * JSON-serializable record of a controller session
+ */
+export interface AdjustmentTrace {
+  readonly version: number;
+
+  /** Epoch milliseconds when recording started */
+  readonly recordedAt: number;
+
+  /** Controller height when recording started */
+  readonly initialHeight: number;
+
+  /** Controller height when the trace was taken */
+  readonly finalHeight: number;
+
+  /** Capabilities the controller negotiated with the bridge (limits, intervals) */
+  readonly capabilities?: BridgeCapabilities;
+
+  readonly entries: readonly TraceEntry[];
+}
+
+/**
+ * 将任意错误转为可序列化的形式
+ */
+function toTraceError(error: unknown): TraceError {
+  if (error instanceof Error) {
+    return {
+      name: error.name,
+      message: error.message,
+      ...(error instanceof DMAppFrameError && { code: error.code })
+    };
+  }
+  return { name: 'Error', message: String(error) };
+}
+
+/**
+ * 事件载荷中可能包含错误对象，转为纯 JSON
+ */
+function toTracePayload(payload: unknown): unknown {
+  return JSON.parse(JSON.stringify(payload, (_, value: unknown) =>
+    value instanceof Error ? toTraceError(value) : value
+  ));
+}
+
+/**
+ * Records adjustment traces
+ * 包装桥接器与控制器：桥接调用、行为、回调、结果与生命周期事件按时间顺序写入同一轨迹
+ *
+ * @example
+ * ```typescript
+ * const recorder = new TraceRecorder();
+ * const controller = recorder.wrapController(
+ *   new CoreHeightController(recorder.wrapBridge(bridge))
+ * );
+ *
+ * // ... when the user reports a jump
+ * upload(JSON.stringify(recorder.getTrace()));
+ * ```
+ */
+export class TraceRecorder {
+  private readonly recordedAt = Date.now();
+  private readonly entries: TraceEntry[] = [];
+  private controller: ObservableHeightController | undefined;
+  private capabilities: BridgeCapabilities | undefined;
+  private initialHeight = 0;
+  private nextId = 1;
+  private nextCall = 1;
+
+  /**
+   * Wrap a bridge so every updateHeight call, latency, result and error is recorded
+   */
+  wrapBridge<T extends PlatformBridge>(bridge: T): T {
+    const updateHeight = async (targetHeight: number): Promise<number> => {
+      const call = this.nextCall++;
+      const startedAt = Date.now();
+      this.record({ type: 'bridge-call', at: this.elapsed(), call, height: targetHeight });
+
+      try {
+        const appliedHeight = await bridge.updateHeight(targetHeight);
+        this.record({
+          type: 'bridge-result',
+          at: this.elapsed(),
+          call,
+          appliedHeight,
+          durationMs: Date.now() - startedAt
+        });
+        return appliedHeight;
+      } catch (error) {
+        this.record({
+          type: 'bridge-error',
+          at: this.elapsed(),
+          call,
+          durationMs: Date.now() - startedAt,
+          error: toTraceError(error)
+        });
+        throw error;
+      }
+    };
+
+    // 保留 getCapabilities、updateWidth 等其它方法
+    return new Proxy(bridge, {
+      get: (target, property, receiver) =>
+        property === 'updateHeight' ? updateHeight : Reflect.get(target, property, receiver)
+    });
+  }
+
+  /**
+   * Wrap a controller so behaviors, callbacks, results and lifecycle events are recorded
+   * 只记录经由返回对象发起的调用；observe 也通过返回对象驱动
+   */
+  wrapController(controller: ObservableHeightController): ObservableHeightController {
+    this.controller = controller;
+    this.initialHeight = controller.getCurrentHeight();
+    // 回放需要相同的平台上限，否则被限幅的调整会以原目标重放
+    controller.getCapabilities().then(
+      capabilities => { this.capabilities = capabilities; },
+      () => undefined
+    );
+
+    for (const event of TRACED_EVENTS) {
+      controller.on(event, payload => {
+        this.record({ type: 'event', at: this.elapsed(), event, payload: toTracePayload(payload) });
+      });
+    }
+    controller.subscribe(height => {
+      this.record({ type: 'height', at: this.elapsed(), height });
+    });
+
+    const observers = new Set<AutoHeightHandle>();
+    const wrapped: ObservableHeightController = {
+      adjustHeight: (behavior, options) => this.recordAdjustment(controller, behavior, options),
+      getCurrentHeight: () => controller.getCurrentHeight(),
+      getPendingCount: () => controller.getPendingCount(),
+      getCapabilities: () => controller.getCapabilities(),
+      on: (event, handler) => controller.on(event, handler),
+      subscribe: listener => controller.subscribe(listener),
+      observe: (element: Element, options?: AutoHeightOptions) => {
+        const handle = observeElementHeight(wrapped, element, options);
+        observers.add(handle);
+        return handle;
+      },
+      dispose: () => {
+        if (!controller.isDisposed) {
+          this.record({ type: 'dispose', at: this.elapsed() });
+        }
+        observers.forEach(observer => observer.disconnect());
+        controller.dispose();
+      },
+      get isDisposed() {
+        return controller.isDisposed;
+      }
+    };
+    return wrapped;
+  }
+
+  /**
+   * Snapshot of the trace recorded so far (plain JSON)
+   */
+  getTrace(): AdjustmentTrace {
+    return {
+      version: TRACE_VERSION,
+      recordedAt: this.recordedAt,
+      initialHeight: this.initialHeight,
+      finalHeight: this.controller?.getCurrentHeight() ?? 0,
+      ...(this.capabilities && { capabilities: this.capabilities }),
+      entries: [...this.entries]
+    };
+  }
+
+  toJSON(): AdjustmentTrace {
+    return this.getTrace();
+  }
+
+  private async recordAdjustment(
+    controller: ObservableHeightController,
+    behavior: HeightAdjustmentBehavior,
+    options: AdjustOptions = {}
+  ): Promise<AdjustmentResult> {
+    const id = this.nextId++;
+    const callbacks: TraceCallback[] = [
+      ...(behavior.onUIChange ? ['ui-change' as const] : []),
+      ...(behavior.onUIComplete ? ['ui-complete' as const] : []),
+      ...(behavior.onHeightClamped ? ['height-clamped' as const] : [])
+    ];
+    const { priority, timing } = behavior;
+    this.record({
+      type: 'adjust',
+      at: this.elapsed(),
+      id,
+      targetHeight: behavior.targetHeight,
+      callbacks,
+      ...(options.failurePolicy && { failurePolicy: options.failurePolicy }),
+      ...(behavior.transition && { transition: behavior.transition }),
+      ...(priority && { priority }),
+      ...(options.supersedeLowerPriority && { supersedeLowerPriority: true }),
+      // 自定义策略无法序列化，只记录名称；回放时通过 ReplayOptions.timingStrategies 还原
+      ...(timing !== undefined && { timing: typeof timing === 'string' ? timing : timing.name })
+    });
+
+    const traced = <A extends unknown[]>(
+      callback: TraceCallback,
+      run: ((...args: A) => void | Promise<void>) | undefined
+    ): ((...args: A) => Promise<void>) | undefined => run && (async (...args: A) => {
+      const startedAt = Date.now();
+      try {
+        await run(...args);
+        this.record({ type: 'callback', at: this.elapsed(), id, callback, durationMs: Date.now() - startedAt });
+      } catch (error) {
+        this.record({
+          type: 'callback',
+          at: this.elapsed(),
+          id,
+          callback,
+          durationMs: Date.now() - startedAt,
+          error: toTraceError(error)
+        });
+        throw error;
+      }
+    });
+
+    const onUIChange = traced('ui-change', behavior.onUIChange);
+    const onUIComplete = traced('ui-complete', behavior.onUIComplete);
+    const onHeightClamped = traced('height-clamped', behavior.onHeightClamped);
+    options.signal?.addEventListener('abort', () => {
+      this.record({ type: 'abort', at: this.elapsed(), id });
+    }, { once: true });
+
+    try {
+      const result = await controller.adjustHeight({
+        ...behavior,
+        ...(onUIChange && { onUIChange }),
+        ...(onUIComplete && { onUIComplete }),
+        ...(onHeightClamped && { onHeightClamped })
+      }, options);
+      this.record({
+        type: 'result',
+        at: this.elapsed(),
+        id,
+        status: result.status,
+        fromHeight: result.fromHeight,
+        toHeight: result.toHeight,
+        applied: result.applied,
+        duration: result.duration,
+        ...(result.error !== undefined && { error: toTraceError(result.error) }),
+        ...(result.requestedHeight !== undefined && { requestedHeight: result.requestedHeight }),
+        ...(result.appliedHeight !== undefined && { appliedHeight: result.appliedHeight })
+      });
+      return result;
+    } catch (error) {
+      this.record({ type: 'rejected', at: this.elapsed(), id, error: toTraceError(error) });
+      throw error;
+    }
+  }
+
+  private elapsed(): number {
+    return Date.now() - this.recordedAt;
+  }
+
+  private record(entry: TraceEntry): void {
+    this.entries.push(entry);
+  }
+}
+
+/**
+ * Replay options
+ */
+export interface ReplayOptions {
+  /** Options for the replaying controller; use the ones the trace was recorded with */
+  readonly controllerOptions?: HeightControllerOptions;
+
+  /** Custom timing strategies by name, for adjustments recorded with one */
+  readonly timingStrategies?: Readonly<Record<string, TimingStrategy>>;
+}
+
+/**
+ * Outcome of one replayed adjustment
+ */
+export interface ReplayOutcome {
+  readonly id: number;
+  readonly status: AdjustmentStatus | 'rejected';
+  readonly toHeight?: number;
+  readonly applied?: boolean;
+  /** Present only when the platform clamped the height */
+  readonly appliedHeight?: number;
+}
+
+/**
+ * Comparison between a trace and its replay
+ */
+export interface ReplayReport {
+  /** Whether final height, callback order and per-adjustment outcomes all match */
+  readonly matches: boolean;
+
+  /** Human-readable differences */
+  readonly mismatches: readonly string[];
+
+  readonly finalHeight: { readonly expected: number; readonly actual: number };
+
+  /** Callback order as `<id>:<callback>` */
+  readonly callbacks: { readonly expected: readonly string[]; readonly actual: readonly string[] };
+
+  readonly outcomes: { readonly expected: readonly ReplayOutcome[]; readonly actual: readonly ReplayOutcome[] };
+}
+
+/**
+ * 按轨迹中的桥接记录逐次应答：相同延迟、相同结果或错误；超出记录的调用直接应用
+ */
+function createScriptedBridge(entries: readonly TraceEntry[]): PlatformBridge {
+  const script = entries.filter(
+    (entry): entry is Extract<TraceEntry, { type: 'bridge-result' | 'bridge-error' }> =>
+      entry.type === 'bridge-result' || entry.type === 'bridge-error'
+  ).sort((a, b) => a.call - b.call);
+
+  return createSimulatedBridge({
+    latencyMs: call => script[call - 1]?.durationMs ?? 0,
+    failOn: script.flatMap((step, index) => step.type === 'bridge-error' ? [index + 1] : []),
+    error: call => {
+      const { error } = script[call - 1] as Extract<TraceEntry, { type: 'bridge-error' }>;
+      return new PlatformBridgeError(error.message, 'replay', error);
+    },
+    appliedHeight: (height, call) => {
+      const step = script[call - 1];
+      return step?.type === 'bridge-result' ? step.appliedHeight : height;
+    }
+  });
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function toOutcome(
+  id: number,
+  result: Pick<AdjustmentResult, 'status' | 'toHeight' | 'applied' | 'appliedHeight'>
+): ReplayOutcome {
+  return {
+    id,
+    status: result.status,
+    toHeight: result.toHeight,
+    applied: result.applied,
+    ...(result.appliedHeight !== undefined && { appliedHeight: result.appliedHeight })
+  };
+}
+
+function outcomeOf(entry: TraceEntry): ReplayOutcome | undefined {
+  if (entry.type === 'result') {
+    return toOutcome(entry.id, entry);
+  }
+  if (entry.type === 'rejected') {
+    return { id: entry.id, status: 'rejected' };
+  }
+  return undefined;
+}
+
+function describeOutcome(outcome: ReplayOutcome | undefined): string {
+  if (!outcome) {
+    return 'none';
+  }
+  if (outcome.status === 'rejected') {
+    return 'rejected';
+  }
+  const clamped = outcome.appliedHeight !== undefined ? ` (clamped to ${outcome.appliedHeight}px)` : '';
+  return `${outcome.status} ${outcome.toHeight}px${outcome.applied ? '' : ' (not applied)'}${clamped}`;
+}
+
+/**
+ * Replay a trace on a CoreHeightController backed by a simulated bridge
+ * 按记录的时间偏移重新发起调用与中止，桥接按记录的延迟与结果应答，UI 回调按记录的耗时与错误执行
+ *
+ * @param trace - Trace from `TraceRecorder.getTrace()` (or its parsed JSON)
+ * @param options - Controller options used for the replay
+ * @returns Report comparing final height, callback order and per-adjustment outcomes
+ *
+ * @example
+ * ```typescript
+ * const report = await replayTrace(JSON.parse(reportedTrace), {
+ *   controllerOptions: { queuePolicy: 'latest-wins' }
+ * });
+ * expect(report.mismatches).toEqual([]);
+ * ```
+ */
+export async function replayTrace(
+  trace: AdjustmentTrace,
+  options: ReplayOptions = {}
+): Promise<ReplayReport> {
+  if (trace.version !== TRACE_VERSION) {
+    throw new DMAppFrameError(
+      `Unsupported trace version: ${trace.version}. Expected ${TRACE_VERSION}.`,
+      'UNSUPPORTED_TRACE_VERSION'
+    );
+  }
+
+  const { entries } = trace;
+  const timingOf = (name: string): TimingStrategy => {
+    const strategy = options.timingStrategies?.[name]
+      ?? (Object.prototype.hasOwnProperty.call(TIMING_STRATEGIES, name)
+        ? TIMING_STRATEGIES[name as keyof typeof TIMING_STRATEGIES]
+        : undefined);
+    if (!strategy) {
+      throw new DMAppFrameError(
+        `Unknown timing strategy in trace: ${name}. Pass it in ReplayOptions.timingStrategies.`,
+        'UNKNOWN_TRACE_TIMING'
+      );
+    }
+    return strategy;
+  };
+  // 在开始回放前解析全部策略，缺失时不留下半途的控制器
+  const timings = new Map(entries.flatMap(entry =>
+    entry.type === 'adjust' && entry.timing !== undefined ? [[entry.id, timingOf(entry.timing)] as const] : []));
+
+  const scripted = createScriptedBridge(entries);
+  let replaying = false;
+  const { capabilities } = trace;
+  const controller = new CoreHeightController(
+    {
+      updateHeight: async height => replaying ? scripted.updateHeight(height) : height,
+      ...(capabilities && { getCapabilities: () => capabilities })
+    },
+    options.controllerOptions ?? {}
+  );
+
+  // 先复现初始高度，不消耗轨迹中的桥接记录
+  if (trace.initialHeight > 0) {
+    await controller.adjustHeight({ targetHeight: trace.initialHeight });
+  }
+  replaying = true;
+
+  const callbacks: string[] = [];
+  const outcomes: ReplayOutcome[] = [];
+  const aborts = new Map<number, AbortController>();
+  const pending: Promise<void>[] = [];
+  const startedAt = Date.now();
+  const until = (at: number): Promise<void> => delay(Math.max(0, at - (Date.now() - startedAt)));
+
+  const callbackFor = (id: number, callback: TraceCallback): (() => Promise<void>) => {
+    const recorded = entries.find(
+      (entry): entry is Extract<TraceEntry, { type: 'callback' }> =>
+        entry.type === 'callback' && entry.id === id && entry.callback === callback
+    );
+    return async () => {
+      callbacks.push(`${id}:${callback}`);
+      if (recorded) {
+        await delay(recorded.durationMs);
+        if (recorded.error) {
+          throw Object.assign(new Error(recorded.error.message), { name: recorded.error.name });
+        }
+      }
+    };
+  };
+
+  for (const entry of entries) {
+    if (entry.type === 'adjust') {
+      await until(entry.at);
+      const abort = new AbortController();
+      aborts.set(entry.id, abort);
+      pending.push(
+        controller.adjustHeight({
+          targetHeight: entry.targetHeight,
+          ...(entry.callbacks.includes('ui-change') && { onUIChange: callbackFor(entry.id, 'ui-change') }),
+          ...(entry.callbacks.includes('ui-complete') && { onUIComplete: callbackFor(entry.id, 'ui-complete') }),
+          ...(entry.callbacks.includes('height-clamped') && { onHeightClamped: callbackFor(entry.id, 'height-clamped') }),
+          ...(entry.transition && { transition: entry.transition }),
+          ...(entry.priority && { priority: entry.priority }),
+          ...(timings.has(entry.id) && { timing: timings.get(entry.id)! })
+        }, {
+          signal: abort.signal,
+          ...(entry.failurePolicy && { failurePolicy: entry.failurePolicy }),
+          ...(entry.supersedeLowerPriority && { supersedeLowerPriority: true })
+        }).then(
+          result => {
+            outcomes.push(toOutcome(entry.id, result));
+          },
+          () => {
+            outcomes.push({ id: entry.id, status: 'rejected' });
+          }
+        )
+      );
+    } else if (entry.type === 'abort') {
+      await until(entry.at);
+      aborts.get(entry.id)?.abort();
+    } else if (entry.type === 'dispose') {
+      await until(entry.at);
+      controller.dispose();
+    }
+  }
+
+  await Promise.all(pending);
+  const finalHeight = controller.getCurrentHeight();
+  controller.dispose();
+
+  const expectedCallbacks = entries
+    .filter((entry): entry is Extract<TraceEntry, { type: 'callback' }> => entry.type === 'callback')
+    .map(entry => `${entry.id}:${entry.callback}`);
+  const expectedOutcomes = entries
+    .map(outcomeOf)
+    .filter((outcome): outcome is ReplayOutcome => outcome !== undefined)
+    .sort((a, b) => a.id - b.id);
+  outcomes.sort((a, b) => a.id - b.id);
+
+  const mismatches: string[] = [];
+  if (finalHeight !== trace.finalHeight) {
+    mismatches.push(`Final height: expected ${trace.finalHeight}px, replayed ${finalHeight}px`);
+  }
+  if (expectedCallbacks.join() !== callbacks.join()) {
+    mismatches.push(`Callback order: expected [${expectedCallbacks.join(', ')}], replayed [${callbacks.join(', ')}]`);
+  }
+  for (const expected of expectedOutcomes) {
+    const actual = outcomes.find(outcome => outcome.id === expected.id);
+    if (describeOutcome(expected) !== describeOutcome(actual)) {
+      mismatches.push(
+        `Adjustment #${expected.id}: expected ${describeOutcome(expected)}, replayed ${describeOutcome(actual)}`
+      );
+    }
+  }
+
+  return {
+    matches: mismatches.length === 0,
+    mismatches,
+    finalHeight: { expected: trace.finalHeight, actual: finalHeight },
+    callbacks: { expected: expectedCallbacks, actual: callbacks },
+    outcomes: { expected: expectedOutcomes, actual: outcomes }
+  };
+}
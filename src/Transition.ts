@@ -0,0 +1,110 @@
+/**
+ * DMAppFrame - Height Transitions
+ * 缓动曲线、减少动态效果检测，以及与 CSS transition 对齐的工具函数
+ */
+
+import type { Easing, EasingName, HeightTransition } from './types.js';
+
+/** Control points of the named easings, identical to their CSS counterparts */
+const NAMED_EASINGS: Record<EasingName, readonly [number, number, number, number]> = {
+  'linear': [0, 0, 1, 1],
+  'ease': [0.25, 0.1, 0.25, 1],
+  'ease-in': [0.42, 0, 1, 1],
+  'ease-out': [0, 0, 0.58, 1],
+  'ease-in-out': [0.42, 0, 0.58, 1]
+};
+
+/** Default step interval for bridge-driven transitions (one frame at 60fps) */
+export const DEFAULT_TRANSITION_STEP_MS = 16;
+
+/**
+ * Cubic bézier timing function, same semantics as CSS `cubic-bezier()`
+ *
+ * @example
+ * ```typescript
+ * const ease = cubicBezier(0.42, 0, 0.58, 1);
+ * ease(0.5); // 0.5
+ * ```
+ */
+export function cubicBezier(x1: number, y1: number, x2: number, y2: number): (progress: number) => number {
+  const bezier = (t: number, p1: number, p2: number): number =>
+    3 * (1 - t) * (1 - t) * t * p1 + 3 * (1 - t) * t * t * p2 + t * t * t;
+  const slope = (t: number, p1: number, p2: number): number =>
+    3 * (1 - t) * (1 - t) * p1 + 6 * (1 - t) * t * (p2 - p1) + 3 * t * t * (1 - p2);
+
+  return progress => {
+    if (progress <= 0) {
+      return 0;
+    }
+    if (progress >= 1) {
+      return 1;
+    }
+
+    // 牛顿迭代求 x(t) = progress，斜率过小时退回二分
+    let t = progress;
+    for (let i = 0; i < 8; i++) {
+      const error = bezier(t, x1, x2) - progress;
+      const derivative = slope(t, x1, x2);
+      if (Math.abs(error) < 1e-6) {
+        return bezier(t, y1, y2);
+      }
+      if (Math.abs(derivative) < 1e-6) {
+        break;
+      }
+      t -= error / derivative;
+    }
+
+    let low = 0;
+    let high = 1;
+    t = progress;
+    for (let i = 0; i < 20; i++) {
+      const x = bezier(t, x1, x2);
+      if (Math.abs(x - progress) < 1e-6) {
+        break;
+      }
+      if (x < progress) {
+        low = t;
+      } else {
+        high = t;
+      }
+      t = (low + high) / 2;
+    }
+    return bezier(t, y1, y2);
+  };
+}
+
+/**
+ * Resolve an easing to a timing function (default: 'ease-in-out')
+ */
+export function resolveEasing(easing: Easing = 'ease-in-out'): (progress: number) => number {
+  const points = typeof easing === 'string' ? NAMED_EASINGS[easing] : easing;
+  return cubicBezier(...points);
+}
+
+/**
+ * Whether the user asked for reduced motion (false outside browsers)
+ */
+export function prefersReducedMotion(): boolean {
+  return typeof globalThis.matchMedia === 'function'
+    && globalThis.matchMedia('(prefers-reduced-motion: reduce)').matches;
+}
+
+/**
+ * CSS `transition` value matching a height transition, for CSS-driven UI phases
+ *
+ * @example
+ * ```typescript
+ * const transition = { durationMs: 240, easing: 'ease-out', mode: 'css' } as const;
+ * element.style.transition = toCSSTransition(transition);
+ * await controller.adjustHeight({
+ *   targetHeight: 600,
+ *   transition,
+ *   onUIChange: () => { element.style.height = '600px'; }
+ * });
+ * ```
+ */
+export function toCSSTransition(transition: HeightTransition, property = 'height'): string {
+  const { durationMs, easing = 'ease-in-out' } = transition;
+  const timing = typeof easing === 'string' ? easing : `cubic-bezier(${easing.join(', ')})`;
+  return `${property} ${durationMs}ms ${timing}`;
+}
@@ -0,0 +1,374 @@
+/**
+ * @bagaking/dma-frame/devtools
+ * 页内调试面板：当前高度、待执行队列、按调整分组的桥接 / UI 阶段时间线、失败与平台能力
+ *
+ * 独立入口且没有顶层副作用，生产构建不引用即可完全摇树移除；面板渲染在 shadow root 中，不受页面样式影响
+ */
+
+import type {
+  BridgeCapabilities,
+  ObservableHeightController,
+  QueuedAdjustment
+} from './types.js';
+import { HeightControllerError } from './types.js';
+
+/**
+ * Controller shown by the overlay; queue inspection and pausing are used when available
+ * (`CoreHeightController` provides both)
+ */
+export type DevtoolsTarget = ObservableHeightController & {
+  getQueueSnapshot?(): QueuedAdjustment[];
+  pause?(): void;
+  resume?(): void;
+  readonly isPaused?: boolean;
+};
+
+/**
+ * Devtools overlay options
+ */
+export interface DevtoolsOptions {
+  /** Element the overlay is appended to (default: `document.body`) */
+  readonly container?: HTMLElement;
+
+  /** Corner of the viewport (default: 'bottom-right') */
+  readonly position?: 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
+  /** Number of adjustments kept in the timeline (default: 20) */
+  readonly maxAdjustments?: number;
+
+  /** Start collapsed to a small badge (default: false) */
+  readonly collapsed?: boolean;
+}
+
+/**
+ * Handle returned by `attachDevtools`
+ */
+export interface DevtoolsHandle {
+  /** Element hosting the shadow root */
+  readonly host: HTMLElement;
+
+  /** Re-render the overlay */
+  refresh(): void;
+
+  /** Remove the overlay and stop listening to the controller */
+  detach(): void;
+}
+
+/**
+ * 一次调整在面板中的记录
+ */
+interface AdjustmentRecord {
+  readonly index: number;
+  readonly fromHeight: number;
+  readonly toHeight: number;
+  readonly startedAt: number;
+  status: 'running' | 'completed' | 'failed' | 'superseded' | 'cancelled';
+  /** 相对 startedAt 的阶段时间点 */
+  readonly phases: Array<{ readonly name: string; readonly at: number }>;
+  readonly failures: string[];
+  duration?: number;
+}
+
+const STYLES = `
+:host { all: initial; }
+.panel {
+  position: fixed; z-index: 2147483647; width: 320px; max-height: 60vh; overflow: auto;
+  font: 12px/1.4 ui-monospace, SFMono-Regular, Menlo, monospace; color: #e6e6e6;
+  background: rgba(24, 24, 27, 0.94); border-radius: 8px; box-shadow: 0 4px 16px rgba(0, 0, 0, 0.3);
+}
+.panel.top-left { top: 8px; left: 8px; } .panel.top-right { top: 8px; right: 8px; }
+.panel.bottom-left { bottom: 8px; left: 8px; } .panel.bottom-right { bottom: 8px; right: 8px; }
+.panel.collapsed { width: auto; }
+header { display: flex; gap: 4px; align-items: center; padding: 6px 8px; background: rgba(255, 255, 255, 0.06); }
+header strong { flex: 1; }
+section { padding: 6px 8px; border-top: 1px solid rgba(255, 255, 255, 0.08); }
+h4 { margin: 0 0 4px; font-size: 11px; color: #a1a1aa; text-transform: uppercase; }
+ul { margin: 0; padding: 0; list-style: none; }
+li { padding: 2px 0; }
+button { font: inherit; color: inherit; background: rgba(255, 255, 255, 0.12); border: 0; border-radius: 4px; padding: 2px 6px; cursor: pointer; }
+button:disabled { opacity: 0.4; cursor: default; }
+.running { color: #60a5fa; } .completed { color: #4ade80; } .failed { color: #f87171; }
+.superseded, .cancelled, .muted { color: #a1a1aa; }
+.error { color: #f87171; padding-left: 12px; }
+`;
+
+/**
+ * 创建带文本与类名的元素
+ */
+function element<K extends keyof HTMLElementTagNameMap>(
+  document: Document,
+  tag: K,
+  text?: string,
+  className?: string
+): HTMLElementTagNameMap[K] {
+  const node = document.createElement(tag);
+  if (text !== undefined) {
+    node.textContent = text;
+  }
+  if (className) {
+    node.className = className;
+  }
+  return node;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function describeCapabilities(capabilities: BridgeCapabilities): string {
+  const { dynamicHeight, minHeight, maxHeight, resizableWidth, modes, preferredUpdateIntervalMs } = capabilities;
+  return [
+    `dynamicHeight: ${dynamicHeight ? 'yes' : 'no'}`,
+    `range: ${minHeight ?? 0}–${maxHeight ?? '∞'}px`,
+    `width: ${resizableWidth ? 'resizable' : 'fixed'}`,
+    ...(modes ? [`modes: ${modes.join(', ')}`] : []),
+    ...(preferredUpdateIntervalMs !== undefined ? [`interval: ${preferredUpdateIntervalMs}ms`] : [])
+  ].join(' · ');
+}
+
+/**
+ * Attach an in-page devtools overlay to a controller
+ * 面板监听控制器事件并重新渲染；暂停 / 恢复队列与重放调整只在控制器支持时可用
+ *
+ * Import it from `@bagaking/dma-frame/devtools` behind a debug flag so production
+ * bundles never include it.
+ *
+ * @param controller - Controller to inspect
+ * @param options - Placement and timeline size
+ * @returns Handle used to remove the overlay
+ *
+ * @throws {HeightControllerError} When there is no document to render into
+ *
+ * @example
+ * ```typescript
+ * if (import.meta.env.DEV) {
+ *   const { attachDevtools } = await import('@bagaking/dma-frame/devtools');
+ *   attachDevtools(controller, { position: 'bottom-left' });
+ * }
+ * ```
+ */
+export function attachDevtools(controller: DevtoolsTarget, options: DevtoolsOptions = {}): DevtoolsHandle {
+  const {
+    position = 'bottom-right',
+    maxAdjustments = 20
+  } = options;
+  const document = options.container?.ownerDocument ?? globalThis.document;
+  const container = options.container ?? document?.body;
+  if (!document || !container) {
+    throw new HeightControllerError('Devtools require a document to render into');
+  }
+
+  const host = element(document, 'div');
+  host.setAttribute('data-dma-frame-devtools', '');
+  const root = host.attachShadow({ mode: 'open' });
+  root.appendChild(element(document, 'style', STYLES));
+  const panel = element(document, 'div', undefined, `panel ${position}`);
+  root.appendChild(panel);
+  container.appendChild(host);
+
+  let collapsed = options.collapsed ?? false;
+  let disposed = controller.isDisposed;
+  let capabilities: BridgeCapabilities | undefined;
+  let nextIndex = 1;
+  const adjustments: AdjustmentRecord[] = [];
+
+  const current = (): AdjustmentRecord | undefined => {
+    const last = adjustments[adjustments.length - 1];
+    return last?.status === 'running' ? last : undefined;
+  };
+
+  const finish = (record: AdjustmentRecord | undefined, status?: AdjustmentRecord['status']): void => {
+    if (!record) {
+      return;
+    }
+    record.status = status ?? (record.failures.length > 0 ? 'failed' : 'completed');
+    record.duration = Date.now() - record.startedAt;
+  };
+
+  const push = (record: AdjustmentRecord): void => {
+    adjustments.push(record);
+    adjustments.splice(0, Math.max(0, adjustments.length - maxAdjustments));
+  };
+
+  const phase = (name: string): void => {
+    const record = current();
+    record?.phases.push({ name, at: Date.now() - record.startedAt });
+  };
+
+  const render = (): void => {
+    panel.classList.toggle('collapsed', collapsed);
+    panel.replaceChildren();
+
+    const header = element(document, 'header');
+    header.appendChild(element(document, 'strong', `dma-frame · ${controller.getCurrentHeight()}px`));
+    if (!collapsed && controller.pause && controller.resume) {
+      const toggle = element(document, 'button', controller.isPaused ? 'Resume' : 'Pause');
+      toggle.dataset['action'] = 'pause';
+      toggle.disabled = disposed;
+      toggle.onclick = () => {
+        if (controller.isPaused) {
+          controller.resume!();
+        } else {
+          controller.pause!();
+        }
+        render();
+      };
+      header.appendChild(toggle);
+    }
+    const collapse = element(document, 'button', collapsed ? '▴' : '▾');
+    collapse.dataset['action'] = 'collapse';
+    collapse.onclick = () => {
+      collapsed = !collapsed;
+      render();
+    };
+    header.appendChild(collapse);
+    panel.appendChild(header);
+
+    if (collapsed) {
+      return;
+    }
+
+    const status = element(document, 'section');
+    status.dataset['section'] = 'status';
+    status.textContent = [
+      `height ${controller.getCurrentHeight()}px`,
+      `${controller.getPendingCount()} pending`,
+      ...(controller.isPaused ? ['paused'] : []),
+      ...(disposed ? ['disposed'] : [])
+    ].join(' · ');
+    panel.appendChild(status);
+
+    const capabilitySection = element(document, 'section');
+    capabilitySection.dataset['section'] = 'capabilities';
+    capabilitySection.appendChild(element(document, 'h4', 'Capabilities'));
+    capabilitySection.appendChild(element(
+      document,
+      'div',
+      capabilities ? describeCapabilities(capabilities) : 'resolving…',
+      'muted'
+    ));
+    panel.appendChild(capabilitySection);
+
+    const queue = controller.getQueueSnapshot?.();
+    if (queue) {
+      const queueSection = element(document, 'section');
+      queueSection.dataset['section'] = 'queue';
+      queueSection.appendChild(element(document, 'h4', `Queue (${queue.length})`));
+      const list = element(document, 'ul');
+      for (const entry of queue) {
+        list.appendChild(element(
+          document,
+          'li',
+          `${entry.running ? '▶' : '·'} ${entry.targetHeight}px · ${entry.priority} · waiting ${Date.now() - entry.enqueuedAt}ms`,
+          entry.running ? 'running' : undefined
+        ));
+      }
+      queueSection.appendChild(list);
+      panel.appendChild(queueSection);
+    }
+
+    const timeline = element(document, 'section');
+    timeline.dataset['section'] = 'timeline';
+    timeline.appendChild(element(document, 'h4', 'Timeline'));
+    const list = element(document, 'ul');
+    for (const record of [...adjustments].reverse()) {
+      const item = element(document, 'li');
+      const phases = record.phases.map(({ name, at }) => `${name} +${at}ms`).join(' · ');
+      item.appendChild(element(
+        document,
+        'span',
+        `#${record.index} ${record.fromHeight}→${record.toHeight}px ${record.status}` +
+          (record.duration !== undefined ? ` ${record.duration}ms` : '') +
+          (phases ? ` · ${phases}` : ''),
+        record.status
+      ));
+      item.appendChild(document.createTextNode(' '));
+      const replay = element(document, 'button', 'Replay');
+      replay.dataset['action'] = 'replay';
+      replay.disabled = disposed;
+      // 只重放目标高度：UI 回调属于应用，无法安全地重复执行
+      replay.onclick = () => {
+        controller.adjustHeight({ targetHeight: record.toHeight }).catch(() => undefined);
+      };
+      item.appendChild(replay);
+      for (const failure of record.failures) {
+        item.appendChild(element(document, 'div', failure, 'error'));
+      }
+      list.appendChild(item);
+    }
+    timeline.appendChild(list);
+    panel.appendChild(timeline);
+  };
+
+  const unsubscribers = [
+    controller.on('started', ({ fromHeight, toHeight }) => {
+      finish(current());
+      push({ index: nextIndex++, fromHeight, toHeight, startedAt: Date.now(), status: 'running', phases: [], failures: [] });
+      render();
+    }),
+    controller.on('bridge-applied', () => {
+      phase('bridge');
+      render();
+    }),
+    controller.on('ui-changed', () => {
+      phase('ui');
+      render();
+    }),
+    controller.on('failed', ({ phase: failedPhase, error }) => {
+      current()?.failures.push(`${failedPhase}: ${errorMessage(error)}`);
+      render();
+    }),
+    controller.on('completed', () => {
+      finish(current(), 'completed');
+      render();
+    }),
+    controller.on('superseded', ({ fromHeight, toHeight }) => {
+      const running = current();
+      if (running && running.toHeight === toHeight) {
+        finish(running, 'superseded');
+      } else {
+        // 尚未开始就被取代的行为
+        push({ index: nextIndex++, fromHeight, toHeight, startedAt: Date.now(), status: 'superseded', phases: [], failures: [] });
+      }
+      render();
+    }),
+    controller.on('cancelled', ({ targetHeight, reason }) => {
+      const running = current();
+      if (running && running.toHeight === targetHeight) {
+        running.failures.push(reason);
+        finish(running, 'cancelled');
+      }
+      render();
+    }),
+    controller.on('queued', render),
+    controller.on('pending-changed', ({ pendingCount }) => {
+      if (pendingCount === 0) {
+        finish(current());
+      }
+      render();
+    }),
+    controller.on('disposed', () => {
+      disposed = true;
+      render();
+    }),
+    controller.subscribe(render)
+  ];
+
+  if (!disposed) {
+    controller.getCapabilities().then(resolved => {
+      capabilities = resolved;
+      render();
+    }, () => undefined);
+  }
+  render();
+
+  return {
+    host,
+    refresh: render,
+    detach(): void {
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+      unsubscribers.length = 0;
+      host.remove();
+    }
+  };
+}
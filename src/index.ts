@@ -12,21 +12,140 @@
 import { CoreHeightController } from './HeightController.js';
 import { FeishuPlatformBridge } from './FeishuBridge.js';
 import { PlatformBridgeError, isModuleImportError } from './types.js';
+import { resolveLogger, withLogFields } from './Logger.js';
 import type { 
-  HeightController, 
+  ObservableHeightController,
   PlatformBridge, 
   PlatformFactoryOptions 
 } from './types.js';
 
 // === Core Exports ===
 export { CoreHeightController } from './HeightController.js';
+export { CoreFrameController } from './FrameController.js';
 export { FeishuPlatformBridge } from './FeishuBridge.js';
+export { observeElementHeight, measureElementHeight } from './AutoHeight.js';
+export { persistHeight, createLocalHeightStorage, createMemoryHeightStorage } from './HeightPersistence.js';
+export { createSimulatedBridge } from './SimulatedBridge.js';
+export { TraceRecorder, replayTrace, TRACE_VERSION } from './Trace.js';
+export { SectionLayout } from './SectionLayout.js';
+export { withRetry, computeBackoffDelay, isRetryableBridgeError } from './RetryBridge.js';
+export {
+  composeBridge,
+  throttleUpdates,
+  dedupeHeights,
+  clampHeights,
+  roundToDevicePixels,
+  logBridgeCalls
+} from './BridgeMiddleware.js';
+export { cubicBezier, resolveEasing, prefersReducedMotion, toCSSTransition } from './Transition.js';
+export {
+  TIMING_STRATEGIES,
+  defaultTiming,
+  parallelTiming,
+  uiOnlyTiming,
+  bridgeOnlyTiming,
+  resolveTimingStrategy
+} from './Timing.js';
+export { TypedEventEmitter } from './EventEmitter.js';
+export {
+  createConsoleLogger,
+  createSilentLogger,
+  MemoryLogger,
+  withLogFields
+} from './Logger.js';
+export { PostMessageBridge } from './PostMessageBridge.js';
+export { FrameHost, createFrameHost } from './FrameHost.js';
+export { FRAME_PROTOCOL, FRAME_PROTOCOL_VERSION, isFrameMessage } from './FrameProtocol.js';
+export type { ConsoleLoggerOptions } from './Logger.js';
+export type { FeishuBridgeOptions } from './FeishuBridge.js';
+export type { PostMessageBridgeOptions } from './PostMessageBridge.js';
+export type {
+  BridgeMiddleware,
+  ThrottleOptions,
+  ClampOptions,
+  RoundOptions
+} from './BridgeMiddleware.js';
+export type { FrameHostOptions, FrameLimits } from './FrameHost.js';
+export type {
+  SectionAllocation,
+  SectionHandle,
+  SectionLayoutOptions,
+  SectionLayoutSnapshot,
+  SectionOptions
+} from './SectionLayout.js';
+export type {
+  BridgeScenario,
+  SimulatedBridge,
+  SimulatedBridgeCall,
+  SimulatedLatency
+} from './SimulatedBridge.js';
+export type {
+  AdjustmentTrace,
+  TraceEntry,
+  TraceError,
+  TraceCallback,
+  TraceEventName,
+  ReplayOptions,
+  ReplayOutcome,
+  ReplayReport
+} from './Trace.js';
+export type {
+  FrameMessage,
+  FrameRequest,
+  FrameReply,
+  FrameHeightRequest,
+  FrameCapabilitiesRequest,
+  FrameHeightAck,
+  FrameCapabilitiesReply,
+  FrameErrorReply,
+  FrameErrorCode
+} from './FrameProtocol.js';
 
 // === Type Exports ===
 export type {
   HeightController,
+  ObservableHeightController,
   PlatformBridge,
+  BridgeCapabilities,
+  FrameController,
+  FrameControllerOptions,
+  FrameBridge,
+  FrameBehavior,
+  FrameAdjustmentResult,
+  FrameSize,
+  FrameMode,
+  FrameAxis,
   HeightAdjustmentBehavior,
+  HeightTransaction,
+  HeightLease,
+  HeightLeaseRequest,
+  HeightTransition,
+  Easing,
+  TimingStrategy,
+  TimingStrategyName,
+  TimingContext,
+  EasingName,
+  AdjustOptions,
+  AdjustmentResult,
+  AdjustmentStatus,
+  AdjustmentPhase,
+  AdjustmentPriority,
+  AdjustmentErrorContext,
+  FailurePolicy,
+  RetryOptions,
+  Logger,
+  LogLevel,
+  LogFields,
+  LogEntry,
+  HeightControllerOptions,
+  HeightControllerEvents,
+  QueuePolicy,
+  AutoHeightOptions,
+  AutoHeightHandle,
+  QueuedAdjustment,
+  HeightStorage,
+  HeightPersistenceOptions,
+  HeightPersistenceHandle,
   HeightControllerFactory,
   PlatformFactoryOptions,
   // Legacy compatibility
@@ -37,9 +156,15 @@ export type {
 export {
   DMAppFrameError,
   PlatformBridgeError,
-  HeightControllerError
+  HeightControllerError,
+  UICallbackError,
+  TimeoutError,
+  AdjustmentCancelledError
 } from './types.js';
 
+// === Utility Exports ===
+export { withTimeout } from './types.js';
+
 // === Legacy Compatibility ===
 /**
  * Legacy alias for CoreHeightController
@@ -55,6 +180,7 @@ export { CoreHeightController as LegacyHeightController } from './HeightControll
  * 
  * @param options - Platform factory options
  * @param options.debug - Enable debug logging
+ * @param options.logger - Logger receiving structured entries (overrides debug)
  * @returns Promise resolving to a PlatformBridge instance
  * @throws {PlatformBridgeError} When Feishu API is not available or initialization fails
  * 
@@ -70,34 +196,31 @@ export { CoreHeightController as LegacyHeightController } from './HeightControll
  * This bridge provides compatibility layer for consistent API usage.
  */
 export async function createFeishuBridge(options: PlatformFactoryOptions = {}): Promise<PlatformBridge> {
-  const { debug = false } = options;
+  const logger = resolveLogger(options);
+  const bridgeOptions = { logger };
 
-  if (debug) {
-    console.log('[DMAppFrame] Creating Feishu docs addon bridge...');
-  }
+  logger.debug('Creating Feishu docs addon bridge...');
 
   try {
     // 导入BlockitClient并创建DocMiniApp实例
     const { BlockitClient } = await import('@lark-opdev/block-docs-addon-api');
     const docMiniApp = new BlockitClient().initAPI();
     
-    if (debug) {
-      console.log('[DMAppFrame] Successfully created DocMiniApp from BlockitClient');
-      console.log('[DMAppFrame] DocMiniApp Bridge available:', !!docMiniApp.Bridge?.updateHeight);
-    }
+    logger.debug('Created DocMiniApp from BlockitClient', {
+      bridgeAvailable: !!docMiniApp.Bridge?.updateHeight
+    });
     
-    return new FeishuPlatformBridge(docMiniApp, debug);
+    return new FeishuPlatformBridge(docMiniApp, bridgeOptions);
   } catch (error) {
     // 精确的异常处理策略：区分不同错误类型
     if (isModuleImportError(error)) {
       // 模块加载失败的预期处理（优雅降级）
-      if (debug) {
-        console.warn('[DMAppFrame] Feishu docs addon API unavailable, using mock bridge:', 
-          error instanceof Error ? error.message : error);
-      }
+      logger.warn('Feishu docs addon API unavailable, using mock bridge', {
+        error: error instanceof Error ? error.message : error
+      });
       
       const mockDocMiniApp = {};
-      return new FeishuPlatformBridge(mockDocMiniApp, debug);
+      return new FeishuPlatformBridge(mockDocMiniApp, bridgeOptions);
     } else {
       // 其他运行时错误应该向上抛出
       const errorMessage = error instanceof Error ? error.message : String(error);
@@ -116,7 +239,9 @@ export async function createFeishuBridge(options: PlatformFactoryOptions = {}):
  * @param options - Platform factory options
  * @param options.debug - Enable debug logging for development
  * @param options.platformId - Custom platform identifier
- * @returns Promise resolving to a HeightController instance
+ * @param options.logger - Logger receiving structured entries (overrides debug)
+ * @param options.queuePolicy - Queue scheduling policy ('serial' | 'latest-wins' | 'coalesce-by-window')
+ * @returns Promise resolving to an ObservableHeightController instance
  * @throws {PlatformBridgeError} When controller creation fails
  * 
  * @example
@@ -137,12 +262,10 @@ export async function createFeishuBridge(options: PlatformFactoryOptions = {}):
  */
 export async function createFeishuHeightController(
   options: PlatformFactoryOptions = {}
-): Promise<HeightController> {
-  const { debug = false } = options;
-  
+): Promise<ObservableHeightController> {
   try {
-    const bridge = await createFeishuBridge({ debug });
-    return new CoreHeightController(bridge, debug) as HeightController;
+    const bridge = await createFeishuBridge(options);
+    return new CoreHeightController(bridge, options);
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     throw new PlatformBridgeError(
@@ -171,13 +294,12 @@ export async function createFeishuHeightController(
  * ```
  */
 export function createMockBridge(options: PlatformFactoryOptions = {}): PlatformBridge {
-  const { debug = false, platformId = 'mock' } = options;
+  const { platformId = 'mock' } = options;
+  const logger = withLogFields(resolveLogger(options), { debugId: `MockBridge-${platformId}` });
   
   return {
     async updateHeight(targetHeight: number): Promise<number> {
-      if (debug) {
-        console.log(`[MockBridge-${platformId}] Setting height to ${targetHeight}px`);
-      }
+      logger.debug(`Setting height to ${targetHeight}px`, { toHeight: targetHeight });
       
       // 模拟异步操作
       await new Promise(resolve => setTimeout(resolve, 10));
@@ -193,7 +315,7 @@ export function createMockBridge(options: PlatformFactoryOptions = {}): Platform
  * @param options - Platform factory options
  * @param options.debug - Enable debug logging for test visibility
  * @param options.platformId - Custom platform identifier
- * @returns A HeightController instance with mocked platform integration
+ * @returns An ObservableHeightController instance with mocked platform integration
  * 
  * @example
  * ```typescript
@@ -209,10 +331,9 @@ export function createMockBridge(options: PlatformFactoryOptions = {}): Platform
  * expect(uiHeight).toBe(500);
  * ```
  */
-export function createMockHeightController(options: PlatformFactoryOptions = {}): HeightController {
-  const { debug = false } = options;
+export function createMockHeightController(options: PlatformFactoryOptions = {}): ObservableHeightController {
   const mockBridge = createMockBridge(options);
-  return new CoreHeightController(mockBridge, debug);
+  return new CoreHeightController(mockBridge, options);
 }
 
 // === Clean Architecture Implementation ===
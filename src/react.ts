@@ -0,0 +1,270 @@
+/**
+ * @bagaking/dma-frame/react
+ * React 绑定：Provider 负责创建与销毁控制器，Hook 暴露高度与挂起状态，AutoHeight 自动测量子元素
+ *
+ * StrictMode 安全：控制器在 effect 中创建、在 cleanup 中销毁，异步创建完成前卸载也会被正确销毁
+ */
+
+import {
+  createContext,
+  createElement,
+  useCallback,
+  useContext,
+  useEffect,
+  useRef,
+  useState,
+  useSyncExternalStore
+} from 'react';
+import type { CSSProperties, ReactElement, ReactNode } from 'react';
+import { createFeishuHeightController } from './index.js';
+import type {
+  AdjustOptions,
+  AdjustmentResult,
+  AutoHeightOptions,
+  HeightAdjustmentBehavior,
+  ObservableHeightController,
+  PlatformFactoryOptions
+} from './types.js';
+import { HeightControllerError } from './types.js';
+
+interface HeightControllerContextValue {
+  readonly controller: ObservableHeightController | null;
+  readonly error: unknown;
+}
+
+const HeightControllerContext = createContext<HeightControllerContextValue | null>(null);
+
+/**
+ * Provider props
+ */
+export interface HeightControllerProviderProps {
+  /**
+   * Externally owned controller. The provider never disposes it.
+   * When omitted, the provider creates one with `create` and disposes it on unmount.
+   */
+  controller?: ObservableHeightController;
+
+  /** Factory for the owned controller (default: createFeishuHeightController) */
+  create?: (options: PlatformFactoryOptions) => ObservableHeightController | Promise<ObservableHeightController>;
+
+  /** Options passed to `create`; read once when the controller is created */
+  options?: PlatformFactoryOptions;
+
+  children?: ReactNode;
+}
+
+/**
+ * Provide a height controller to the component tree
+ *
+ * @example
+ * ```tsx
+ * <HeightControllerProvider options={{ debug: true }}>
+ *   <App />
+ * </HeightControllerProvider>
+ * ```
+ */
+export function HeightControllerProvider(props: HeightControllerProviderProps): ReactElement {
+  const { controller: external, children } = props;
+  const [owned, setOwned] = useState<ObservableHeightController | null>(null);
+  const [error, setError] = useState<unknown>(undefined);
+
+  // 工厂与选项只在创建时读取，避免内联对象导致控制器反复重建
+  const createRef = useRef(props.create);
+  const optionsRef = useRef(props.options);
+  createRef.current = props.create;
+  optionsRef.current = props.options;
+
+  useEffect(() => {
+    if (external) {
+      return;
+    }
+
+    let active = true;
+    let created: ObservableHeightController | null = null;
+    const create = createRef.current ?? createFeishuHeightController;
+
+    Promise.resolve()
+      .then(() => create(optionsRef.current ?? {}))
+      .then(
+        controller => {
+          if (!active) {
+            // 创建完成前已卸载（StrictMode 下的首次挂载），立即销毁
+            controller.dispose();
+            return;
+          }
+          created = controller;
+          setError(undefined);
+          setOwned(controller);
+        },
+        creationError => {
+          if (active) {
+            setError(creationError);
+          }
+        }
+      );
+
+    return () => {
+      active = false;
+      created?.dispose();
+      setOwned(null);
+    };
+  }, [external]);
+
+  const value: HeightControllerContextValue = {
+    controller: external ?? owned,
+    error: external ? undefined : error
+  };
+
+  return createElement(HeightControllerContext.Provider, { value }, children);
+}
+
+/**
+ * Value returned by useHeightController
+ */
+export interface UseHeightControllerResult {
+  /** The controller, or null while it is being created */
+  readonly controller: ObservableHeightController | null;
+
+  /** Current frame height as tracked by the controller (0 before creation) */
+  readonly currentHeight: number;
+
+  /** Whether any adjustment is queued or running */
+  readonly pending: boolean;
+
+  /** Controller creation error, if any */
+  readonly error: unknown;
+
+  /**
+   * Adjust height through the current controller
+   * @throws {HeightControllerError} When the controller is not ready
+   */
+  adjustHeight(behavior: HeightAdjustmentBehavior, options?: AdjustOptions): Promise<AdjustmentResult>;
+}
+
+const noopSubscribe = (): (() => void) => () => {};
+const zero = (): number => 0;
+
+/**
+ * Access the controller from the nearest HeightControllerProvider
+ *
+ * @example
+ * ```tsx
+ * const { currentHeight, pending, adjustHeight } = useHeightController();
+ * const [expanded, setExpanded] = useState(false);
+ *
+ * const toggle = () => adjustHeight({
+ *   targetHeight: expanded ? 300 : 600,
+ *   onUIChange: () => setExpanded(!expanded)
+ * });
+ * ```
+ */
+export function useHeightController(): UseHeightControllerResult {
+  const context = useContext(HeightControllerContext);
+  if (!context) {
+    throw new HeightControllerError('useHeightController must be used inside <HeightControllerProvider>');
+  }
+
+  const { controller, error } = context;
+
+  const subscribeHeight = useCallback(
+    (listener: () => void) => (controller ? controller.subscribe(listener) : () => {}),
+    [controller]
+  );
+  const subscribePending = useCallback(
+    (listener: () => void) => (controller ? controller.on('pending-changed', listener) : () => {}),
+    [controller]
+  );
+
+  const currentHeight = useSyncExternalStore(
+    controller ? subscribeHeight : noopSubscribe,
+    controller ? () => controller.getCurrentHeight() : zero
+  );
+  const pendingCount = useSyncExternalStore(
+    controller ? subscribePending : noopSubscribe,
+    controller ? () => controller.getPendingCount() : zero
+  );
+
+  const adjustHeight = useCallback(
+    (behavior: HeightAdjustmentBehavior, options?: AdjustOptions) => {
+      if (!controller || controller.isDisposed) {
+        return Promise.reject(new HeightControllerError('Height controller is not ready'));
+      }
+      return controller.adjustHeight(behavior, options);
+    },
+    [controller]
+  );
+
+  return {
+    controller,
+    currentHeight,
+    pending: pendingCount > 0,
+    error,
+    adjustHeight
+  };
+}
+
+/**
+ * AutoHeight props
+ */
+export interface AutoHeightProps extends AutoHeightOptions {
+  /** Element type of the measured wrapper (default: 'div') */
+  as?: string;
+  className?: string;
+  style?: CSSProperties;
+  children?: ReactNode;
+}
+
+/**
+ * Measure children and keep the frame height in sync with them
+ *
+ * @example
+ * ```tsx
+ * <HeightControllerProvider>
+ *   <AutoHeight minHeight={200} maxHeight={1200}>
+ *     <Content />
+ *   </AutoHeight>
+ * </HeightControllerProvider>
+ * ```
+ */
+export function AutoHeight(props: AutoHeightProps): ReactElement {
+  const {
+    as = 'div',
+    className,
+    style,
+    children,
+    minHeight,
+    maxHeight,
+    debounceMs,
+    box,
+    observeMutations,
+    onUIChange,
+    onUIComplete
+  } = props;
+  const { controller } = useHeightController();
+  const elementRef = useRef<Element | null>(null);
+
+  // 回调通过 ref 读取最新值，不触发重新观察
+  const callbacksRef = useRef({ onUIChange, onUIComplete });
+  callbacksRef.current = { onUIChange, onUIComplete };
+
+  useEffect(() => {
+    const element = elementRef.current;
+    if (!controller || controller.isDisposed || !element) {
+      return;
+    }
+
+    const handle = controller.observe(element, {
+      ...(minHeight !== undefined && { minHeight }),
+      ...(maxHeight !== undefined && { maxHeight }),
+      ...(debounceMs !== undefined && { debounceMs }),
+      ...(box !== undefined && { box }),
+      ...(observeMutations !== undefined && { observeMutations }),
+      onUIChange: height => callbacksRef.current.onUIChange?.(height),
+      onUIComplete: height => callbacksRef.current.onUIComplete?.(height)
+    });
+
+    return () => handle.disconnect();
+  }, [controller, minHeight, maxHeight, debounceMs, box, observeMutations]);
+
+  return createElement(as, { ref: elementRef, className, style }, children);
+}
@@ -0,0 +1,271 @@
+/**
+ * @bagaking/dma-frame/testing
+ * 测试工具：记录桥接调用与 UI 回调时间线的控制器，以及 Jest / Vitest 通用的高度断言
+ *
+ * 不依赖任何测试框架运行时：matchers 只使用 `expect.extend` 的公共契约（返回 pass 与 message）
+ */
+
+import { CoreHeightController } from './HeightController.js';
+import { createSimulatedBridge } from './SimulatedBridge.js';
+import type {
+  AdjustOptions,
+  AdjustmentResult,
+  HeightAdjustmentBehavior,
+  ObservableHeightController,
+  HeightControllerOptions,
+  PlatformBridge
+} from './types.js';
+import type { SimulatedBridge } from './SimulatedBridge.js';
+
+export { createSimulatedBridge } from './SimulatedBridge.js';
+export type { BridgeScenario, SimulatedBridge, SimulatedBridgeCall, SimulatedLatency } from './SimulatedBridge.js';
+
+/**
+ * One step recorded by a `RecordingHeightController`
+ * `adjustment` is the 1-based index of the adjustment that was running (0 before any started)
+ */
+export type TimelineEntry =
+  | {
+      readonly kind: 'started';
+      readonly adjustment: number;
+      readonly fromHeight: number;
+      readonly toHeight: number;
+      readonly direction: 'expand' | 'shrink';
+    }
+  | { readonly kind: 'bridge'; readonly adjustment: number; readonly height: number }
+  | { readonly kind: 'ui-change' | 'ui-complete'; readonly adjustment: number; readonly height: number };
+
+/**
+ * CoreHeightController recording bridge calls and UI callbacks in one timeline
+ * 桥接调用与 UI 回调写入同一条时间线，按执行中的调整归组，用于断言时序
+ *
+ * @example
+ * ```typescript
+ * const controller = new RecordingHeightController();
+ * await controller.adjustHeight({ targetHeight: 500 });
+ *
+ * expect(controller).toHaveAdjustedThrough([500]);
+ * expect(controller).toHaveCalledBridgeBeforeUI();
+ * ```
+ */
+export class RecordingHeightController extends CoreHeightController {
+  /** Bridge calls, UI callbacks and adjustment starts in order */
+  readonly timeline: TimelineEntry[];
+
+  /** Recorded bridge (a simulated bridge when none was passed) */
+  readonly platformBridge: PlatformBridge;
+
+  /** 正在执行的调整序号，桥接包装在构造前创建，因此通过共享对象传递 */
+  private readonly current: { adjustment: number };
+
+  /**
+   * @param bridge - Bridge to record (default: `createSimulatedBridge()`)
+   * @param options - Controller options
+   */
+  constructor(bridge: PlatformBridge = createSimulatedBridge(), options: HeightControllerOptions = {}) {
+    const timeline: TimelineEntry[] = [];
+    const current = { adjustment: 0 };
+    super({
+      updateHeight: height => {
+        timeline.push({ kind: 'bridge', adjustment: current.adjustment, height });
+        return bridge.updateHeight(height);
+      },
+      ...(bridge.getCapabilities && { getCapabilities: () => bridge.getCapabilities!() })
+    }, options);
+
+    this.timeline = timeline;
+    this.platformBridge = bridge;
+    this.current = current;
+    this.on('started', ({ fromHeight, toHeight, direction }) => {
+      current.adjustment++;
+      timeline.push({ kind: 'started', adjustment: current.adjustment, fromHeight, toHeight, direction });
+    });
+  }
+
+  override adjustHeight(
+    behavior: HeightAdjustmentBehavior,
+    options?: AdjustOptions
+  ): Promise<AdjustmentResult> {
+    // 非函数的回调原样传入，保留控制器的参数校验
+    const record = (kind: 'ui-change' | 'ui-complete', callback: unknown) =>
+      callback === undefined || typeof callback === 'function'
+        ? async (): Promise<void> => {
+            this.timeline.push({ kind, adjustment: this.current.adjustment, height: behavior.targetHeight });
+            await (callback as (() => void | Promise<void>) | undefined)?.();
+          }
+        : callback as () => void;
+
+    return super.adjustHeight(behavior && {
+      ...behavior,
+      onUIChange: record('ui-change', behavior.onUIChange),
+      onUIComplete: record('ui-complete', behavior.onUIComplete)
+    }, options);
+  }
+
+  /** Heights sent to the bridge, in order */
+  get bridgeHeights(): number[] {
+    return this.timeline.flatMap(entry => entry.kind === 'bridge' ? [entry.height] : []);
+  }
+
+  /** Forget the recorded timeline */
+  clearTimeline(): void {
+    this.timeline.length = 0;
+  }
+}
+
+/**
+ * Custom matchers added by `expect.extend(heightMatchers)`
+ */
+export interface HeightMatchers<R = unknown> {
+  /** Heights sent to the bridge equal `heights` (RecordingHeightController or SimulatedBridge) */
+  toHaveAdjustedThrough(heights: readonly number[]): R;
+
+  /** Every expansion called the bridge before onUIChange (RecordingHeightController) */
+  toHaveCalledBridgeBeforeUI(): R;
+
+  /** Every shrink called onUIComplete before the bridge (RecordingHeightController) */
+  toHaveCalledUIBeforeBridge(): R;
+
+  /** The controller is idle at `height` (any ObservableHeightController) */
+  toHaveSettledAt(height: number): R;
+
+  /** No adjustment is queued or running (any ObservableHeightController) */
+  toHaveNoPendingAdjustments(): R;
+}
+
+interface MatcherResult {
+  readonly pass: boolean;
+  readonly message: () => string;
+}
+
+function isController(value: unknown): value is ObservableHeightController {
+  return typeof value === 'object' && value !== null &&
+    typeof (value as ObservableHeightController).getCurrentHeight === 'function' &&
+    typeof (value as ObservableHeightController).getPendingCount === 'function';
+}
+
+function isSimulatedBridge(value: unknown): value is SimulatedBridge {
+  return typeof value === 'object' && value !== null && Array.isArray((value as SimulatedBridge).calls);
+}
+
+function invalid(matcher: string, expected: string, received: unknown): MatcherResult {
+  return {
+    pass: false,
+    message: () => `${matcher}: expected ${expected}, received ${String(received)}`
+  };
+}
+
+const format = (heights: readonly number[]): string => `[${heights.join(', ')}]`;
+
+/**
+ * 检查某方向的每次调整中，first 类步骤都早于 second 类步骤
+ */
+function checkOrder(
+  matcher: string,
+  received: unknown,
+  direction: 'expand' | 'shrink',
+  first: TimelineEntry['kind'],
+  second: TimelineEntry['kind']
+): MatcherResult {
+  if (!(received instanceof RecordingHeightController)) {
+    return invalid(matcher, 'a RecordingHeightController', received);
+  }
+
+  const { timeline } = received;
+  const adjustments = timeline.filter(
+    (entry): entry is Extract<TimelineEntry, { kind: 'started' }> =>
+      entry.kind === 'started' && entry.direction === direction
+  );
+  const violations = adjustments.filter(({ adjustment }) => {
+    const steps = timeline.filter(entry => entry.adjustment === adjustment).map(entry => entry.kind);
+    const firstIndex = steps.indexOf(first);
+    const secondIndex = steps.indexOf(second);
+    return firstIndex === -1 || secondIndex === -1 || firstIndex > secondIndex;
+  });
+
+  const pass = adjustments.length > 0 && violations.length === 0;
+  return {
+    pass,
+    message: () => adjustments.length === 0
+      ? `${matcher}: no ${direction} adjustment was recorded`
+      : pass
+        ? `${matcher}: expected some ${direction} adjustment to run ${second} before ${first}`
+        : `${matcher}: ${direction} adjustments ${violations.map(v => `#${v.adjustment} (${v.fromHeight}→${v.toHeight}px)`).join(', ')} did not run ${first} before ${second}`
+  };
+}
+
+/**
+ * Height matchers for Jest and Vitest
+ *
+ * @example
+ * ```typescript
+ * import { heightMatchers, type HeightMatchers } from '@bagaking/dma-frame/testing';
+ *
+ * expect.extend(heightMatchers);
+ *
+ * declare global {
+ *   namespace jest {
+ *     interface Matchers<R> extends HeightMatchers<R> {}
+ *   }
+ * }
+ * ```
+ */
+export const heightMatchers = {
+  toHaveAdjustedThrough(received: unknown, heights: readonly number[]): MatcherResult {
+    const actual = received instanceof RecordingHeightController
+      ? received.bridgeHeights
+      : isSimulatedBridge(received)
+        ? received.calls.map(call => call.targetHeight)
+        : undefined;
+    if (!actual) {
+      return invalid('toHaveAdjustedThrough', 'a RecordingHeightController or SimulatedBridge', received);
+    }
+
+    const pass = actual.length === heights.length && actual.every((height, index) => height === heights[index]);
+    return {
+      pass,
+      message: () => pass
+        ? `toHaveAdjustedThrough: expected the bridge not to receive ${format(heights)}`
+        : `toHaveAdjustedThrough: expected the bridge to receive ${format(heights)}, received ${format(actual)}`
+    };
+  },
+
+  toHaveCalledBridgeBeforeUI(received: unknown): MatcherResult {
+    return checkOrder('toHaveCalledBridgeBeforeUI', received, 'expand', 'bridge', 'ui-change');
+  },
+
+  toHaveCalledUIBeforeBridge(received: unknown): MatcherResult {
+    return checkOrder('toHaveCalledUIBeforeBridge', received, 'shrink', 'ui-complete', 'bridge');
+  },
+
+  toHaveSettledAt(received: unknown, height: number): MatcherResult {
+    if (!isController(received)) {
+      return invalid('toHaveSettledAt', 'a HeightController', received);
+    }
+
+    const current = received.getCurrentHeight();
+    const pending = received.getPendingCount();
+    const pass = current === height && pending === 0;
+    return {
+      pass,
+      message: () => pass
+        ? `toHaveSettledAt: expected the controller not to be settled at ${height}px`
+        : `toHaveSettledAt: expected the controller to be settled at ${height}px, ` +
+          `received ${current}px with ${pending} pending adjustment(s)`
+    };
+  },
+
+  toHaveNoPendingAdjustments(received: unknown): MatcherResult {
+    if (!isController(received)) {
+      return invalid('toHaveNoPendingAdjustments', 'a HeightController', received);
+    }
+
+    const pending = received.getPendingCount();
+    return {
+      pass: pending === 0,
+      message: () => pending === 0
+        ? 'toHaveNoPendingAdjustments: expected pending adjustments, received none'
+        : `toHaveNoPendingAdjustments: expected no pending adjustments, received ${pending}`
+    };
+  }
+};
@@ -15,6 +15,248 @@ export interface HeightAdjustmentBehavior {
   
   /** Completion callback - called when the adjustment is fully complete */
   readonly onUIComplete?: () => void | Promise<void>;
+  
+  /** Rollback callback - called with the previous height when a failed adjustment is rolled back */
+  readonly onRollback?: (previousHeight: number) => void | Promise<void>;
+  
+  /**
+   * Called when the platform applied a different height than requested (clamped by its limits),
+   * e.g. to enable internal scrolling; errors are logged and do not fail the adjustment
+   */
+  readonly onHeightClamped?: (appliedHeight: number, requestedHeight: number) => void | Promise<void>;
+  
+  /** Animate the change instead of jumping to the target (default: instant) */
+  readonly transition?: HeightTransition;
+  
+  /** Queue lane; higher lanes run before pending lower ones (default: 'normal') */
+  readonly priority?: AdjustmentPriority;
+  
+  /** Ordering of the bridge call and UI callbacks (default: controller timing) */
+  readonly timing?: TimingStrategyName | TimingStrategy;
+}
+
+/**
+ * Queue lanes, highest first
+ * - `user-blocking`: direct responses to user input ("collapse now")
+ * - `normal`: regular adjustments (default)
+ * - `background`: content reflows that can wait
+ */
+export type AdjustmentPriority = 'user-blocking' | 'normal' | 'background';
+
+/**
+ * Collects behaviors inside `CoreHeightController.transaction`
+ */
+export interface HeightTransaction {
+  /** Add a behavior to the transaction; the last target height wins */
+  adjustHeight(behavior: HeightAdjustmentBehavior): void;
+  
+  /** Net target height so far (undefined while empty) */
+  readonly targetHeight: number | undefined;
+  
+  /** Number of behaviors collected */
+  readonly size: number;
+}
+
+/**
+ * Extra height requested by `CoreHeightController.lease`
+ * - `extraPx`: raise the frame this many pixels above the content height
+ * - `minHeight`: keep the frame at least this tall
+ */
+export type HeightLeaseRequest =
+  | { readonly extraPx: number }
+  | { readonly minHeight: number };
+
+/**
+ * Handle of a held height lease
+ */
+export interface HeightLease {
+  /** Adjustment that raised the frame for this lease */
+  readonly acquired: Promise<AdjustmentResult>;
+  
+  /** Whether the lease has been released */
+  readonly isReleased: boolean;
+  
+  /** Release the lease; the frame returns to the height it would otherwise have (idempotent) */
+  release(): Promise<AdjustmentResult>;
+}
+
+/**
+ * Named easing curves, identical to their CSS counterparts
+ */
+export type EasingName = 'linear' | 'ease' | 'ease-in' | 'ease-out' | 'ease-in-out';
+
+/**
+ * Easing curve: a named curve or cubic-bezier control points [x1, y1, x2, y2]
+ */
+export type Easing = EasingName | readonly [number, number, number, number];
+
+/**
+ * Animated height transition
+ * Falls back to an instant change when the user prefers reduced motion or the bridge has no dynamic height
+ */
+export interface HeightTransition {
+  /** Transition length in milliseconds */
+  readonly durationMs: number;
+  
+  /** Easing curve (default: 'ease-in-out') */
+  readonly easing?: Easing;
+  
+  /**
+   * How the transition is driven
+   * - `bridge`: intermediate heights are sent to the bridge every `stepMs` (default)
+   * - `css`: the bridge changes once; the controller waits `durationMs` after onUIChange for a CSS transition
+   */
+  readonly mode?: 'bridge' | 'css';
+  
+  /** Interval between intermediate bridge updates in milliseconds (default: 16, at least the bridge's preferredUpdateIntervalMs) */
+  readonly stepMs?: number;
+}
+
+/**
+ * Built-in timing strategies
+ * - `default`: bridge first when expanding, UI first when shrinking
+ * - `parallel`: bridge call and onUIChange at the same time, then onUIComplete (fast platforms)
+ * - `ui-only`: UI callbacks only, no bridge call (static-height hosts)
+ * - `bridge-only`: bridge call only, no UI callbacks
+ */
+export type TimingStrategyName = 'default' | 'parallel' | 'ui-only' | 'bridge-only';
+
+/**
+ * Steps of one adjustment, handed to a timing strategy
+ * Each step runs at most once; failures are wrapped and recovered by the controller's failure policy
+ */
+export interface TimingContext {
+  /** Height before the adjustment */
+  readonly fromHeight: number;
+  
+  /** Target height (after platform clamping) */
+  readonly toHeight: number;
+  
+  readonly direction: 'expand' | 'shrink';
+  
+  /** Apply the target height through the bridge (including bridge-driven transitions) */
+  bridge(): Promise<void>;
+  
+  /** Run onUIChange (and wait for a CSS-driven transition) */
+  uiChange(): Promise<void>;
+  
+  /** Run onUIComplete */
+  uiComplete(): Promise<void>;
+  
+  /** Send an intermediate height to the bridge, e.g. for two-stage resizes */
+  updateHeight(height: number): Promise<number>;
+  
+  /** Stop here if the adjustment was aborted or the controller disposed */
+  checkpoint(): void;
+}
+
+/**
+ * Ordering of the bridge call and UI callbacks within one adjustment
+ *
+ * @example
+ * ```typescript
+ * // Grow to the larger height first, then swap the UI, then settle
+ * const twoStage: TimingStrategy = {
+ *   name: 'two-stage',
+ *   async run(step) {
+ *     await step.updateHeight(Math.max(step.fromHeight, step.toHeight));
+ *     await step.uiChange();
+ *     await step.uiComplete();
+ *     await step.bridge();
+ *   }
+ * };
+ * ```
+ */
+export interface TimingStrategy {
+  /** Name used in logs */
+  readonly name: string;
+  
+  run(context: TimingContext): Promise<void>;
+}
+
+/**
+ * Final status of a height adjustment
+ * - `completed`: every phase finished
+ * - `failed`: a phase raised an error (see `error`)
+ * - `superseded`: dropped by the queue policy before it started
+ * - `rolled-back`: a phase failed and the previous height was restored
+ */
+export type AdjustmentStatus = 'completed' | 'failed' | 'superseded' | 'rolled-back';
+
+/**
+ * Phase of an adjustment, used to locate failures
+ */
+export type AdjustmentPhase = 'bridge' | 'ui-change' | 'ui-complete' | 'rollback';
+
+/**
+ * What happens when a phase of an adjustment fails
+ * - `keep-ui`: keep the new UI, make sure onUIChange ran once and treat the target as current (default)
+ * - `rollback`: restore the previous height on the bridge and notify onRollback
+ * - `throw`: no compensation, reject the caller's promise with the error
+ */
+export type FailurePolicy = 'keep-ui' | 'rollback' | 'throw';
+
+/**
+ * Context passed to the onError hook
+ */
+export interface AdjustmentErrorContext {
+  /** Phase in which the error occurred */
+  readonly phase: AdjustmentPhase;
+  
+  /** Height before the failing operation */
+  readonly fromHeight: number;
+  
+  /** Height the failing operation targeted */
+  readonly toHeight: number;
+  
+  /** Failure policy applied to the adjustment */
+  readonly policy: FailurePolicy;
+}
+
+/**
+ * Outcome of a single height adjustment
+ */
+export interface AdjustmentResult {
+  /** Final status of this adjustment */
+  readonly status: AdjustmentStatus;
+  
+  /** Height before this adjustment started */
+  readonly fromHeight: number;
+  
+  /** Height this adjustment targeted */
+  readonly toHeight: number;
+  
+  /** Time spent processing this adjustment in milliseconds (excludes queue wait) */
+  readonly duration: number;
+  
+  /** Whether the platform bridge successfully applied the height */
+  readonly applied: boolean;
+  
+  /** Error raised while processing, if any */
+  readonly error?: unknown;
+  
+  /** Number of higher-priority behaviors that jumped ahead of this one while it was queued */
+  readonly overtakenBy?: number;
+  
+  /** Height the caller asked for; present only when the platform applied a different height */
+  readonly requestedHeight?: number;
+  
+  /** Height the platform actually applied; present only when it differs from requestedHeight */
+  readonly appliedHeight?: number;
+}
+
+/**
+ * Per-call adjustment options
+ */
+export interface AdjustOptions {
+  /** Cancels the adjustment: removed while queued, stopped between phases while running */
+  readonly signal?: AbortSignal;
+  
+  /** Failure policy for this call (default: controller policy) */
+  readonly failurePolicy?: FailurePolicy;
+  
+  /** Supersede pending behaviors in lower priority lanes (default: false) */
+  readonly supersedeLowerPriority?: boolean;
 }
 
 /**
@@ -24,6 +266,35 @@ export interface HeightAdjustmentBehavior {
 export interface PlatformBridge {
   /** Update the actual frame height via platform API */
   updateHeight(targetHeight: number): Promise<number>;
+  
+  /**
+   * Report what the platform supports (optional)
+   * Bridges without it are assumed to support dynamic height without limits
+   */
+  getCapabilities?(): BridgeCapabilities | Promise<BridgeCapabilities>;
+}
+
+/**
+ * What a platform bridge supports
+ */
+export interface BridgeCapabilities {
+  /** Whether the frame height can change at runtime; when false the controller skips bridge calls */
+  readonly dynamicHeight: boolean;
+  
+  /** Smallest height the platform accepts in pixels */
+  readonly minHeight?: number;
+  
+  /** Largest height the platform accepts in pixels */
+  readonly maxHeight?: number;
+  
+  /** Whether the frame width can change at runtime */
+  readonly resizableWidth: boolean;
+  
+  /** Layout modes the frame can switch between (default: none) */
+  readonly modes?: readonly FrameMode[];
+  
+  /** Preferred minimum interval between height updates in milliseconds */
+  readonly preferredUpdateIntervalMs?: number;
 }
 
 /**
@@ -33,7 +304,7 @@ export interface HeightController {
   /**
    * Adjust height with intelligent timing control
    */
-  adjustHeight(behavior: HeightAdjustmentBehavior): Promise<void>;
+  adjustHeight(behavior: HeightAdjustmentBehavior, options?: AdjustOptions): Promise<AdjustmentResult>;
   
   /** Dispose resources and clean up */
   dispose(): void;
@@ -42,6 +313,435 @@ export interface HeightController {
   readonly isDisposed: boolean;
 }
 
+/**
+ * Height controller that also exposes its state, lifecycle events and platform capabilities
+ * 在核心接口之外提供状态查询与订阅，React 绑定、持久化与测试匹配器依赖这些成员
+ */
+export interface ObservableHeightController extends HeightController {
+  /** Current frame height as tracked by the controller */
+  getCurrentHeight(): number;
+  
+  /**
+   * Height the content asks for, excluding active leases (default: the current height)
+   * Persistence saves this height, so a reopened frame never restores a lease
+   */
+  getContentHeight?(): number;
+  
+  /** Number of adjustments queued or running that have not settled yet */
+  getPendingCount(): number;
+  
+  /**
+   * Capabilities reported by the platform bridge
+   * Apps can switch to an in-frame scrolling layout when dynamic height is unsupported
+   */
+  getCapabilities(): Promise<BridgeCapabilities>;
+  
+  /**
+   * Listen to lifecycle events
+   * @returns Function removing the handler
+   */
+  on<K extends keyof HeightControllerEvents>(
+    event: K,
+    handler: (payload: HeightControllerEvents[K]) => void
+  ): () => void;
+  
+  /**
+   * Listen to current height changes
+   * @returns Function removing the listener
+   */
+  subscribe(listener: (height: number) => void): () => void;
+  
+  /**
+   * Observe an element and adjust height automatically as it resizes
+   */
+  observe(element: Element, options?: AutoHeightOptions): AutoHeightHandle;
+}
+
+/**
+ * Frame presentation, from narrowest to widest
+ */
+export type FrameMode = 'inline' | 'wide' | 'full-width';
+
+/**
+ * Dimension of a frame that can be adjusted
+ */
+export type FrameAxis = 'width' | 'height' | 'mode';
+
+/**
+ * Frame size; omitted axes are unknown (in a snapshot) or left unchanged (in a target)
+ */
+export interface FrameSize {
+  readonly width?: number;
+  readonly height?: number;
+  readonly mode?: FrameMode;
+}
+
+/**
+ * Bridge able to change more than the frame height
+ * Axes are only used when the bridge also declares them in its capabilities
+ */
+export interface FrameBridge extends PlatformBridge {
+  /** Update the frame width; resolves with the applied width */
+  updateWidth?(targetWidth: number): Promise<number>;
+  
+  /** Switch the layout mode; resolves with the applied mode */
+  updateMode?(mode: FrameMode): Promise<FrameMode>;
+}
+
+/**
+ * Frame adjustment behavior: height adjustment generalized to width and layout mode
+ */
+export interface FrameBehavior extends FrameSize {
+  /** UI change callback - called once after every growing axis and before every shrinking axis is applied */
+  readonly onUIChange?: () => void | Promise<void>;
+  
+  /** Completion callback - called after onUIChange, before shrinking axes are applied */
+  readonly onUIComplete?: () => void | Promise<void>;
+  
+  /** Rollback callback - called with the previous size when a failed adjustment is rolled back */
+  readonly onRollback?: (previousSize: FrameSize) => void | Promise<void>;
+  
+  /** Animate the height axis (see HeightAdjustmentBehavior.transition) */
+  readonly transition?: HeightTransition;
+  
+  /** Called when the platform applied a different height (see HeightAdjustmentBehavior.onHeightClamped) */
+  readonly onHeightClamped?: (appliedHeight: number, requestedHeight: number) => void | Promise<void>;
+  
+  /** Queue lane; higher lanes run before pending lower ones (default: 'normal') */
+  readonly priority?: AdjustmentPriority;
+  
+  /** Ordering of the height bridge call and UI callbacks (see HeightAdjustmentBehavior.timing) */
+  readonly timing?: TimingStrategyName | TimingStrategy;
+}
+
+/**
+ * Outcome of a single frame adjustment
+ */
+export interface FrameAdjustmentResult {
+  /** Final status of this adjustment */
+  readonly status: AdjustmentStatus;
+  
+  /** Frame size before this adjustment started */
+  readonly from: FrameSize;
+  
+  /** Frame size this adjustment targeted */
+  readonly to: FrameSize;
+  
+  /** Time spent processing this adjustment in milliseconds (excludes queue wait) */
+  readonly duration: number;
+  
+  /** Axes the bridge applied */
+  readonly applied: readonly FrameAxis[];
+  
+  /** Requested axes the bridge does not support */
+  readonly skipped: readonly FrameAxis[];
+  
+  /** Result of the height axis, when a height was requested */
+  readonly height?: AdjustmentResult;
+  
+  /** Error raised while processing, if any */
+  readonly error?: unknown;
+  
+  /** Number of higher-priority adjustments that jumped ahead of this one while it was queued */
+  readonly overtakenBy?: number;
+}
+
+/**
+ * Frame controller: a height controller that also manages width and layout mode
+ */
+export interface FrameController extends ObservableHeightController {
+  /**
+   * Adjust any combination of width, height and mode
+   * Growing axes are applied before the UI changes, shrinking axes after it completes
+   */
+  adjustFrame(behavior: FrameBehavior, options?: AdjustOptions): Promise<FrameAdjustmentResult>;
+  
+  /** Current frame size as tracked by the controller */
+  getFrameSize(): FrameSize;
+  
+  /**
+   * Listen to frame size changes
+   * @returns Function removing the listener
+   */
+  subscribeFrame(listener: (size: FrameSize) => void): () => void;
+}
+
+/**
+ * Frame controller options
+ */
+export interface FrameControllerOptions extends HeightControllerOptions {
+  /** Width the frame starts with, used to tell growing from shrinking */
+  initialWidth?: number;
+  
+  /** Mode the frame starts with, used to tell growing from shrinking */
+  initialMode?: FrameMode;
+}
+
+/**
+ * Lifecycle events emitted by a height controller, keyed by event name
+ */
+export interface HeightControllerEvents {
+  /** A behavior entered the queue */
+  'queued': { readonly targetHeight: number; readonly queueLength: number };
+  
+  /** A behavior started processing */
+  'started': { readonly fromHeight: number; readonly toHeight: number; readonly direction: 'expand' | 'shrink' };
+  
+  /** The platform bridge applied a height */
+  'bridge-applied': { readonly fromHeight: number; readonly toHeight: number; readonly appliedHeight: number };
+  
+  /** The UI change phase finished */
+  'ui-changed': { readonly fromHeight: number; readonly toHeight: number };
+  
+  /** An adjustment finished every phase */
+  'completed': AdjustmentResult;
+  
+  /** A phase of an adjustment failed */
+  'failed': AdjustmentErrorContext & { readonly error: DMAppFrameError };
+  
+  /** A pending behavior was dropped by the queue policy */
+  'superseded': AdjustmentResult;
+  
+  /** A higher-priority behavior jumped ahead of a pending one */
+  'reordered': {
+    readonly targetHeight: number;
+    readonly priority: AdjustmentPriority;
+    readonly overtakenBy: { readonly targetHeight: number; readonly priority: AdjustmentPriority };
+  };
+  
+  /** An adjustment was aborted or cancelled by dispose */
+  'cancelled': { readonly targetHeight: number; readonly reason: 'aborted' | 'disposed' };
+  
+  /** The number of unsettled adjustments changed */
+  'pending-changed': { readonly pendingCount: number };
+  
+  /** The controller was disposed */
+  'disposed': { readonly height: number };
+}
+
+/**
+ * Snapshot of an adjustment that has not settled yet
+ */
+export interface QueuedAdjustment {
+  /** Height the adjustment targets */
+  readonly targetHeight: number;
+  
+  /** Queue lane of the adjustment */
+  readonly priority: AdjustmentPriority;
+  
+  /** Epoch milliseconds when the adjustment was queued */
+  readonly enqueuedAt: number;
+  
+  /** Whether the adjustment is currently running */
+  readonly running: boolean;
+}
+
+/**
+ * Auto height observation options
+ */
+export interface AutoHeightOptions {
+  /** Lower bound for the measured height in pixels */
+  readonly minHeight?: number;
+  
+  /** Upper bound for the measured height in pixels */
+  readonly maxHeight?: number;
+  
+  /** Debounce window for bursts of size changes (default: 50ms) */
+  readonly debounceMs?: number;
+  
+  /** Box to measure: margin-box includes margins, content-box excludes padding and border (default: margin-box) */
+  readonly box?: 'margin-box' | 'border-box' | 'content-box';
+  
+  /** Also watch DOM mutations inside the element (default: true) */
+  readonly observeMutations?: boolean;
+  
+  /** UI change callback for each automatic adjustment */
+  readonly onUIChange?: (height: number) => void | Promise<void>;
+  
+  /** Completion callback for each automatic adjustment */
+  readonly onUIComplete?: (height: number) => void | Promise<void>;
+}
+
+/**
+ * Handle returned by `observe`, used to stop auto height
+ */
+export interface AutoHeightHandle {
+  /** Stop observing and cancel any pending measurement */
+  disconnect(): void;
+  
+  /** Schedule a measurement manually (e.g. after a font load) */
+  remeasure(): void;
+  
+  /** Whether the element is still observed */
+  readonly isObserving: boolean;
+}
+
+/**
+ * How pending behaviors are scheduled
+ * - `serial`: run every behavior in order (default)
+ * - `latest-wins`: a new behavior supersedes all behaviors that have not started yet
+ * - `coalesce-by-window`: wait a short window after the first queued behavior, then run only the latest one
+ */
+export type QueuePolicy = 'serial' | 'latest-wins' | 'coalesce-by-window';
+
+/**
+ * Height controller options
+ */
+export interface HeightControllerOptions {
+  /** Enable debug logging to the console (ignored when `logger` is set) */
+  debug?: boolean;
+  
+  /** Logger receiving structured log entries (default: console when debug, otherwise silent) */
+  logger?: Logger;
+  
+  /** Queue scheduling policy (default: 'serial') */
+  queuePolicy?: QueuePolicy;
+  
+  /** Window used by the 'coalesce-by-window' policy in milliseconds (default: bridge preferredUpdateIntervalMs, otherwise 16) */
+  coalesceWindowMs?: number;
+  
+  /** Failure policy for all adjustments (default: 'keep-ui') */
+  failurePolicy?: FailurePolicy;
+  
+  /** Called for every bridge or UI callback error */
+  onError?: (error: DMAppFrameError, context: AdjustmentErrorContext) => void;
+  
+  /** Retry failed bridge calls (see `withRetry`) */
+  retry?: RetryOptions;
+  
+  /** Timeout for each bridge call in milliseconds (default: none) */
+  bridgeTimeoutMs?: number;
+  
+  /** Timeout for onUIComplete in milliseconds (default: none) */
+  uiCompleteTimeoutMs?: number;
+  
+  /** Restore the last settled height on creation and save it afterwards (see `persistHeight`) */
+  persistence?: HeightPersistenceOptions;
+  
+  /** Timing strategy for adjustments that do not pick one (default: 'default') */
+  timing?: TimingStrategyName | TimingStrategy;
+}
+
+/**
+ * Log severity levels, lowest first
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * Structured fields attached to a log entry
+ */
+export interface LogFields {
+  /** Instance identifier from generateDebugId */
+  readonly debugId?: string;
+  
+  /** Height before the operation */
+  readonly fromHeight?: number;
+  
+  /** Height targeted by the operation */
+  readonly toHeight?: number;
+  
+  /** Adjustment phase */
+  readonly phase?: AdjustmentPhase;
+  
+  /** Additional fields */
+  readonly [key: string]: unknown;
+}
+
+/**
+ * Pluggable logger
+ */
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+}
+
+/**
+ * Log entry as stored by MemoryLogger
+ */
+export interface LogEntry {
+  readonly level: LogLevel;
+  readonly message: string;
+  readonly fields: LogFields;
+  readonly timestamp: number;
+}
+
+/**
+ * Retry options for bridge calls
+ */
+export interface RetryOptions {
+  /** Total attempts including the first one (default: 3) */
+  maxAttempts?: number;
+  
+  /** Delay after the first failure in milliseconds (default: 100) */
+  baseDelayMs?: number;
+  
+  /** Upper bound for a single delay in milliseconds (default: 2000) */
+  maxDelayMs?: number;
+  
+  /** Exponential growth factor (default: 2) */
+  factor?: number;
+  
+  /** Fraction of each delay that is randomized, 0-1 (default: 0.5) */
+  jitter?: number;
+  
+  /** Timeout for each attempt in milliseconds (default: none) */
+  timeoutMs?: number;
+  
+  /** Decide whether an error is retried (default: PlatformBridgeError and TimeoutError) */
+  retryOn?: (error: unknown, attempt: number) => boolean;
+  
+  /** Called before waiting for the next attempt */
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void;
+}
+
+/**
+ * Key-value storage holding persisted heights
+ * 同步或异步均可：localStorage、平台的 block 存储、内存
+ */
+export interface HeightStorage {
+  /** Read a value; null when missing */
+  getItem(key: string): string | null | Promise<string | null>;
+  
+  /** Write a value */
+  setItem(key: string, value: string): void | Promise<void>;
+  
+  /** Delete a value */
+  removeItem(key: string): void | Promise<void>;
+}
+
+/**
+ * Height persistence options
+ */
+export interface HeightPersistenceOptions {
+  /** Storage adapter (see `createLocalHeightStorage`, `createMemoryHeightStorage`) */
+  readonly storage: HeightStorage;
+  
+  /** Block or document identifier the height belongs to */
+  readonly key: string;
+  
+  /** Prefix for storage keys (default: 'dma-frame:height') */
+  readonly namespace?: string;
+  
+  /** Discard heights older than this, in milliseconds (default: 7 days) */
+  readonly ttlMs?: number;
+  
+  /** Layout schema version; bump it when the layout changes so older heights are discarded (default: 1) */
+  readonly version?: number;
+}
+
+/**
+ * Handle returned by `persistHeight`
+ */
+export interface HeightPersistenceHandle {
+  /** Settles with the restored height, or undefined when nothing was restored */
+  readonly restored: Promise<number | undefined>;
+  
+  /** Stop saving heights */
+  disconnect(): void;
+}
+
 /**
  * Factory function type for creating height controllers
  */
@@ -50,10 +750,7 @@ export type HeightControllerFactory<T extends HeightController = HeightControlle
 /**
  * Platform-specific factory options
  */
-export interface PlatformFactoryOptions {
-  /** Enable debug logging */
-  debug?: boolean;
-  
+export interface PlatformFactoryOptions extends HeightControllerOptions {
   /** Custom platform identifier */
   platformId?: string;
   
@@ -76,7 +773,11 @@ export class DMAppFrameError extends Error {
 }
 
 export class PlatformBridgeError extends DMAppFrameError {
-  constructor(message: string, platform: string) {
+  constructor(
+    message: string, 
+    platform: string,
+    public readonly cause?: unknown
+  ) {
     super(message, 'PLATFORM_BRIDGE_ERROR', platform);
     this.name = 'PlatformBridgeError';
   }
@@ -89,6 +790,45 @@ export class HeightControllerError extends DMAppFrameError {
   }
 }
 
+export class TimeoutError extends DMAppFrameError {
+  constructor(
+    public readonly operation: string,
+    public readonly timeoutMs: number,
+    platform?: string
+  ) {
+    super(`${operation} timed out after ${timeoutMs}ms`, 'TIMEOUT', platform);
+    this.name = 'TimeoutError';
+  }
+}
+
+export class UICallbackError extends DMAppFrameError {
+  constructor(
+    public readonly phase: 'ui-change' | 'ui-complete' | 'rollback',
+    public readonly cause: unknown
+  ) {
+    const message = cause instanceof Error ? cause.message : String(cause);
+    super(`UI callback failed in ${phase} phase: ${message}`, 'UI_CALLBACK_ERROR');
+    this.name = 'UICallbackError';
+  }
+}
+
+export class AdjustmentCancelledError extends DMAppFrameError {
+  constructor(
+    public readonly targetHeight: number,
+    public readonly reason: 'aborted' | 'disposed',
+    platform?: string
+  ) {
+    super(
+      reason === 'disposed'
+        ? `Height adjustment to ${targetHeight}px cancelled: controller disposed`
+        : `Height adjustment to ${targetHeight}px aborted`,
+      'ADJUSTMENT_CANCELLED',
+      platform
+    );
+    this.name = 'AdjustmentCancelledError';
+  }
+}
+
 // Legacy compatibility
 export type { HeightAdjustmentBehavior as HeightBehavior };
 
@@ -185,4 +925,47 @@ export function isModuleImportError(error: unknown): boolean {
 
   // 检查错误消息模式
   return importErrorPatterns.some(pattern => pattern.test(errorMessage));
-}
\ No newline at end of file
+}
+
+/**
+ * 为 Promise 加上超时限制
+ * 超时后以 TimeoutError 拒绝；原 Promise 之后的失败会被吞掉，避免未处理的拒绝
+ * 
+ * @param promise - Operation to guard
+ * @param timeoutMs - Timeout in milliseconds; undefined, non-positive or Infinity disables it
+ * @param operation - Operation name used in the error message
+ * @returns Promise settling with the operation or rejecting with TimeoutError
+ * 
+ * @example
+ * ```typescript
+ * await withTimeout(bridge.updateHeight(600), 3000, 'updateHeight(600)');
+ * ```
+ */
+export function withTimeout<T>(
+  promise: Promise<T> | T,
+  timeoutMs: number | undefined,
+  operation: string
+): Promise<T> {
+  const guarded = Promise.resolve(promise);
+  if (timeoutMs === undefined || timeoutMs <= 0 || !Number.isFinite(timeoutMs)) {
+    return guarded;
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      guarded.catch(() => undefined);
+      reject(new TimeoutError(operation, timeoutMs));
+    }, timeoutMs);
+
+    guarded.then(
+      value => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      error => {
+        clearTimeout(timer);
+        reject(error);
+      }
+    );
+  });
+}